@@ -0,0 +1,77 @@
+-- Upgrade a database from the single-message schema to per-destination deliveries
+--
+-- Posts used to hold one discord_msg_id / delivered_at; each is now a row in deliveries,
+-- and delivery_logs point at the delivery they belong to. Run this BEFORE `npm run db:push`
+-- on a database created before deliveries existed (see RUNBOOK → Upgrading), otherwise the
+-- push drops the old columns and every stored Discord message ID with them.
+--
+--   docker compose exec -T postgres psql -U relay -d relay -v ON_ERROR_STOP=1 < prisma/upgrades/deliveries.sql
+--
+-- Safe to run twice: it does nothing once posts.discord_msg_id is gone.
+
+BEGIN;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'posts' AND column_name = 'discord_msg_id'
+  ) THEN
+    RAISE NOTICE 'posts.discord_msg_id does not exist, nothing to upgrade';
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'DeliveryStatus') THEN
+    CREATE TYPE "DeliveryStatus" AS ENUM ('pending', 'delivered', 'failed', 'needs_review', 'retracted');
+  END IF;
+
+  CREATE TABLE IF NOT EXISTS "deliveries" (
+    "id" TEXT NOT NULL,
+    "post_id" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "webhook_id" TEXT,
+    "status" "DeliveryStatus" NOT NULL DEFAULT 'pending',
+    "discord_msg_id" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "deliveries_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "deliveries_post_id_fkey" FOREIGN KEY ("post_id") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS "deliveries_post_id_destination_key" ON "deliveries"("post_id", "destination");
+  CREATE INDEX IF NOT EXISTS "deliveries_status_idx" ON "deliveries"("status");
+
+  -- One delivery per post that reached Discord. The old schema did not record which webhook
+  -- sent it, so it is filed under the default route with no webhook ID (see RUNBOOK for tag routes)
+  INSERT INTO "deliveries" ("id", "post_id", "destination", "status", "discord_msg_id", "attempts", "delivered_at", "created_at", "updated_at")
+  SELECT gen_random_uuid()::text, p."id", 'default', 'delivered', p."discord_msg_id", 1,
+         COALESCE(p."delivered_at", p."updated_at"), p."received_at", p."updated_at"
+  FROM "posts" p
+  WHERE (p."discord_msg_id" IS NOT NULL OR p."status"::text = 'delivered')
+    AND NOT EXISTS (SELECT 1 FROM "deliveries" d WHERE d."post_id" = p."id");
+
+  -- Logs of posts that no longer exist cannot satisfy the new foreign key
+  DELETE FROM "delivery_logs" l WHERE NOT EXISTS (SELECT 1 FROM "posts" p WHERE p."fb_post_id" = l."fb_post_id");
+
+  ALTER TABLE "delivery_logs" ADD COLUMN IF NOT EXISTS "delivery_id" TEXT;
+  ALTER TABLE "delivery_logs" ADD COLUMN IF NOT EXISTS "destination" TEXT;
+  UPDATE "delivery_logs" l
+  SET "delivery_id" = d."id", "destination" = d."destination"
+  FROM "posts" p JOIN "deliveries" d ON d."post_id" = p."id"
+  WHERE p."fb_post_id" = l."fb_post_id" AND l."delivery_id" IS NULL;
+  -- Attempts of posts that never got a message keep a null delivery_id
+  UPDATE "delivery_logs" SET "destination" = 'default' WHERE "destination" IS NULL;
+  ALTER TABLE "delivery_logs" ALTER COLUMN "destination" SET NOT NULL;
+
+  ALTER TABLE "delivery_logs"
+    ADD CONSTRAINT "delivery_logs_fb_post_id_fkey" FOREIGN KEY ("fb_post_id") REFERENCES "posts"("fb_post_id") ON DELETE CASCADE ON UPDATE CASCADE,
+    ADD CONSTRAINT "delivery_logs_delivery_id_fkey" FOREIGN KEY ("delivery_id") REFERENCES "deliveries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  CREATE INDEX IF NOT EXISTS "delivery_logs_fb_post_id_idx" ON "delivery_logs"("fb_post_id");
+  CREATE INDEX IF NOT EXISTS "delivery_logs_delivery_id_idx" ON "delivery_logs"("delivery_id");
+
+  ALTER TABLE "posts" DROP COLUMN "discord_msg_id", DROP COLUMN "delivered_at";
+END $$;
+
+COMMIT;
@@ -0,0 +1,90 @@
+#!/usr/bin/env tsx
+/**
+ * Inspect or toggle the alerts kill switch without restarting the worker
+ *
+ * Usage:
+ *   npx tsx scripts/alerts.ts status
+ *   npx tsx scripts/alerts.ts off
+ *   npx tsx scripts/alerts.ts on
+ *   npx tsx scripts/alerts.ts release   # send posts held while alerts were off
+ *
+ * Uses the same environment as the ingress/worker (DATABASE_URL etc.)
+ */
+
+import { randomUUID } from 'crypto';
+import PgBoss from 'pg-boss';
+import { config } from '../src/config.js';
+import { prisma, releasePausedPosts, PostStatus } from '../src/services/post-state.js';
+import { getAlertsState, setAlertsEnabled } from '../src/services/settings.js';
+import { enqueueProcessPost } from '../src/queues.js';
+
+async function printStatus(): Promise<void> {
+  const state = await getAlertsState();
+  const pausedCount = await prisma.post.count({ where: { status: PostStatus.paused } });
+
+  console.log(`${state.enabled ? '🟢 Alerts ENABLED' : '🔴 Alerts DISABLED'} (from ${state.source})`);
+  if (state.updatedAt) {
+    console.log(`   Last changed: ${state.updatedAt.toISOString()}`);
+  }
+  console.log(`   Held posts: ${pausedCount}`);
+}
+
+async function release(): Promise<boolean> {
+  const state = await getAlertsState();
+  if (!state.enabled) {
+    console.error('❌ Alerts are disabled. Run `npm run alerts -- on` first.');
+    return false;
+  }
+
+  const boss = new PgBoss({ connectionString: config.DATABASE_URL });
+  await boss.start();
+
+  try {
+    const correlationId = randomUUID();
+    const released = await releasePausedPosts('cli');
+    for (const post of released) {
+      await enqueueProcessPost(boss, { fbPostId: post.fbPostId, correlationId, ignoreMaxAge: true }, { bulk: true });
+      console.log(`  - ${post.fbPostId}`);
+    }
+    console.log(`✅ Released ${released.length} held post(s)`);
+  } finally {
+    await boss.stop();
+  }
+
+  return true;
+}
+
+async function main() {
+  const command = process.argv[2] ?? 'status';
+  let ok = true;
+
+  switch (command) {
+    case 'status':
+      await printStatus();
+      break;
+    case 'on':
+      await setAlertsEnabled(true, 'cli');
+      console.log('🟢 Alerts enabled');
+      await printStatus();
+      break;
+    case 'off':
+      await setAlertsEnabled(false, 'cli');
+      console.log('🔴 Alerts disabled — new posts will be held as paused');
+      break;
+    case 'release':
+      ok = await release();
+      break;
+    default:
+      console.error(`Unknown command: ${command}`);
+      console.error('Usage: npm run alerts -- [status|on|off|release]');
+      ok = false;
+  }
+
+  await prisma.$disconnect();
+  process.exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+#!/usr/bin/env tsx
+/**
+ * Apply the retention policy now, or bring archived records back for an investigation
+ *
+ * Usage:
+ *   npx tsx scripts/archive.ts run                        # archive and delete rows past retention
+ *   npx tsx scripts/archive.ts list                       # archive files in ARCHIVE_DIR
+ *   npx tsx scripts/archive.ts restore <file> [--dry-run] # insert an archive's rows again
+ *
+ * Archives are gzipped NDJSON ({"table": ..., "row": ...} per line), one or more files per run.
+ * Restoring skips rows that still exist. Loose events and delivery logs need their post,
+ * so restore older archives before newer ones.
+ *
+ * Uses the same environment as the worker (DATABASE_URL, ARCHIVE_DIR, RETENTION_*)
+ */
+
+import { readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { config as dotenvConfig } from 'dotenv';
+dotenvConfig();
+
+const USAGE = 'Usage: npm run archive -- [run|list|restore <file> [--dry-run]]';
+
+async function run(): Promise<boolean> {
+  const { config } = await import('../src/config.js');
+  const { archiveOldRecords, retentionPolicyFromConfig } = await import('../src/services/retention.js');
+
+  const policy = retentionPolicyFromConfig();
+  console.log('🗄️ Applying retention:');
+  console.log(`   Posts:          ${Object.entries(policy.posts).map(([status, days]) => `${status} ${days}d`).join(', ') || '(kept)'}`);
+  console.log(`   Events:         ${policy.postEventsDays ? `${policy.postEventsDays}d` : '(kept)'}`);
+  console.log(`   Delivery logs:  ${policy.deliveryLogsDays ? `${policy.deliveryLogsDays}d` : '(kept)'}\n`);
+
+  const result = await archiveOldRecords(policy, config.ARCHIVE_DIR);
+  for (const file of result.files) {
+    console.log(`  - ${file}`);
+  }
+  const { posts, deliveries, post_events, delivery_logs } = result.archived;
+  console.log(`✅ Archived ${posts} post(s), ${deliveries} deliveries, ${post_events} event(s), ${delivery_logs} delivery log(s)`);
+  return true;
+}
+
+async function list(): Promise<boolean> {
+  const { config } = await import('../src/config.js');
+
+  let files: string[];
+  try {
+    files = (await readdir(config.ARCHIVE_DIR)).filter((file) => file.endsWith('.ndjson.gz')).sort();
+  } catch {
+    files = [];
+  }
+  if (files.length === 0) {
+    console.log(`📭 No archives in ${config.ARCHIVE_DIR}`);
+    return true;
+  }
+
+  console.log(`🗄️ ${files.length} archive(s) in ${config.ARCHIVE_DIR}:`);
+  for (const file of files) {
+    const { size } = await stat(join(config.ARCHIVE_DIR, file));
+    console.log(`  - ${file}  (${(size / 1024).toFixed(1)} KiB)`);
+  }
+  return true;
+}
+
+async function restore(file: string, dryRun: boolean): Promise<boolean> {
+  const { readArchive, restoreArchive } = await import('../src/services/retention.js');
+
+  if (dryRun) {
+    const rows = await readArchive(file);
+    console.log(`🔎 ${file}:`);
+    for (const [table, tableRows] of Object.entries(rows)) {
+      console.log(`   ${table.padEnd(14)} ${tableRows.length}`);
+    }
+    for (const post of rows.posts) {
+      console.log(`  - ${post.fbPostId}  ${post.status}  ${post.receivedAt}`);
+    }
+    return true;
+  }
+
+  const restored = await restoreArchive(file);
+  const { posts, deliveries, post_events, delivery_logs } = restored;
+  console.log(`✅ Restored ${posts} post(s), ${deliveries} deliveries, ${post_events} event(s), ${delivery_logs} delivery log(s)`);
+  console.log('   Restored posts keep their status and are not re-enqueued.');
+  return true;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  let ok: boolean;
+  if (command === 'run') {
+    ok = await run();
+  } else if (command === 'list') {
+    ok = await list();
+  } else if (command === 'restore' && args[0]) {
+    ok = await restore(args[0], args.includes('--dry-run'));
+  } else {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const { prisma } = await import('../src/services/post-state.js');
+  await prisma.$disconnect();
+  process.exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
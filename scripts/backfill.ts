@@ -0,0 +1,165 @@
+#!/usr/bin/env tsx
+/**
+ * Recover posts whose webhook never arrived (ingress down, Facebook dropped it)
+ *
+ * Usage:
+ *   npx tsx scripts/backfill.ts --since 6h                      # every enabled page
+ *   npx tsx scripts/backfill.ts --page <id> --since 2024-05-01T09:00Z --until 2024-05-01T12:00Z
+ *   npx tsx scripts/backfill.ts --since 2h --dry-run            # list what would be enqueued
+ *   npx tsx scripts/backfill.ts --since 1d --ignore-max-age     # also relay posts past MAX_POST_AGE_MINUTES
+ *
+ * Reads the page feed for the window and enqueues the posts that have no post record yet;
+ * the worker then handles them like any webhook (tag check, routing, delivery).
+ * --since/--until take an ISO timestamp or a duration before now (30m, 6h, 2d).
+ * Posts older than MAX_POST_AGE_MINUTES are skipped unless --ignore-max-age is given,
+ * which asks for confirmation first - traders see them as new alerts.
+ *
+ * Uses the same environment as the ingress/worker (DATABASE_URL etc.)
+ */
+
+import { randomUUID } from 'crypto';
+import { createInterface } from 'readline/promises';
+import { config as dotenvConfig } from 'dotenv';
+import type { PageContext } from '../src/services/pages.js';
+import type { MissedPost } from '../src/services/backfill.js';
+dotenvConfig();
+
+const USAGE = 'Usage: npm run backfill -- --since <time|duration> [--until <time|duration>] [--page <id>] [--dry-run] [--ignore-max-age]';
+
+/**
+ * Parse an ISO timestamp or a duration before now ("90m", "6h", "2d")
+ */
+function parseTime(value: string): Date | null {
+  const duration = /^(\d+)([mhd])$/.exec(value);
+  if (duration) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[duration[2] as 'm' | 'h' | 'd'];
+    return new Date(Date.now() - Number(duration[1]) * unitMs);
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return (await rl.question(question)).trim().toLowerCase() === 'yes';
+  } finally {
+    rl.close();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const options = new Map<string, string>();
+  const flags = new Set<string>();
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--page' || args[i] === '--since' || args[i] === '--until') {
+      options.set(args[i], args[++i]);
+    } else if (args[i] === '--dry-run' || args[i] === '--ignore-max-age') {
+      flags.add(args[i]);
+    } else {
+      console.error(`Unknown argument: ${args[i]}`);
+      console.error(USAGE);
+      process.exit(1);
+    }
+  }
+
+  const since = options.has('--since') ? parseTime(options.get('--since')!) : null;
+  const until = options.has('--until') ? parseTime(options.get('--until')!) : new Date();
+  if (!since || !until || since >= until) {
+    console.error('❌ --since is required and must be before --until');
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const dryRun = flags.has('--dry-run');
+  const ignoreMaxAge = flags.has('--ignore-max-age');
+
+  const { config } = await import('../src/config.js');
+  const { listPages, getPage } = await import('../src/services/pages.js');
+  const { findMissedPosts, enqueueMissedPosts } = await import('../src/services/backfill.js');
+  const { prisma } = await import('../src/services/post-state.js');
+
+  const pageId = options.get('--page');
+  const pages = pageId ? [await getPage(pageId)] : await listPages();
+  if (pages[0] === null) {
+    console.error(`❌ Unknown or disabled page ${pageId}`);
+    process.exit(1);
+  }
+  if (pages.length === 0) {
+    console.log('⚠️ No pages configured.');
+    process.exit(0);
+  }
+
+  console.log(`🔎 Scanning ${since.toISOString()} → ${until.toISOString()}${dryRun ? ' (dry run)' : ''}\n`);
+
+  let ok = true;
+  const found: Array<{ page: PageContext; missed: MissedPost[] }> = [];
+  for (const page of pages) {
+    if (!page) continue;
+    const result = await findMissedPosts(page, since, until);
+    console.log(`📄 ${page.id}${page.name ? ` (${page.name})` : ''}`);
+    if (!result.success) {
+      console.log(`   ❌ Could not read feed: ${result.error}\n`);
+      ok = false;
+      continue;
+    }
+
+    console.log(`   ${result.scanned} post(s) in window, ${result.missed!.length} never seen`);
+    for (const { post, tooOld, tracked } of result.missed!) {
+      const notes = [tracked ? 'tagged' : 'no tag', tooOld ? 'older than cutoff' : null].filter(Boolean);
+      const preview = (post.message ?? '').replace(/\s+/g, ' ').slice(0, 60);
+      console.log(`   - ${post.id}  ${post.created_time ?? '?'}  [${notes.join(', ')}]  ${preview}`);
+    }
+    console.log('');
+    found.push({ page, missed: result.missed! });
+  }
+
+  const missed = found.flatMap((entry) => entry.missed);
+  const tooOld = missed.filter((entry) => entry.tooOld);
+
+  if (dryRun || missed.length === 0) {
+    if (tooOld.length > 0 && !ignoreMaxAge) {
+      console.log(`ℹ️ ${tooOld.length} post(s) are older than MAX_POST_AGE_MINUTES (${config.MAX_POST_AGE_MINUTES}) and would be skipped without --ignore-max-age`);
+    }
+    await prisma.$disconnect();
+    process.exit(ok ? 0 : 1);
+  }
+
+  let relayOld = false;
+  if (tooOld.length > 0) {
+    if (ignoreMaxAge) {
+      const tagged = tooOld.filter((entry) => entry.tracked).length;
+      console.log(`⚠️ ${tooOld.length} post(s) are older than MAX_POST_AGE_MINUTES (${config.MAX_POST_AGE_MINUTES}); ${tagged} carry a tracked tag and will be posted to Discord as new alerts.`);
+      relayOld = await confirm('Type "yes" to relay them: ');
+      if (!relayOld) {
+        console.log('   Skipping posts older than the cutoff.');
+      }
+    } else {
+      console.log(`ℹ️ Skipping ${tooOld.length} post(s) older than MAX_POST_AGE_MINUTES (use --ignore-max-age to include them)`);
+    }
+  }
+
+  const PgBoss = (await import('pg-boss')).default;
+  const boss = new PgBoss({ connectionString: config.DATABASE_URL });
+  await boss.start();
+
+  try {
+    const correlationId = randomUUID();
+    let total = 0;
+    for (const { page, missed: pageMissed } of found) {
+      const enqueued = await enqueueMissedPosts(boss, page, pageMissed, correlationId, { ignoreMaxAge: relayOld });
+      total += enqueued.length;
+    }
+    console.log(`✅ Enqueued ${total} post(s) (correlation ID ${correlationId})`);
+  } finally {
+    await boss.stop();
+  }
+
+  await prisma.$disconnect();
+  process.exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,165 @@
+#!/usr/bin/env tsx
+/**
+ * Inspect and renew Facebook Page access tokens
+ *
+ * Usage:
+ *   npx tsx scripts/pageToken.ts check                    # every enabled page
+ *   npx tsx scripts/pageToken.ts check --page <id>
+ *   npx tsx scripts/pageToken.ts exchange --page <id> --token <short-lived user token>
+ *
+ * `check` runs the same debug_token check as the worker (and sends the same ops warnings).
+ * `exchange` turns a short-lived user token from the Graph API Explorer into a long-lived
+ * page token and saves it (to the referenced secret for "secret:<name>" tokens, encrypted when
+ * SECRETS_MASTER_KEY is set). For a plain META_PAGE_ACCESS_TOKEN it prints the new value instead.
+ *
+ * Requires META_APP_ID, META_APP_SECRET and DATABASE_URL
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+dotenvConfig();
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : 'never';
+}
+
+async function check(pageId: string | undefined): Promise<boolean> {
+  const { listPages, getPage } = await import('../src/services/pages.js');
+  const { checkPageToken } = await import('../src/worker/handlers/check-page-tokens.js');
+  const { assessToken } = await import('../src/utils/token-health.js');
+  const { config } = await import('../src/config.js');
+  const { logger } = await import('../src/logger.js');
+
+  const pages = pageId ? [await getPage(pageId)] : await listPages();
+  if (pages.length === 0) {
+    console.log('⚠️ No pages configured.');
+    return true;
+  }
+
+  let healthy = true;
+  for (const page of pages) {
+    if (!page) {
+      console.error(`❌ Unknown or disabled page ${pageId}`);
+      return false;
+    }
+
+    console.log(`📄 ${page.id}${page.name ? ` (${page.name})` : ''}${page.fromEnv ? ' [environment]' : ''}`);
+    const status = await checkPageToken(page, logger.child({ component: 'token-cli' }));
+    if (!status) {
+      console.log('   ❌ Could not inspect token (see log above)\n');
+      healthy = false;
+      continue;
+    }
+
+    const { problems } = assessToken(
+      { ...status, error: status.error ?? undefined },
+      status.checkedAt,
+      config.TOKEN_EXPIRY_WARN_DAYS
+    );
+    console.log(`   Valid:        ${status.valid ? 'yes' : 'no'}`);
+    console.log(`   Expires:      ${formatDate(status.expiresAt)}`);
+    console.log(`   Data access:  ${formatDate(status.dataAccessExpiresAt)}`);
+    console.log(`   Scopes:       ${status.scopes.join(', ') || '(none)'}`);
+    if (problems.length > 0) {
+      healthy = false;
+      for (const problem of problems) {
+        console.log(`   ⚠️ ${problem}`);
+      }
+    } else {
+      console.log('   ✅ Healthy');
+    }
+    console.log('');
+  }
+
+  return healthy;
+}
+
+async function exchange(pageId: string, userToken: string): Promise<boolean> {
+  const { exchangeForLongLivedPageToken, debugToken } = await import('../src/services/facebook.js');
+  const { prisma } = await import('../src/services/post-state.js');
+  const { config } = await import('../src/config.js');
+  const { setSecret, isSecretRef, secretRef, SECRET_REF_PREFIX } = await import('../src/services/secrets.js');
+
+  console.log(`🔄 Exchanging token for page ${pageId}...\n`);
+  const result = await exchangeForLongLivedPageToken(pageId, userToken);
+  if (!result.success) {
+    console.error('❌ Exchange failed:', result.error);
+    return false;
+  }
+  const accessToken = result.accessToken!;
+
+  const debug = await debugToken(accessToken);
+  if (debug.success) {
+    const info = debug.info!;
+    console.log(`   Valid:   ${info.valid ? 'yes' : 'no'}`);
+    console.log(`   Expires: ${formatDate(info.expiresAt)}`);
+    console.log(`   Scopes:  ${info.scopes.join(', ') || '(none)'}\n`);
+  }
+
+  const row = await prisma.page.findUnique({ where: { id: pageId } });
+  if (row) {
+    if (isSecretRef(row.accessToken)) {
+      await setSecret(row.accessToken.slice(SECRET_REF_PREFIX.length), accessToken);
+    } else if (config.SECRETS_MASTER_KEY) {
+      const name = `page/${pageId}/access-token`;
+      await setSecret(name, accessToken);
+      await prisma.page.update({ where: { id: pageId }, data: { accessToken: secretRef(name) } });
+    } else {
+      await prisma.page.update({ where: { id: pageId }, data: { accessToken } });
+    }
+    console.log(`💾 Saved new token for page ${pageId} (${row.name ?? 'unnamed'})`);
+    console.log('   The worker picks it up within a minute - no restart needed.');
+    return true;
+  }
+
+  if (pageId === config.META_PAGE_ID && isSecretRef(config.META_PAGE_ACCESS_TOKEN!)) {
+    await setSecret(config.META_PAGE_ACCESS_TOKEN!.slice(SECRET_REF_PREFIX.length), accessToken);
+    console.log(`💾 Saved new token to ${config.META_PAGE_ACCESS_TOKEN} - picked up within a minute, no restart needed.`);
+    return true;
+  }
+
+  if (pageId === config.META_PAGE_ID) {
+    console.log('✅ Long-lived token for the environment page. Update your environment and restart both services:\n');
+    console.log(`META_PAGE_ACCESS_TOKEN=${accessToken}`);
+    return true;
+  }
+
+  console.error(`❌ Page ${pageId} is not configured. Add it with \`npm run subscribe -- --page ${pageId} --token <token> --webhook <url>\`.`);
+  return false;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  const options = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--page' || args[i] === '--token') {
+      options.set(args[i], args[++i]);
+    }
+  }
+
+  let ok: boolean;
+  if (command === 'check') {
+    ok = await check(options.get('--page'));
+  } else if (command === 'exchange') {
+    const pageId = options.get('--page');
+    const token = options.get('--token');
+    if (!pageId || !token) {
+      console.error('Usage: npm run token -- exchange --page <id> --token <short-lived user token>');
+      process.exit(1);
+    }
+    ok = await exchange(pageId, token);
+  } else {
+    console.error('Usage: npm run token -- check [--page <id>]');
+    console.error('       npm run token -- exchange --page <id> --token <short-lived user token>');
+    process.exit(1);
+  }
+
+  const { prisma } = await import('../src/services/post-state.js');
+  await prisma.$disconnect();
+  process.exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+/**
+ * Fill the search columns (signals, tickers, tags) of stored posts from their message
+ *
+ * Usage:
+ *   npx tsx scripts/reindex.ts
+ *
+ * New posts are indexed when they are processed or edited. Run this once for posts
+ * stored before alert search existed, or after a change to the signal or hashtag parser.
+ *
+ * Uses the same environment as the worker (DATABASE_URL)
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+dotenvConfig();
+
+async function main() {
+  const { reindexPosts } = await import('../src/services/post-search.js');
+  const { prisma } = await import('../src/services/post-state.js');
+
+  console.log('🔎 Reindexing posts...');
+  const updated = await reindexPosts();
+  console.log(`✅ Reindexed ${updated} post(s)`);
+
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
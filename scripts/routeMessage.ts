@@ -0,0 +1,132 @@
+#!/usr/bin/env tsx
+/**
+ * Validate the routing rules file and show how a sample message would route
+ *
+ * Usage:
+ *   npx tsx scripts/routeMessage.ts "Buy AAPL at $150 #stockstowatch"
+ *   npx tsx scripts/routeMessage.ts --check            # validate ROUTING_CONFIG_PATH only
+ *   npx tsx scripts/routeMessage.ts --config ./routing.yaml "Some message #discord"
+ *   npx tsx scripts/routeMessage.ts --page <id> "Some message #alerts"   # a page's own tag and rules
+ *
+ * Uses the same environment as the worker (ROUTING_CONFIG_PATH, DISCORD_WEBHOOK_URL, TRIGGER_TAG)
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+import { redactWebhookUrl } from '../src/utils/redact.js';
+dotenvConfig();
+
+async function main() {
+  const args = process.argv.slice(2);
+  const words: string[] = [];
+  let checkOnly = false;
+  let pageId: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--config') {
+      process.env.ROUTING_CONFIG_PATH = args[++i];
+    } else if (args[i] === '--page') {
+      pageId = args[++i];
+    } else if (args[i] === '--check') {
+      checkOnly = true;
+    } else {
+      words.push(args[i]);
+    }
+  }
+
+  // Import after resolving --config so the app modules see the chosen file
+  const { config } = await import('../src/config.js');
+  const { getRoutingConfig, RoutingConfigError } = await import('../src/routing.js');
+  const { hasAnyTrackedTag } = await import('../src/utils/tag-parser.js');
+  const { resolveWebhooks, buildPayload } = await import('../src/services/discord.js');
+  const { applyContentFilters } = await import('../src/utils/content-filter.js');
+
+  let routing;
+  let triggerTag = config.TRIGGER_TAG;
+  try {
+    routing = getRoutingConfig();
+
+    if (pageId) {
+      const { getPage } = await import('../src/services/pages.js');
+      const { prisma } = await import('../src/services/post-state.js');
+      const page = await getPage(pageId);
+      await prisma.$disconnect();
+      if (!page) {
+        console.error(`❌ Unknown or disabled page ${pageId}`);
+        process.exit(1);
+      }
+      routing = page.routing;
+      triggerTag = page.triggerTag;
+    }
+  } catch (err) {
+    if (err instanceof RoutingConfigError) {
+      console.error(`❌ ${err.message}`);
+      for (const issue of err.issues) {
+        console.error(`  - ${issue}`);
+      }
+      process.exit(1);
+    }
+    throw err;
+  }
+
+  console.log(`✅ Routing config OK (${pageId ? `page ${pageId}` : config.ROUTING_CONFIG_PATH ?? 'no file — default route only'})`);
+  console.log(`   ${routing.routes.length} rule(s), checked in this order${routing.fanOut ? ' (fan-out: every match gets a copy)' : ''}:`);
+  for (const route of routing.routes) {
+    console.log(`   ${route.priority}\t${route.name}\t${route.tags.join(', ')}`);
+  }
+  if (routing.filters.length > 0) {
+    console.log(`   ${routing.filters.length} content filter(s): ${routing.filters.map((f) => `${f.name} (${f.type})`).join(', ')}`);
+  }
+  console.log('');
+
+  if (checkOnly) {
+    process.exit(0);
+  }
+
+  const message = words.join(' ');
+  if (!message) {
+    console.error('Usage: npm run route -- "<sample message>"');
+    process.exit(1);
+  }
+
+  console.log(`📝 Message: ${message}\n`);
+
+  if (!hasAnyTrackedTag(message, { triggerTag, routing })) {
+    console.log(`🚫 Would be ignored (no routed tag and no ${triggerTag})`);
+    process.exit(0);
+  }
+
+  const filtered = applyContentFilters(message, routing.filters);
+  if (filtered.blocked) {
+    const { rule, action, reason } = filtered.blocked;
+    console.log(`🛑 Would be ${action === 'hold' ? 'held for review' : 'ignored'} by filter "${rule}": ${reason}`);
+    process.exit(0);
+  }
+  for (const { rule, count } of filtered.redactions) {
+    console.log(`✂️  Filter "${rule}" redacts ${count} match(es)`);
+  }
+
+  const sample = { id: 'sample', message: filtered.message, created_time: new Date().toISOString() };
+  const routes = resolveWebhooks(sample, routing);
+
+  for (const route of routes) {
+    console.log('➡️  Would be sent to:');
+    console.log(`   Route:      ${route.name}${route.tags.length ? ` (${route.tags.join(', ')})` : ' (fallback)'}`);
+    console.log(`   Webhook:    ${redactWebhookUrl(route.webhookUrl)}`);
+    console.log(`   Title:      ${route.title}`);
+    console.log(`   Color:      #${route.color.toString(16).padStart(6, '0')}`);
+    console.log(`   Mention:    ${route.mentionRoleId ? `<@&${route.mentionRoleId}>` : '(none)'}`);
+    console.log(`   Disclaimer: ${route.disclaimer ?? '(none)'}`);
+    if (route.approval) {
+      console.log('   Approval:   required before sending');
+    }
+    console.log('');
+    console.log('📦 Payload:');
+    console.log(JSON.stringify(buildPayload(sample, route), null, 2));
+    console.log('');
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+#!/usr/bin/env tsx
+/**
+ * Manage encrypted credentials in the secrets table
+ *
+ * Usage:
+ *   npx tsx scripts/secrets.ts generate-key          # print a new SECRETS_MASTER_KEY
+ *   npx tsx scripts/secrets.ts list
+ *   npx tsx scripts/secrets.ts set <name> [value]    # value is read from stdin when omitted
+ *   npx tsx scripts/secrets.ts delete <name>
+ *   npx tsx scripts/secrets.ts migrate               # encrypt plain-text tokens/webhooks in the pages table
+ *
+ * Settings reference a secret as "secret:<name>", e.g. DISCORD_WEBHOOK_URL=secret:discord-default.
+ * Running services pick up a changed secret within a minute — no restart needed.
+ *
+ * Requires SECRETS_MASTER_KEY and DATABASE_URL (except generate-key)
+ */
+
+import { randomBytes } from 'crypto';
+import { config as dotenvConfig } from 'dotenv';
+dotenvConfig();
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    console.error('Enter the value, then press Ctrl-D:');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8').trim();
+}
+
+/**
+ * Move plain-text credentials from the pages table into secrets
+ */
+async function migratePages(): Promise<void> {
+  const { prisma } = await import('../src/services/post-state.js');
+  const { setSecret, isSecretRef, secretRef } = await import('../src/services/secrets.js');
+
+  const pages = await prisma.page.findMany({ orderBy: { createdAt: 'asc' } });
+  let migrated = 0;
+
+  for (const page of pages) {
+    const data: { accessToken?: string; discordWebhookUrl?: string } = {};
+
+    if (!isSecretRef(page.accessToken)) {
+      const name = `page/${page.id}/access-token`;
+      await setSecret(name, page.accessToken);
+      data.accessToken = secretRef(name);
+    }
+    if (!isSecretRef(page.discordWebhookUrl)) {
+      const name = `page/${page.id}/webhook`;
+      await setSecret(name, page.discordWebhookUrl);
+      data.discordWebhookUrl = secretRef(name);
+    }
+
+    if (Object.keys(data).length > 0) {
+      await prisma.page.update({ where: { id: page.id }, data });
+      console.log(`  - ${page.id}${page.name ? ` (${page.name})` : ''}: ${Object.keys(data).join(', ')}`);
+      migrated++;
+    }
+  }
+
+  console.log(`✅ Encrypted credentials for ${migrated} page(s)`);
+
+  const plainEnv = ['META_PAGE_ACCESS_TOKEN', 'DISCORD_WEBHOOK_URL', 'OPS_WEBHOOK_URL'].filter(
+    (key) => process.env[key] && !isSecretRef(process.env[key]!)
+  );
+  if (plainEnv.length > 0) {
+    console.log(`\n💡 ${plainEnv.join(', ')} still hold plain values. Store each with \`set\` and`);
+    console.log('   replace it with a "secret:<name>" reference, e.g. DISCORD_WEBHOOK_URL=secret:discord-default');
+  }
+}
+
+async function main() {
+  const [command, name, value] = process.argv.slice(2);
+
+  if (command === 'generate-key') {
+    console.log(randomBytes(32).toString('base64'));
+    process.exit(0);
+  }
+
+  const { prisma } = await import('../src/services/post-state.js');
+  const { setSecret, deleteSecret, listSecrets, secretRef } = await import('../src/services/secrets.js');
+  let ok = true;
+
+  switch (command) {
+    case 'list': {
+      const secrets = await listSecrets();
+      if (secrets.length === 0) {
+        console.log('   (no secrets stored)');
+      }
+      for (const secret of secrets) {
+        console.log(`   ${secret.name}\tupdated ${secret.updatedAt.toISOString()}`);
+      }
+      break;
+    }
+    case 'set': {
+      if (!name) {
+        console.error('Usage: npm run secrets -- set <name> [value]');
+        ok = false;
+        break;
+      }
+      const secret = value ?? await readStdin();
+      if (!secret) {
+        console.error('❌ Empty value');
+        ok = false;
+        break;
+      }
+      await setSecret(name, secret);
+      console.log(`🔐 Stored ${name} — reference it as ${secretRef(name)}`);
+      break;
+    }
+    case 'delete':
+      if (!name) {
+        console.error('Usage: npm run secrets -- delete <name>');
+        ok = false;
+      } else if (await deleteSecret(name)) {
+        console.log(`🗑️ Deleted ${name}`);
+      } else {
+        console.error(`❌ No secret named ${name}`);
+        ok = false;
+      }
+      break;
+    case 'migrate':
+      await migratePages();
+      break;
+    default:
+      console.error(`Unknown command: ${command}`);
+      console.error('Usage: npm run secrets -- [generate-key|list|set|delete|migrate]');
+      ok = false;
+  }
+
+  await prisma.$disconnect();
+  process.exit(ok ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
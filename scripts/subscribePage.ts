@@ -1,43 +1,99 @@
 #!/usr/bin/env tsx
 /**
  * Subscribe a Facebook Page to receive webhook events
- * 
+ *
  * Usage:
- *   npx tsx scripts/subscribePage.ts
+ *   npx tsx scripts/subscribePage.ts                      # page from META_PAGE_ID / META_PAGE_ACCESS_TOKEN
  *   npx tsx scripts/subscribePage.ts --verify
- * 
+ *   npx tsx scripts/subscribePage.ts --page <id>          # page from the pages table
+ *   npx tsx scripts/subscribePage.ts --page <id> --verify
+ *   npx tsx scripts/subscribePage.ts --list
+ *
+ * Add or update a page, then subscribe it:
+ *   npx tsx scripts/subscribePage.ts --page <id> --token <page token> --webhook <discord webhook url> \
+ *     [--name "My Page"] [--tag "#alerts"] [--routing ./routing-mypage.yaml]
+ *
+ * With SECRETS_MASTER_KEY set, --token and --webhook are stored encrypted in the secrets table
+ * and the page row keeps "secret:<name>" references.
+ *
  * Requires environment variables:
- *   - META_PAGE_ID
- *   - META_PAGE_ACCESS_TOKEN
  *   - META_APP_SECRET
  *   - META_GRAPH_VERSION
+ *   - DATABASE_URL (for --page / --list)
+ *   - META_PAGE_ID, META_PAGE_ACCESS_TOKEN (without --page)
  */
 
 import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { isHashtag } from '../src/utils/hashtags.js';
 
 // Load env manually since we're not using the full app
 import { config as dotenvConfig } from 'dotenv';
 dotenvConfig();
 
-const META_PAGE_ID = process.env.META_PAGE_ID!;
-const META_PAGE_ACCESS_TOKEN = process.env.META_PAGE_ACCESS_TOKEN!;
 const META_APP_SECRET = process.env.META_APP_SECRET!;
 const META_GRAPH_VERSION = process.env.META_GRAPH_VERSION || 'v21.0';
 
+interface PageTarget {
+  id: string;
+  accessToken: string;
+}
+
 function generateAppSecretProof(accessToken: string): string {
   const hmac = createHmac('sha256', META_APP_SECRET);
   hmac.update(accessToken);
   return hmac.digest('hex');
 }
 
-async function verifySubscription(): Promise<boolean> {
+/**
+ * Read `--flag value` style options
+ */
+function parseArgs(args: string[]): { flags: Set<string>; options: Map<string, string> } {
+  const flags = new Set<string>();
+  const options = new Map<string, string>();
+  const valued = ['--page', '--token', '--webhook', '--name', '--tag', '--routing'];
+
+  for (let i = 0; i < args.length; i++) {
+    if (valued.includes(args[i])) {
+      const value = args[++i];
+      if (!value) {
+        console.error(`❌ ${args[i - 1]} needs a value`);
+        process.exit(1);
+      }
+      options.set(args[i - 1], value);
+    } else {
+      flags.add(args[i]);
+    }
+  }
+
+  return { flags, options };
+}
+
+async function fetchPageName(page: PageTarget): Promise<string | null> {
+  const url = new URL(`https://graph.facebook.com/${META_GRAPH_VERSION}/${page.id}`);
+  url.searchParams.set('fields', 'id,name');
+  url.searchParams.set('access_token', page.accessToken);
+  url.searchParams.set('appsecret_proof', generateAppSecretProof(page.accessToken));
+
+  const response = await fetch(url.toString());
+  const data = await response.json() as { name?: string; error?: { message?: string } };
+
+  if (!response.ok) {
+    console.error('❌ Token cannot read this page:', data.error?.message || data);
+    return null;
+  }
+
+  return data.name ?? page.id;
+}
+
+async function verifySubscription(page: PageTarget): Promise<boolean> {
   console.log('📋 Checking current subscriptions...\n');
 
   const url = new URL(
-    `https://graph.facebook.com/${META_GRAPH_VERSION}/${META_PAGE_ID}/subscribed_apps`
+    `https://graph.facebook.com/${META_GRAPH_VERSION}/${page.id}/subscribed_apps`
   );
-  url.searchParams.set('access_token', META_PAGE_ACCESS_TOKEN);
-  url.searchParams.set('appsecret_proof', generateAppSecretProof(META_PAGE_ACCESS_TOKEN));
+  url.searchParams.set('access_token', page.accessToken);
+  url.searchParams.set('appsecret_proof', generateAppSecretProof(page.accessToken));
 
   const response = await fetch(url.toString());
   const data = await response.json();
@@ -63,16 +119,16 @@ async function verifySubscription(): Promise<boolean> {
   return true;
 }
 
-async function subscribe(): Promise<boolean> {
+async function subscribe(page: PageTarget): Promise<boolean> {
   console.log('📡 Subscribing app to page feed events...\n');
 
   const url = new URL(
-    `https://graph.facebook.com/${META_GRAPH_VERSION}/${META_PAGE_ID}/subscribed_apps`
+    `https://graph.facebook.com/${META_GRAPH_VERSION}/${page.id}/subscribed_apps`
   );
 
   const params = new URLSearchParams();
-  params.set('access_token', META_PAGE_ACCESS_TOKEN);
-  params.set('appsecret_proof', generateAppSecretProof(META_PAGE_ACCESS_TOKEN));
+  params.set('access_token', page.accessToken);
+  params.set('appsecret_proof', generateAppSecretProof(page.accessToken));
   params.set('subscribed_fields', 'feed');
 
   const response = await fetch(url.toString(), {
@@ -87,14 +143,14 @@ async function subscribe(): Promise<boolean> {
 
   if (!response.ok) {
     console.error('❌ Subscription failed:', data.error?.message || data);
-    
+
     // Common errors
     if (data.error?.code === 190) {
       console.error('\n💡 Token may be expired. Generate a new Page Access Token.');
     } else if (data.error?.code === 200) {
       console.error('\n💡 Missing permissions. Ensure the app has pages_manage_metadata permission.');
     }
-    
+
     return false;
   }
 
@@ -107,36 +163,193 @@ async function subscribe(): Promise<boolean> {
   return false;
 }
 
+/**
+ * Print every page the relay knows about
+ */
+async function listPages(): Promise<void> {
+  const { prisma } = await import('../src/services/post-state.js');
+  const pages = await prisma.page.findMany({ orderBy: { createdAt: 'asc' } });
+
+  if (process.env.META_PAGE_ID) {
+    console.log(`   ${process.env.META_PAGE_ID}\t(environment)`);
+  }
+  for (const page of pages) {
+    const status = page.enabled ? '' : ' [disabled]';
+    console.log(`   ${page.id}\t${page.name ?? ''}${status}\ttag ${page.triggerTag ?? '(default)'}\t${page.routing ? 'own routing' : 'shared routing'}`);
+  }
+  if (!process.env.META_PAGE_ID && pages.length === 0) {
+    console.log('   (no pages configured)');
+  }
+
+  await prisma.$disconnect();
+}
+
+/**
+ * Create or update a page row from the command line options
+ * The token is checked against the Graph API before anything is saved
+ */
+async function savePage(pageId: string, options: Map<string, string>): Promise<PageTarget> {
+  const { prisma } = await import('../src/services/post-state.js');
+  const { validateRoutingRules, RoutingConfigError } = await import('../src/routing.js');
+  const { resolveSecret, setSecret, isSecretRef, secretRef } = await import('../src/services/secrets.js');
+  const { parse: parseYaml } = await import('yaml');
+
+  const existing = await prisma.page.findUnique({ where: { id: pageId } });
+  const accessToken = options.get('--token') ?? existing?.accessToken;
+  const webhookUrl = options.get('--webhook') ?? existing?.discordWebhookUrl;
+
+  if (!accessToken || !webhookUrl) {
+    console.error('❌ New pages need --token and --webhook');
+    process.exit(1);
+  }
+  if (!/^https:\/\/\S+$/.test(webhookUrl) && !isSecretRef(webhookUrl)) {
+    console.error('❌ --webhook must be a Discord webhook URL');
+    process.exit(1);
+  }
+
+  const tag = options.get('--tag');
+  if (tag && !isHashtag(tag)) {
+    console.error('❌ --tag must be a hashtag like "#alerts"');
+    process.exit(1);
+  }
+
+  let routing: unknown;
+  const routingPath = options.get('--routing');
+  if (routingPath) {
+    try {
+      routing = parseYaml(readFileSync(routingPath, 'utf8')) ?? {};
+      validateRoutingRules(routing, routingPath, webhookUrl);
+    } catch (err) {
+      if (err instanceof RoutingConfigError) {
+        console.error(`❌ ${err.message}`);
+        for (const issue of err.issues) {
+          console.error(`  - ${issue}`);
+        }
+      } else {
+        console.error(`❌ Cannot read ${routingPath}:`, err instanceof Error ? err.message : err);
+      }
+      process.exit(1);
+    }
+  }
+
+  const plainToken = await resolveSecret(accessToken);
+  const name = options.get('--name') ?? await fetchPageName({ id: pageId, accessToken: plainToken });
+  if (name === null) {
+    process.exit(1);
+  }
+
+  // Keep credentials out of the pages table when a master key is configured
+  const store = async (value: string, secretName: string): Promise<string> => {
+    if (!process.env.SECRETS_MASTER_KEY || isSecretRef(value)) {
+      return value;
+    }
+    await setSecret(secretName, value);
+    return secretRef(secretName);
+  };
+
+  const data = {
+    name,
+    accessToken: await store(accessToken, `page/${pageId}/access-token`),
+    discordWebhookUrl: await store(webhookUrl, `page/${pageId}/webhook`),
+    ...(tag !== undefined && { triggerTag: tag }),
+    ...(routing !== undefined && { routing: routing as object }),
+  };
+  await prisma.page.upsert({
+    where: { id: pageId },
+    create: { id: pageId, ...data },
+    update: data,
+  });
+  await prisma.$disconnect();
+
+  console.log(`💾 ${existing ? 'Updated' : 'Added'} page ${pageId} (${name})\n`);
+  return { id: pageId, accessToken: plainToken };
+}
+
+/**
+ * Decrypt a "secret:<name>" token; plain tokens are used as is
+ * (app modules are only loaded when needed, so the environment page works without a database)
+ */
+async function resolveToken(value: string): Promise<string> {
+  if (!value.startsWith('secret:')) {
+    return value;
+  }
+  const { resolveSecret } = await import('../src/services/secrets.js');
+  return resolveSecret(value);
+}
+
+/**
+ * Resolve the page to act on: a pages table row, or the environment page
+ */
+async function loadPage(pageId: string | undefined): Promise<PageTarget> {
+  if (!pageId || pageId === process.env.META_PAGE_ID) {
+    const id = process.env.META_PAGE_ID;
+    const accessToken = process.env.META_PAGE_ACCESS_TOKEN;
+    if (!id || !accessToken) {
+      console.error('❌ Missing required environment variables.');
+      console.error('   Required: META_PAGE_ID, META_PAGE_ACCESS_TOKEN (or pass --page <id>)');
+      process.exit(1);
+    }
+    return { id, accessToken: await resolveToken(accessToken) };
+  }
+
+  const { prisma } = await import('../src/services/post-state.js');
+  const page = await prisma.page.findUnique({ where: { id: pageId } });
+
+  if (!page) {
+    console.error(`❌ Page ${pageId} is not in the pages table. Add it with --token and --webhook.`);
+    process.exit(1);
+  }
+  const accessToken = await resolveToken(page.accessToken);
+  await prisma.$disconnect();
+  return { id: page.id, accessToken };
+}
+
 async function main() {
   // Validate config
-  if (!META_PAGE_ID || !META_PAGE_ACCESS_TOKEN || !META_APP_SECRET) {
+  if (!META_APP_SECRET) {
     console.error('❌ Missing required environment variables.');
-    console.error('   Required: META_PAGE_ID, META_PAGE_ACCESS_TOKEN, META_APP_SECRET');
+    console.error('   Required: META_APP_SECRET');
     process.exit(1);
   }
 
+  const { flags, options } = parseArgs(process.argv.slice(2));
+
+  if (flags.has('--list')) {
+    console.log('📄 Pages:');
+    await listPages();
+    process.exit(0);
+  }
+
+  const pageId = options.get('--page');
+  const registering = ['--token', '--webhook', '--name', '--tag', '--routing'].some((key) => options.has(key));
+  if (registering && !pageId) {
+    console.error('❌ --page <id> is required when adding or updating a page');
+    process.exit(1);
+  }
+
+  const page = registering ? await savePage(pageId!, options) : await loadPage(pageId);
+
   console.log('🔧 Configuration:');
-  console.log(`   Page ID: ${META_PAGE_ID}`);
+  console.log(`   Page ID: ${page.id}`);
   console.log(`   Graph Version: ${META_GRAPH_VERSION}`);
-  console.log(`   Token: ${META_PAGE_ACCESS_TOKEN.slice(0, 10)}...`);
+  console.log(`   Token: ${page.accessToken.slice(0, 10)}...`);
   console.log('');
 
-  const args = process.argv.slice(2);
-  const verifyOnly = args.includes('--verify') || args.includes('-v');
+  const verifyOnly = flags.has('--verify') || flags.has('-v');
 
   if (verifyOnly) {
-    const ok = await verifySubscription();
+    const ok = await verifySubscription(page);
     process.exit(ok ? 0 : 1);
   }
 
   // Subscribe, then verify
-  const subscribed = await subscribe();
+  const subscribed = await subscribe(page);
   if (!subscribed) {
     process.exit(1);
   }
 
   console.log('');
-  await verifySubscription();
+  await verifySubscription(page);
 }
 
 main().catch((err) => {
@@ -1,5 +1,6 @@
 import { config as dotenvConfig } from 'dotenv';
 import { z } from 'zod';
+import { isHashtag } from './utils/hashtags.js';
 
 // Load .env file
 dotenvConfig();
@@ -7,14 +8,19 @@ dotenvConfig();
 const envSchema = z.object({
   // Server
   PORT: z.coerce.number().default(3000),
+  // Worker /metrics port (the ingress serves /metrics on PORT)
+  WORKER_METRICS_PORT: z.coerce.number().default(9091),
   PUBLIC_BASE_URL: z.string().url().optional(),
 
   // Meta / Facebook
   META_VERIFY_TOKEN: z.string().min(1),
   META_APP_SECRET: z.string().min(1),
   META_GRAPH_VERSION: z.string().default('v24.0'),
-  META_PAGE_ID: z.string().min(1),
-  META_PAGE_ACCESS_TOKEN: z.string().min(1),
+  // App ID - needed for token inspection (debug_token) and long-lived token exchange
+  META_APP_ID: z.string().min(1).optional(),
+  // Optional single page configured from the environment; more pages live in the pages table
+  META_PAGE_ID: z.string().min(1).optional(),
+  META_PAGE_ACCESS_TOKEN: z.string().min(1).optional(),
 
   // Discord - Default webhook (for #nofomo / fallback)
   DISCORD_WEBHOOK_URL: z.string().url(),
@@ -25,35 +31,137 @@ const envSchema = z.object({
   DISCORD_DISCLAIMER: z.string().default('Not financial advice. Do your own research.'),
   DISCORD_MENTION_ROLE_ID: z.string().optional(),
 
+  // What to do with a delivered alert when the Facebook post is removed:
+  // delete the Discord message, or replace it with DISCORD_RETRACTED_NOTICE
+  DISCORD_RETRACT_MODE: z.enum(['delete', 'notice']).default('delete'),
+  DISCORD_RETRACTED_NOTICE: z.string().default('⚠️ This alert was retracted by the author.'),
+
+  // Resolving timed-out sends: a bot that can read the alert channels looks for the
+  // message after DISCORD_RESOLVE_DELAY_SECONDS (unset = every timeout needs manual review)
+  DISCORD_BOT_TOKEN: z.string().min(1).optional(),
+  DISCORD_RESOLVE_DELAY_SECONDS: z.coerce.number().int().min(5).default(60),
+
+  // Approval mode: posts for routes with `approval: true` wait for sign-off. The preview goes to
+  // APPROVAL_WEBHOOK_URL with approve/reject links (PUBLIC_BASE_URL) signed with APPROVAL_SIGNING_KEY;
+  // posts nobody decides on within APPROVAL_TIMEOUT_MINUTES are ignored
+  APPROVAL_WEBHOOK_URL: z.string().url().optional(),
+  APPROVAL_SIGNING_KEY: z.string().min(32).optional(),
+  APPROVAL_TIMEOUT_MINUTES: z.coerce.number().int().min(1).default(60),
+
   // Application
   ALERTS_ENABLED: z
     .string()
     .transform((v) => v === 'true')
     .default('true'),
-  TRIGGER_TAG: z.string().default('#discord'),
+  TRIGGER_TAG: z.string().refine(isHashtag, 'must be a hashtag like "#discord"').default('#discord'),
   
   // Post age filter - ignore posts older than this many minutes (0 = disabled)
   MAX_POST_AGE_MINUTES: z.coerce.number().default(30),
 
-  // Channel routing - JSON string mapping hashtags to webhook URLs
-  // Format: {#stockmarketnews: https://..., #stockstowatch: https://...}
-  // Priority is determined by CHANNEL_PRIORITY order
-  CHANNEL_ROUTES: z.string().optional(),
-  
-  // Priority order for channel routing (comma-separated, case-insensitive)
-  // First match wins. Posts without any match use default DISCORD_WEBHOOK_URL
-  CHANNEL_PRIORITY: z.string().default('#stockmarketnews,#stockstowatch'),
+  // Routing rules file (YAML or JSON) - maps hashtags to webhooks, titles, colors, mentions
+  // See routing.example.yaml. Without it every tracked post goes to DISCORD_WEBHOOK_URL
+  ROUTING_CONFIG_PATH: z.string().optional(),
+
+  // Page token health - checked on a schedule with debug_token (needs META_APP_ID)
+  TOKEN_CHECK_CRON: z.string().default('0 */6 * * *'),
+  TOKEN_EXPIRY_WARN_DAYS: z.coerce.number().int().min(1).default(7),
+
+  // Reconciliation - every N minutes, compare each page's recent feed with the posts table and
+  // enqueue tracked posts whose webhook never arrived (0 = disabled, max 59)
+  RECONCILE_INTERVAL_MINUTES: z.coerce.number().int().min(0).max(59).default(0),
+  RECONCILE_LOOKBACK_MINUTES: z.coerce.number().int().min(1).default(30),
+
+  // Stuck-post sweeper - posts left in received/fetching/eligible/sending this long are
+  // re-enqueued, or moved to needs_review when a Discord send may already have happened
+  STUCK_POST_SWEEP_CRON: z.string().default('*/5 * * * *'),
+  STUCK_POST_TIMEOUT_MINUTES: z.coerce.number().int().min(1).default(15),
+
+  // Jobs a worker runs side by side, per queue, as "queue:n" pairs (unlisted queues run 5).
+  // Posts that only go to bulk routes (e.g. news) use process-post-bulk, so they never hold up trade alerts
+  QUEUE_CONCURRENCY: z
+    .string()
+    .regex(
+      /^(?:(?:process-post|process-post-bulk|edit-post|retract-post|resolve-delivery|expire-approval):[1-9]\d*(?:,|$))+$/,
+      'must be comma-separated queue:n pairs (process-post, process-post-bulk, edit-post, retract-post, resolve-delivery, expire-approval)'
+    )
+    .default('process-post:5,process-post-bulk:2')
+    .transform((value) =>
+      Object.fromEntries(
+        value.split(',').filter(Boolean).map((pair) => {
+          const [queue, concurrency] = pair.split(':');
+          return [queue, Number(concurrency)];
+        })
+      ) as Partial<Record<string, number>>
+    ),
+
+  // Retention - on RETENTION_CRON (unset = disabled) old rows are written to gzipped NDJSON
+  // files in ARCHIVE_DIR and then deleted. Days per table, 0 = keep forever
+  RETENTION_CRON: z.string().optional(),
+  // Posts (with their events, deliveries and logs) as "status:days" pairs, by received time.
+  // Statuses not listed are kept; posts still in flight are never removed
+  RETENTION_POST_DAYS: z
+    .string()
+    .regex(
+      /^(?:(?:delivered|ignored|retracted|failed|needs_review):\d+(?:,|$))+$/,
+      'must be comma-separated status:days pairs (delivered, ignored, retracted, failed, needs_review)'
+    )
+    .default('delivered:90,ignored:14,retracted:90,failed:180,needs_review:180')
+    .transform((value) =>
+      Object.fromEntries(
+        value.split(',').filter(Boolean).map((pair) => {
+          const [status, days] = pair.split(':');
+          return [status, Number(days)];
+        })
+      ) as Partial<Record<'delivered' | 'ignored' | 'retracted' | 'failed' | 'needs_review', number>>
+    ),
+  // Events and delivery logs of posts that are kept
+  RETENTION_POST_EVENTS_DAYS: z.coerce.number().int().min(0).default(90),
+  RETENTION_DELIVERY_LOGS_DAYS: z.coerce.number().int().min(0).default(30),
+  ARCHIVE_DIR: z.string().default('./archive'),
+
+  // Ops notices (failed posts, exhausted retries, error spikes, token problems):
+  // a Discord webhook and/or a generic HTTP sink that receives JSON
+  OPS_WEBHOOK_URL: z.string().url().optional(),
+  OPS_ALERT_SINK_URL: z.string().url().optional(),
+  // The same notice is sent at most once per window; at most this many notices per hour overall
+  OPS_ALERT_DEDUP_MINUTES: z.coerce.number().int().min(1).default(60),
+  OPS_ALERT_MAX_PER_HOUR: z.coerce.number().int().min(1).default(20),
+  // Spike detection: this many failures within OPS_BURST_WINDOW_MINUTES raise a notice
+  OPS_BURST_WINDOW_MINUTES: z.coerce.number().int().min(1).default(10),
+  OPS_SIGNATURE_FAILURE_THRESHOLD: z.coerce.number().int().min(1).default(10),
+  OPS_GRAPH_ERROR_THRESHOLD: z.coerce.number().int().min(1).default(5),
+
+  // Master key for the encrypted secrets table - 32 bytes as hex or base64
+  // Any token or webhook URL setting may then be a "secret:<name>" reference
+  SECRETS_MASTER_KEY: z
+    .string()
+    .regex(/^(?:[A-Fa-f0-9]{64}|[A-Za-z0-9+/]{43}=)$/, 'must be 32 bytes encoded as hex or base64')
+    .optional(),
+
+  // Admin API - bearer token for /admin routes (routes are disabled when unset)
+  ADMIN_API_TOKEN: z.string().min(16).optional(),
 
   // Database
   DATABASE_URL: z.string().min(1),
 
   // Logging
   LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
+}).refine((env) => !!env.META_PAGE_ID === !!env.META_PAGE_ACCESS_TOKEN, {
+  message: 'META_PAGE_ID and META_PAGE_ACCESS_TOKEN must be set together',
+  path: ['META_PAGE_ACCESS_TOKEN'],
 });
 
 function loadConfig() {
   const result = envSchema.safeParse(process.env);
 
+  // Removed in favour of ROUTING_CONFIG_PATH — refuse to run rather than silently drop routes
+  const legacy = ['CHANNEL_ROUTES', 'CHANNEL_PRIORITY'].filter((key) => process.env[key]);
+  if (legacy.length > 0) {
+    console.error(`❌ ${legacy.join(', ')} is no longer supported.`);
+    console.error('  Move your channel routes into a routing file and set ROUTING_CONFIG_PATH (see routing.example.yaml).');
+    process.exit(1);
+  }
+
   if (!result.success) {
     console.error('❌ Invalid environment configuration:');
     for (const issue of result.error.issues) {
@@ -67,33 +175,4 @@ function loadConfig() {
 
 export const config = loadConfig();
 
-// Parse channel routes into a Map for easy lookup
-export function getChannelRoutes(): Map<string, string> {
-  const routes = new Map<string, string>();
-  
-  if (!config.CHANNEL_ROUTES) {
-    return routes;
-  }
-  
-  try {
-    const parsed = JSON.parse(config.CHANNEL_ROUTES) as Record<string, string>;
-    for (const [tag, url] of Object.entries(parsed)) {
-      // Normalize to lowercase for case-insensitive matching
-      routes.set(tag.toLowerCase(), url);
-    }
-  } catch (err) {
-    console.error('Failed to parse CHANNEL_ROUTES:', err);
-  }
-  
-  return routes;
-}
-
-// Get priority order as lowercase array
-export function getChannelPriority(): string[] {
-  return config.CHANNEL_PRIORITY
-    .split(',')
-    .map(tag => tag.trim().toLowerCase())
-    .filter(tag => tag.length > 0);
-}
-
 export type Config = typeof config;
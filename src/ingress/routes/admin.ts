@@ -0,0 +1,465 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { config } from '../../config.js';
+import { logger } from '../../logger.js';
+import {
+  transitionPost,
+  releasePausedPosts,
+  resetDeliveries,
+  PostStatus,
+  DeliveryStatus,
+  prisma,
+  type Post,
+} from '../../services/post-state.js';
+import { getAlertsState, setAlertsEnabled } from '../../services/settings.js';
+import { boss } from '../server.js';
+import { enqueueProcessPost } from '../../queues.js';
+import { searchPosts, exportPosts, postsToCsv, type PostSearchFilters } from '../../services/post-search.js';
+
+const log = logger.child({ component: 'admin' });
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+// Rows in one export; narrow the filters (e.g. the date range) for more
+const MAX_EXPORT_ROWS = 10000;
+
+// Destinations a manual confirmation resolves
+const UNRESOLVED_DELIVERY_STATUSES: DeliveryStatus[] = [
+  DeliveryStatus.pending,
+  DeliveryStatus.failed,
+  DeliveryStatus.needs_review,
+];
+
+// Posts an operator may retry; anything else is either settled or still in the worker's hands
+const RETRYABLE_STATUSES: PostStatus[] = [PostStatus.failed, PostStatus.needs_review];
+
+interface ListPostsQuery {
+  status?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+interface SearchPostsQuery {
+  ticker?: string;
+  tag?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+  limit?: string;
+  cursor?: string;
+  format?: string;
+}
+
+interface PostParams {
+  fbPostId: string;
+}
+
+interface MarkDeliveredBody {
+  discordMsgId?: string;
+  destination?: string;
+  note?: string;
+}
+
+interface ActionBody {
+  note?: string;
+}
+
+interface AlertsBody {
+  enabled?: unknown;
+}
+
+type ActionResult =
+  | { ok: true; post: Post }
+  | { ok: false; statusCode: number; body: Record<string, unknown> };
+
+/**
+ * Compare a presented bearer token with the configured one in constant time
+ * Both sides are hashed first so differing lengths don't leak through timing
+ */
+function isValidToken(presented: string | undefined): boolean {
+  if (!presented || !config.ADMIN_API_TOKEN) {
+    return false;
+  }
+  const a = createHash('sha256').update(presented).digest();
+  const b = createHash('sha256').update(config.ADMIN_API_TOKEN).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Parse a comma-separated status filter, returning null if any value is unknown
+ */
+function parseStatusFilter(raw: string | undefined): PostStatus[] | null {
+  if (!raw) return [];
+  const statuses = raw.split(',').map((s) => s.trim()).filter((s) => s.length > 0);
+  const known = Object.values(PostStatus) as string[];
+  if (statuses.some((s) => !known.includes(s))) {
+    return null;
+  }
+  return statuses as PostStatus[];
+}
+
+/**
+ * Parse a comma-separated list (tickers, tags), dropping empty entries
+ */
+function parseList(raw: string | undefined): string[] {
+  return (raw ?? '').split(',').map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
+/**
+ * Parse the alert history filters, returning an error message for the first invalid one
+ * Dates are ISO 8601; a bare date is midnight UTC, and `to` is exclusive
+ */
+function parseSearchFilters(query: SearchPostsQuery): PostSearchFilters | string {
+  const statuses = parseStatusFilter(query.status);
+  if (statuses === null) {
+    return 'Unknown status';
+  }
+
+  const dates: { from?: Date; to?: Date } = {};
+  for (const key of ['from', 'to'] as const) {
+    const raw = query[key];
+    if (!raw) continue;
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) {
+      return `Invalid ${key} date (use ISO 8601, e.g. 2025-03-01)`;
+    }
+    dates[key] = date;
+  }
+
+  return { tickers: parseList(query.ticker), tags: parseList(query.tag), statuses, ...dates };
+}
+
+export async function adminRoutes(app: FastifyInstance) {
+  // All admin routes require "Authorization: Bearer <ADMIN_API_TOKEN>"
+  app.addHook('onRequest', async (request, reply) => {
+    const header = request.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+
+    if (!isValidToken(token)) {
+      log.warn({ url: request.url, hasToken: !!token }, 'Rejected admin request');
+      return reply.status(401).send({ error: 'Unauthorized' });
+    }
+  });
+
+  /**
+   * Apply a manual state change through the state machine, tagged as an admin action
+   * Fails with 409 if the transition is not allowed from the post's current status
+   */
+  async function applyAction(
+    fbPostId: string,
+    toStatus: PostStatus,
+    updates: Parameters<typeof transitionPost>[2] = {},
+    details: Record<string, unknown> = {}
+  ): Promise<ActionResult> {
+    const post = await prisma.post.findUnique({ where: { fbPostId } });
+    if (!post) {
+      return { ok: false, statusCode: 404, body: { error: 'Post not found' } };
+    }
+
+    const updated = await transitionPost(fbPostId, toStatus, updates, { source: 'admin', ...details });
+    if (!updated) {
+      return {
+        ok: false,
+        statusCode: 409,
+        body: { error: `Cannot transition from ${post.status} to ${toStatus}`, status: post.status },
+      };
+    }
+
+    log.info({ fbPostId, fromStatus: post.status, toStatus }, 'Admin action applied');
+    return { ok: true, post: updated };
+  }
+
+  /**
+   * GET /admin/posts - List posts, optionally filtered by status
+   * Query: status=failed,needs_review&limit=50&cursor=<post id>
+   */
+  app.get('/posts', async (
+    request: FastifyRequest<{ Querystring: ListPostsQuery }>,
+    reply: FastifyReply
+  ) => {
+    const statuses = parseStatusFilter(request.query.status);
+    if (statuses === null) {
+      return reply.status(400).send({ error: 'Unknown status', validStatuses: Object.values(PostStatus) });
+    }
+
+    const limit = Math.min(Math.max(parseInt(request.query.limit ?? '', 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const posts = await prisma.post.findMany({
+      where: statuses.length > 0 ? { status: { in: statuses } } : undefined,
+      orderBy: [{ receivedAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(request.query.cursor ? { cursor: { id: request.query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = posts.length > limit;
+    const page = hasMore ? posts.slice(0, limit) : posts;
+
+    return {
+      posts: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    };
+  });
+
+  /**
+   * GET /admin/search - Relayed alert history, newest first
+   * Query: ticker=TSLA,AAPL&tag=#stockstowatch&status=delivered&from=2025-03-01&to=2025-04-01&limit=50&cursor=<post id>
+   * Tickers and tags match any of the listed values; the other filters must all match
+   */
+  app.get('/search', async (
+    request: FastifyRequest<{ Querystring: SearchPostsQuery }>,
+    reply: FastifyReply
+  ) => {
+    const filters = parseSearchFilters(request.query);
+    if (typeof filters === 'string') {
+      return reply.status(400).send({ error: filters, validStatuses: Object.values(PostStatus) });
+    }
+
+    const limit = Math.min(Math.max(parseInt(request.query.limit ?? '', 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    return searchPosts(filters, limit, request.query.cursor);
+  });
+
+  /**
+   * GET /admin/search/export - Every match of the same filters as a download
+   * Query: the /admin/search filters plus format=csv|json (default csv), at most MAX_EXPORT_ROWS rows
+   */
+  app.get('/search/export', async (
+    request: FastifyRequest<{ Querystring: SearchPostsQuery }>,
+    reply: FastifyReply
+  ) => {
+    const filters = parseSearchFilters(request.query);
+    if (typeof filters === 'string') {
+      return reply.status(400).send({ error: filters, validStatuses: Object.values(PostStatus) });
+    }
+    const format = request.query.format ?? 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return reply.status(400).send({ error: 'format must be csv or json' });
+    }
+
+    const { posts, truncated } = await exportPosts(filters, MAX_EXPORT_ROWS);
+    log.info({ filters, format, count: posts.length, truncated }, 'Exported alert history');
+
+    const filename = `alerts-${new Date().toISOString().slice(0, 10)}.${format}`;
+    reply
+      .header('Content-Disposition', `attachment; filename="${filename}"`)
+      .header('X-Export-Truncated', String(truncated));
+    if (format === 'json') {
+      return { posts, truncated };
+    }
+    return reply.type('text/csv; charset=utf-8').send(postsToCsv(posts));
+  });
+
+  /**
+   * GET /admin/posts/:fbPostId - Post detail with event timeline and delivery attempts
+   * `post.deliveries` holds per-destination state; `deliveries` is the raw attempt log
+   */
+  app.get('/posts/:fbPostId', async (
+    request: FastifyRequest<{ Params: PostParams }>,
+    reply: FastifyReply
+  ) => {
+    const { fbPostId } = request.params;
+
+    const post = await prisma.post.findUnique({
+      where: { fbPostId },
+      include: {
+        events: { orderBy: { createdAt: 'asc' } },
+        deliveries: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!post) {
+      return reply.status(404).send({ error: 'Post not found' });
+    }
+
+    const deliveries = await prisma.deliveryLog.findMany({
+      where: { fbPostId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { post, deliveries };
+  });
+
+  /**
+   * POST /admin/posts/:fbPostId/retry - Reset a failed/needs_review post and re-enqueue it
+   * Only destinations that did not succeed are resent, however old the post is
+   */
+  app.post('/posts/:fbPostId/retry', async (
+    request: FastifyRequest<{ Params: PostParams; Body: ActionBody | undefined }>,
+    reply: FastifyReply
+  ) => {
+    const { fbPostId } = request.params;
+    const post = await prisma.post.findUnique({ where: { fbPostId } });
+    if (post && !RETRYABLE_STATUSES.includes(post.status)) {
+      return reply.status(409).send({ error: `Only failed or needs_review posts can be retried (post is ${post.status})`, status: post.status });
+    }
+
+    const result = await applyAction(fbPostId, PostStatus.received, {}, {
+      action: 'retry',
+      note: request.body?.note,
+    });
+    if (!result.ok) {
+      return reply.status(result.statusCode).send(result.body);
+    }
+
+    await resetDeliveries(result.post.id);
+
+    const correlationId = randomUUID();
+    const jobId = await enqueueProcessPost(boss, { fbPostId, correlationId, ignoreMaxAge: true });
+    log.info({ fbPostId, correlationId, jobId }, 'Re-enqueued post for processing');
+
+    return { post: result.post, jobId, correlationId };
+  });
+
+  /**
+   * POST /admin/posts/:fbPostId/release - Send a post a content filter held
+   * The hold/ignore filters and the age limit are skipped this time; redactions still apply
+   */
+  app.post('/posts/:fbPostId/release', async (
+    request: FastifyRequest<{ Params: PostParams; Body: ActionBody | undefined }>,
+    reply: FastifyReply
+  ) => {
+    const { fbPostId } = request.params;
+    const post = await prisma.post.findUnique({ where: { fbPostId } });
+    if (post && post.status !== PostStatus.held) {
+      return reply.status(409).send({ error: `Only held posts can be released (post is ${post.status})`, status: post.status });
+    }
+
+    const result = await applyAction(fbPostId, PostStatus.received, {}, {
+      action: 'release',
+      note: request.body?.note,
+    });
+    if (!result.ok) {
+      return reply.status(result.statusCode).send(result.body);
+    }
+
+    const correlationId = randomUUID();
+    const jobId = await enqueueProcessPost(boss, { fbPostId, correlationId, skipFilters: true, ignoreMaxAge: true });
+    log.info({ fbPostId, correlationId, jobId }, 'Released held post');
+
+    return { post: result.post, jobId, correlationId };
+  });
+
+  /**
+   * POST /admin/posts/:fbPostId/mark-delivered - Confirm a needs_review post reached Discord
+   * Every unresolved destination is confirmed. discordMsgId is stored on the one named by
+   * `destination`, which may be omitted when only one destination was unresolved
+   */
+  app.post('/posts/:fbPostId/mark-delivered', async (
+    request: FastifyRequest<{ Params: PostParams; Body: MarkDeliveredBody | undefined }>,
+    reply: FastifyReply
+  ) => {
+    const { fbPostId } = request.params;
+    const { discordMsgId, note } = request.body ?? {};
+
+    const post = await prisma.post.findUnique({
+      where: { fbPostId },
+      include: { deliveries: { where: { status: { in: UNRESOLVED_DELIVERY_STATUSES } } } },
+    });
+    if (!post) {
+      return reply.status(404).send({ error: 'Post not found' });
+    }
+    // A post in sending may be mid-request in the worker
+    if (post.status !== PostStatus.needs_review) {
+      return reply.status(409).send({
+        error: `Only needs_review posts can be marked delivered (post is ${post.status})`,
+        status: post.status,
+      });
+    }
+    const unresolved = post.deliveries;
+
+    const target = request.body?.destination
+      ? unresolved.find((d) => d.destination === request.body?.destination)
+      : unresolved.length === 1 ? unresolved[0] : undefined;
+    if (discordMsgId && !target) {
+      return reply.status(400).send({
+        error: 'Specify which unresolved destination the message belongs to',
+        destinations: unresolved.map((d) => d.destination),
+      });
+    }
+
+    const result = await applyAction(fbPostId, PostStatus.delivered, {}, {
+      action: 'mark_delivered',
+      messageId: discordMsgId,
+      channel: target?.destination,
+      note,
+    });
+    if (!result.ok) {
+      return reply.status(result.statusCode).send(result.body);
+    }
+
+    for (const delivery of unresolved) {
+      await prisma.delivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: DeliveryStatus.delivered,
+          deliveredAt: new Date(),
+          ...(discordMsgId && delivery.id === target?.id ? { messageId: discordMsgId } : {}),
+        },
+      });
+    }
+
+    return { post: result.post };
+  });
+
+  /**
+   * POST /admin/posts/:fbPostId/ignore - Dismiss a failed, needs_review, held or unapproved post
+   */
+  app.post('/posts/:fbPostId/ignore', async (
+    request: FastifyRequest<{ Params: PostParams; Body: ActionBody | undefined }>,
+    reply: FastifyReply
+  ) => {
+    const { fbPostId } = request.params;
+    const result = await applyAction(fbPostId, PostStatus.ignored, {}, {
+      action: 'ignore',
+      note: request.body?.note,
+    });
+    if (!result.ok) {
+      return reply.status(result.statusCode).send(result.body);
+    }
+
+    return { post: result.post };
+  });
+
+  /**
+   * GET /admin/alerts - Current kill switch state and number of held posts
+   */
+  app.get('/alerts', async () => {
+    const state = await getAlertsState();
+    const pausedCount = await prisma.post.count({ where: { status: PostStatus.paused } });
+    return { ...state, pausedCount };
+  });
+
+  /**
+   * PUT /admin/alerts - Toggle the kill switch live
+   * Body: { "enabled": true | false }
+   */
+  app.put('/alerts', async (
+    request: FastifyRequest<{ Body: AlertsBody | undefined }>,
+    reply: FastifyReply
+  ) => {
+    const enabled = request.body?.enabled;
+    if (typeof enabled !== 'boolean') {
+      return reply.status(400).send({ error: 'Body must be { "enabled": boolean }' });
+    }
+
+    return setAlertsEnabled(enabled, 'admin');
+  });
+
+  /**
+   * POST /admin/alerts/release - Send posts that were held while alerts were paused
+   * They are sent however long the pause lasted, on the bulk queue so live posts go first
+   */
+  app.post('/alerts/release', async (request, reply) => {
+    if (!(await getAlertsState()).enabled) {
+      return reply.status(409).send({ error: 'Alerts are disabled; enable them before releasing held posts' });
+    }
+
+    const correlationId = randomUUID();
+    const released = await releasePausedPosts('admin');
+    for (const post of released) {
+      await enqueueProcessPost(boss, { fbPostId: post.fbPostId, correlationId, ignoreMaxAge: true }, { bulk: true });
+    }
+
+    log.info({ count: released.length, correlationId }, 'Released held posts');
+    return { released: released.length, fbPostIds: released.map((p) => p.fbPostId), correlationId };
+  });
+}
@@ -0,0 +1,146 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'crypto';
+import { logger } from '../../logger.js';
+import { prisma } from '../../services/post-state.js';
+import { ApprovalStatus, decideApproval, type DecisionResult } from '../../services/approvals.js';
+import { verifyApprovalToken, type ApprovalDecision } from '../../utils/approval-token.js';
+import { boss } from '../server.js';
+import { enqueueProcessPost } from '../../queues.js';
+
+const log = logger.child({ component: 'approvals' });
+
+interface TokenParams {
+  token: string;
+}
+
+type DecisionFailure = Extract<DecisionResult, { ok: false }>['reason'];
+
+const FAILURES: Record<DecisionFailure, { statusCode: number; message: string }> = {
+  not_found: { statusCode: 404, message: 'This approval does not exist.' },
+  decided: { statusCode: 409, message: 'This approval has already been decided.' },
+  expired: { statusCode: 410, message: 'This approval has expired. The post was not sent.' },
+  post_moved: { statusCode: 409, message: 'The post is no longer waiting for approval.' },
+};
+
+const ACTIONS: Record<ApprovalDecision, { label: string; done: string }> = {
+  approve: { label: '✅ Approve and send', done: '✅ Approved. The alert is being sent.' },
+  reject: { label: '❌ Reject', done: '❌ Rejected. The alert will not be sent.' },
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function sendPage(reply: FastifyReply, statusCode: number, title: string, body: string): FastifyReply {
+  const html = `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="robots" content="noindex">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="font-family: sans-serif; max-width: 40rem; margin: 2rem auto; padding: 0 1rem">
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+  return reply.status(statusCode).header('Cache-Control', 'no-store').type('text/html; charset=utf-8').send(html);
+}
+
+/**
+ * Approve/reject links from the approvers channel
+ *
+ * Links are signed with APPROVAL_SIGNING_KEY and carry the decision. Opening one only
+ * shows a confirmation page, so link previews and scanners never decide anything;
+ * the decision is made by the form's POST, once per approval.
+ */
+export async function approvalRoutes(app: FastifyInstance) {
+  // The confirmation form posts an empty urlencoded body
+  app.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (_req, body, done) => {
+    done(null, body);
+  });
+
+  /**
+   * GET /approvals/:token - Show the post and ask to confirm the decision
+   */
+  app.get('/:token', async (
+    request: FastifyRequest<{ Params: TokenParams }>,
+    reply: FastifyReply
+  ) => {
+    const verified = verifyApprovalToken(request.params.token);
+    if (!verified) {
+      return sendPage(reply, 403, 'Invalid link', '<p>This approval link is not valid.</p>');
+    }
+
+    const approval = await prisma.approval.findUnique({
+      where: { id: verified.approvalId },
+      include: { post: true },
+    });
+    if (!approval) {
+      return sendPage(reply, FAILURES.not_found.statusCode, 'Not found', `<p>${FAILURES.not_found.message}</p>`);
+    }
+    if (approval.status !== ApprovalStatus.pending || approval.expiresAt <= new Date()) {
+      const failure = approval.status === ApprovalStatus.pending || approval.status === ApprovalStatus.expired
+        ? FAILURES.expired
+        : FAILURES.decided;
+      return sendPage(reply, 410, 'Approval closed', `<p>${failure.message}</p>`);
+    }
+
+    // The form posts back to this page's own URL, so it works under any path prefix of PUBLIC_BASE_URL
+    const action = ACTIONS[verified.decision];
+    return sendPage(reply, 200, `${verified.decision === 'approve' ? 'Approve' : 'Reject'} alert?`, `
+<p>Post <code>${escapeHtml(approval.post.fbPostId)}</code> → ${approval.destinations.map((d) => `<strong>${escapeHtml(d)}</strong>`).join(', ')}</p>
+<blockquote style="white-space: pre-wrap">${escapeHtml(approval.message ?? '(no text)')}</blockquote>
+<p>Expires ${escapeHtml(approval.expiresAt.toISOString())}</p>
+<form method="post">
+<button type="submit">${action.label}</button>
+</form>`);
+  });
+
+  /**
+   * POST /approvals/:token - Apply the decision; approved posts are queued for sending,
+   * however long the approval took
+   */
+  app.post('/:token', async (
+    request: FastifyRequest<{ Params: TokenParams }>,
+    reply: FastifyReply
+  ) => {
+    const verified = verifyApprovalToken(request.params.token);
+    if (!verified) {
+      log.warn({ ip: request.ip }, 'Invalid approval token');
+      return sendPage(reply, 403, 'Invalid link', '<p>This approval link is not valid.</p>');
+    }
+
+    const { approvalId, decision } = verified;
+    const result = await decideApproval(approvalId, decision);
+    if (!result.ok) {
+      const failure = FAILURES[result.reason];
+      log.info({ approvalId, decision, reason: result.reason }, 'Approval decision refused');
+      return sendPage(reply, failure.statusCode, 'Nothing to do', `<p>${failure.message}</p>`);
+    }
+
+    const { fbPostId } = result.post;
+    if (decision === 'approve') {
+      const correlationId = randomUUID();
+      const jobId = await enqueueProcessPost(boss, {
+        fbPostId,
+        correlationId,
+        approvalId,
+        skipFilters: result.approval.skipFilters,
+        // APPROVAL_TIMEOUT_MINUTES may well be longer than MAX_POST_AGE_MINUTES
+        ignoreMaxAge: true,
+      });
+      log.info({ fbPostId, approvalId, correlationId, jobId }, 'Post approved');
+    } else {
+      log.info({ fbPostId, approvalId }, 'Post rejected');
+    }
+
+    return sendPage(reply, 200, decision === 'approve' ? 'Approved' : 'Rejected', `<p>${ACTIONS[decision].done}</p>`);
+  });
+}
@@ -3,13 +3,25 @@ import { randomUUID } from 'crypto';
 import { config } from '../../config.js';
 import { createRequestLogger, logger } from '../../logger.js';
 import { verifySignature } from '../../utils/signature.js';
-import { getOrCreatePost } from '../../services/post-state.js';
+import { getOrCreatePost, prisma } from '../../services/post-state.js';
+import { getPage } from '../../services/pages.js';
 import { boss } from '../server.js';
+import { webhookEvents } from '../../metrics.js';
+import { recordFailure } from '../../services/ops-alerts.js';
+import { isBulkMessage } from '../../utils/tag-parser.js';
+import { RoutingConfigError } from '../../routing.js';
+import { enqueueProcessPost, EDIT_POST_QUEUE, RETRACT_POST_QUEUE } from '../../queues.js';
 
 const log = logger.child({ component: 'meta-webhook' });
 
-// Job queue name
-export const PROCESS_POST_QUEUE = 'process-post';
+// Feed verbs that act on a post we may already have relayed
+const FOLLOW_UP_QUEUES: Record<string, string> = {
+  edited: EDIT_POST_QUEUE,
+  remove: RETRACT_POST_QUEUE,
+};
+
+// Items that are the post itself; comments and reactions on it carry its post_id too
+const POST_ITEMS = ['post', 'status'];
 
 interface WebhookVerifyQuery {
   'hub.mode'?: string;
@@ -125,6 +137,8 @@ export async function metaWebhookRoutes(app: FastifyInstance) {
     const signature = request.headers['x-hub-signature-256'] as string | undefined;
     if (!verifySignature(rawBody, signature)) {
       reqLog.warn({ hasSignature: !!signature }, 'Invalid webhook signature');
+      webhookEvents.inc({ outcome: 'bad_signature' });
+      void recordFailure('signature_failures', { lastIp: request.ip });
       return reply.status(403).send('Invalid signature');
     }
 
@@ -134,6 +148,7 @@ export async function metaWebhookRoutes(app: FastifyInstance) {
     const body = request.body;
     if (body.object !== 'page') {
       reqLog.warn({ object: body.object }, 'Unexpected object type');
+      webhookEvents.inc({ outcome: 'non_page_object' });
       // Still return 200 to prevent retries
       return reply.status(200).send('OK');
     }
@@ -141,24 +156,61 @@ export async function metaWebhookRoutes(app: FastifyInstance) {
     // Process entries - collect posts with their webhook data
     interface PostData {
       postId: string;
+      pageId: string;
       message?: string;
       from?: { id: string; name: string };
       createdTime?: number;
+      /** Only bulk routes match (e.g. news): the job goes to the bulk queue */
+      bulk: boolean;
     }
     const posts: PostData[] = [];
+    // Edits and removals of already-tracked posts, in arrival order
+    const followUps: Array<{ postId: string; verb: string; queue: string }> = [];
 
     for (const entry of body.entry) {
       if (!entry.changes) continue;
 
+      // entry.id is the page the event belongs to - only relay pages we know
+      // A page whose routing rules cannot be loaded must not fail the other pages in the batch
+      let page;
+      try {
+        page = await getPage(entry.id);
+      } catch (err) {
+        reqLog.error(
+          { pageId: entry.id, error: err, issues: err instanceof RoutingConfigError ? err.issues : undefined },
+          'Cannot load page, skipping its events'
+        );
+        webhookEvents.inc({ outcome: 'page_error' });
+        continue;
+      }
+      if (!page) {
+        reqLog.warn({ pageId: entry.id }, 'Event for unknown or disabled page, ignoring');
+        webhookEvents.inc({ outcome: 'unknown_page' });
+        continue;
+      }
+
       for (const change of entry.changes) {
         // We only care about feed changes
         if (change.field !== 'feed') continue;
 
         const value = change.value;
+
+        // Edits and removals act on the existing Discord message (no age filter — the original was already accepted)
+        const followUpQueue = value.verb ? FOLLOW_UP_QUEUES[value.verb] : undefined;
+        if (followUpQueue && value.post_id) {
+          if (!POST_ITEMS.includes(value.item ?? '')) {
+            reqLog.debug({ postId: value.post_id, verb: value.verb, item: value.item }, 'Ignoring follow-up for a comment or reaction');
+            webhookEvents.inc({ outcome: 'non_post_item' });
+            continue;
+          }
+          followUps.push({ postId: value.post_id, verb: value.verb!, queue: followUpQueue });
+          continue;
+        }
         
         // Only process new posts (verb === 'add')
         if (value.verb !== 'add') {
           reqLog.debug({ verb: value.verb, item: value.item }, 'Ignoring non-add event');
+          webhookEvents.inc({ outcome: 'non_add_verb' });
           continue;
         }
 
@@ -171,40 +223,45 @@ export async function metaWebhookRoutes(app: FastifyInstance) {
         // Check if post is too old
         if (isPostTooOld(value.created_time, reqLog)) {
           reqLog.info({ postId: value.post_id }, 'Skipping old post');
+          webhookEvents.inc({ outcome: 'too_old' });
           continue;
         }
 
         posts.push({
           postId: value.post_id,
+          pageId: page.id,
           message: value.message,
           from: value.from,
           createdTime: value.created_time as number | undefined,
+          bulk: isBulkMessage(value.message, page.routing),
         });
       }
     }
 
     // Enqueue jobs for each post (deduplicated by post_id)
-    for (const { postId, message, from, createdTime } of posts) {
+    for (const { postId, pageId, message, from, createdTime, bulk } of posts) {
       try {
         // Create post record (idempotent)
-        const { created } = await getOrCreatePost(postId);
+        const { created } = await getOrCreatePost(postId, pageId);
         
         if (created) {
           // Enqueue processing job with webhook data for fallback
           // Use post_id as singleton key for dedupe
-          await boss.send(
-            PROCESS_POST_QUEUE,
+          await enqueueProcessPost(
+            boss,
             { 
               fbPostId: postId, 
               correlationId,
               // Include webhook data for fallback if Graph API unavailable
               webhookData: { message, from, createdTime },
             },
-            { singletonKey: postId }
+            { bulk }
           );
-          reqLog.info({ postId, hasMessage: !!message }, 'Enqueued post for processing');
+          reqLog.info({ postId, hasMessage: !!message, bulk }, 'Enqueued post for processing');
+          webhookEvents.inc({ outcome: 'enqueued' });
         } else {
           reqLog.debug({ postId }, 'Post already exists, skipping enqueue');
+          webhookEvents.inc({ outcome: 'duplicate' });
         }
       } catch (err) {
         reqLog.error({ postId, error: err }, 'Failed to enqueue post');
@@ -212,8 +269,29 @@ export async function metaWebhookRoutes(app: FastifyInstance) {
       }
     }
 
+    // Enqueue edit/retract jobs for posts we already track
+    for (const { postId, verb, queue } of followUps) {
+      try {
+        const existing = await prisma.post.findUnique({
+          where: { fbPostId: postId },
+          select: { id: true },
+        });
+
+        if (!existing) {
+          reqLog.debug({ postId, verb }, 'Follow-up event for untracked post, skipping');
+          continue;
+        }
+
+        await boss.send(queue, { fbPostId: postId, correlationId });
+        reqLog.info({ postId, verb }, 'Enqueued post follow-up');
+        webhookEvents.inc({ outcome: 'follow_up' });
+      } catch (err) {
+        reqLog.error({ postId, verb, error: err }, 'Failed to enqueue post follow-up');
+      }
+    }
+
     const latency = Date.now() - startTime;
-    reqLog.info({ postCount: posts.length, latencyMs: latency }, 'Webhook processed');
+    reqLog.info({ postCount: posts.length, followUpCount: followUps.length, latencyMs: latency }, 'Webhook processed');
 
     // Always return 200 quickly
     return reply.status(200).send('OK');
@@ -2,8 +2,14 @@ import Fastify from 'fastify';
 import { config } from '../config.js';
 import { logger } from '../logger.js';
 import { healthRoutes } from './routes/health.js';
+import { adminRoutes } from './routes/admin.js';
 import { metaWebhookRoutes } from './routes/meta-webhook.js';
+import { approvalRoutes } from './routes/approvals.js';
+import { metricsRoutes } from '../metrics.js';
 import { prisma } from '../services/post-state.js';
+import { POST_QUEUES } from '../queues.js';
+import { getRoutingConfig, RoutingConfigError } from '../routing.js';
+import { listPages } from '../services/pages.js';
 import PgBoss from 'pg-boss';
 
 const log = logger.child({ component: 'ingress' });
@@ -19,13 +25,27 @@ export const boss = new PgBoss({
 });
 
 async function main() {
+  // Load pages and their routing rules - refuse to start on invalid rules, like the worker
+  try {
+    getRoutingConfig();
+    await listPages();
+  } catch (err) {
+    if (err instanceof RoutingConfigError) {
+      log.fatal({ issues: err.issues }, err.message);
+      process.exit(1);
+    }
+    throw err;
+  }
+
   // Start pg-boss
   await boss.start();
   log.info('pg-boss started');
 
-  // Create queue (required in pg-boss 10+)
-  await boss.createQueue('process-post');
-  log.info('Queue created: process-post');
+  // Create queues (required in pg-boss 10+)
+  for (const queue of POST_QUEUES) {
+    await boss.createQueue(queue);
+    log.info(`Queue created: ${queue}`);
+  }
 
   // Create Fastify server
   const app = Fastify({
@@ -52,8 +72,21 @@ async function main() {
 
   // Register routes
   await app.register(healthRoutes);
+  await app.register(metricsRoutes);
   await app.register(metaWebhookRoutes, { prefix: '/meta' });
 
+  if (config.ADMIN_API_TOKEN) {
+    await app.register(adminRoutes, { prefix: '/admin' });
+  } else {
+    log.info('ADMIN_API_TOKEN not set, admin API disabled');
+  }
+
+  if (config.APPROVAL_SIGNING_KEY) {
+    await app.register(approvalRoutes, { prefix: '/approvals' });
+  } else {
+    log.info('APPROVAL_SIGNING_KEY not set, approval links disabled');
+  }
+
   // Error handler
   app.setErrorHandler((error, request, reply) => {
     log.error({ error, url: request.url, method: request.method }, 'Unhandled error');
@@ -1,5 +1,6 @@
 import pino from 'pino';
 import { config } from './config.js';
+import { redactingLogOptions } from './utils/redact.js';
 
 export const logger = pino({
   level: config.LOG_LEVEL,
@@ -17,6 +18,8 @@ export const logger = pino({
   base: {
     service: 'fb-discord-relay',
   },
+  // Webhook URLs and access tokens must never reach the logs
+  ...redactingLogOptions,
 });
 
 /**
@@ -0,0 +1,124 @@
+import type { FastifyInstance } from 'fastify';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { logger } from './logger.js';
+import { prisma } from './services/post-state.js';
+
+/**
+ * Prometheus metrics shared by ingress and worker
+ * Each process keeps its own registry and serves it on /metrics
+ */
+
+const log = logger.child({ component: 'metrics' });
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+/** Why an incoming webhook event was dropped, or that it was enqueued */
+export type WebhookOutcome =
+  | 'bad_signature'
+  | 'non_page_object'
+  | 'unknown_page'
+  | 'non_add_verb'
+  | 'too_old'
+  | 'duplicate'
+  | 'enqueued'
+  | 'follow_up';
+
+export const webhookEvents = new Counter({
+  name: 'relay_webhook_events_total',
+  help: 'Facebook webhook requests and feed changes by outcome',
+  labelNames: ['outcome'] as const,
+  registers: [registry],
+});
+
+export const deliveryLatency = new Histogram({
+  name: 'relay_delivery_latency_seconds',
+  help: 'Time from the Facebook post created_time until the Discord message was delivered',
+  labelNames: ['destination'] as const,
+  buckets: [1, 2, 5, 10, 20, 30, 60, 120, 300, 600],
+  registers: [registry],
+});
+
+export const deliveryAttempts = new Counter({
+  name: 'relay_deliveries_total',
+  help: 'Delivery attempts by destination and resulting status',
+  labelNames: ['destination', 'status'] as const,
+  registers: [registry],
+});
+
+export const discordErrors = new Counter({
+  name: 'relay_discord_errors_total',
+  help: 'Failed Discord webhook requests by HTTP status (or network/timeout)',
+  labelNames: ['status'] as const,
+  registers: [registry],
+});
+
+export const discordSendsDelayed = new Counter({
+  name: 'relay_discord_sends_delayed_total',
+  help: 'Discord sends held back by an exhausted rate limit bucket, by destination and whether the worker waited or rescheduled',
+  labelNames: ['destination', 'action'] as const,
+  registers: [registry],
+});
+
+export const graphErrors = new Counter({
+  name: 'relay_graph_errors_total',
+  help: 'Failed Graph API requests by HTTP status (or network)',
+  labelNames: ['status'] as const,
+  registers: [registry],
+});
+
+export const postsFiltered = new Counter({
+  name: 'relay_posts_filtered_total',
+  help: 'Posts held or ignored by a content filter rule, by rule name and action',
+  labelNames: ['rule', 'action'] as const,
+  registers: [registry],
+});
+
+export const approvalDecisions = new Counter({
+  name: 'relay_approvals_total',
+  help: 'Approval requests closed, by outcome (approved, rejected or expired)',
+  labelNames: ['decision'] as const,
+  registers: [registry],
+});
+
+export const stuckPostsSwept = new Counter({
+  name: 'relay_stuck_posts_swept_total',
+  help: 'Posts found stuck mid-pipeline by the sweeper, by status and action taken',
+  labelNames: ['status', 'action'] as const,
+  registers: [registry],
+});
+
+/**
+ * Job counts per pg-boss queue and state, read from the pgboss schema on every scrape
+ */
+new Gauge({
+  name: 'relay_queue_jobs',
+  help: 'pg-boss jobs per queue and state',
+  labelNames: ['queue', 'state'] as const,
+  registers: [registry],
+  async collect() {
+    this.reset();
+    try {
+      const rows = await prisma.$queryRaw<Array<{ name: string; state: string; count: bigint }>>`
+        SELECT name, state::text AS state, count(*) AS count
+        FROM pgboss.job
+        GROUP BY name, state
+      `;
+      for (const row of rows) {
+        this.set({ queue: row.name, state: row.state }, Number(row.count));
+      }
+    } catch (err) {
+      log.warn({ error: err }, 'Could not read pg-boss queue depth');
+    }
+  },
+});
+
+/**
+ * GET /metrics in Prometheus text format
+ */
+export async function metricsRoutes(app: FastifyInstance) {
+  app.get('/metrics', async (request, reply) => {
+    reply.type(registry.contentType);
+    return registry.metrics();
+  });
+}
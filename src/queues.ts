@@ -0,0 +1,106 @@
+import type PgBoss from 'pg-boss';
+import type { Post } from '@prisma/client';
+
+/**
+ * pg-boss queue names and job payloads shared by ingress, worker and scripts
+ * Kept free of side effects so CLI scripts can import it without starting a server
+ */
+
+export const PROCESS_POST_QUEUE = 'process-post';
+/** Posts that only go to bulk routes (e.g. news), worked separately so they never delay trade alerts */
+export const PROCESS_POST_BULK_QUEUE = 'process-post-bulk';
+/** Both process-post lanes, e.g. to look for a post's live job */
+export const PROCESS_POST_QUEUES = [PROCESS_POST_QUEUE, PROCESS_POST_BULK_QUEUE];
+export const EDIT_POST_QUEUE = 'edit-post';
+export const RETRACT_POST_QUEUE = 'retract-post';
+
+/** Delayed lookup of sends that timed out (created by the worker, used when DISCORD_BOT_TOKEN is set) */
+export const RESOLVE_DELIVERY_QUEUE = 'resolve-delivery';
+
+/** Timeout of a post awaiting approval, sent with a delay of APPROVAL_TIMEOUT_MINUTES (created by the worker) */
+export const EXPIRE_APPROVAL_QUEUE = 'expire-approval';
+
+/** Scheduled page token health check (created and scheduled by the worker) */
+export const CHECK_PAGE_TOKENS_QUEUE = 'check-page-tokens';
+
+/** Scheduled feed reconciliation (created by the worker, scheduled when RECONCILE_INTERVAL_MINUTES > 0) */
+export const RECONCILE_FEED_QUEUE = 'reconcile-feed';
+
+/** Scheduled archival and deletion of old records (created by the worker, scheduled when RETENTION_CRON is set) */
+export const APPLY_RETENTION_QUEUE = 'apply-retention';
+
+/** Scheduled sweep for posts abandoned mid-pipeline (created and scheduled by the worker) */
+export const SWEEP_STUCK_POSTS_QUEUE = 'sweep-stuck-posts';
+
+/** Queues created by the ingress on startup (required in pg-boss 10+) */
+export const POST_QUEUES = [PROCESS_POST_QUEUE, PROCESS_POST_BULK_QUEUE, EDIT_POST_QUEUE, RETRACT_POST_QUEUE];
+
+/**
+ * Post data from the webhook payload, used as a fallback if the Graph API is unavailable
+ */
+export interface WebhookData {
+  message?: string;
+  from?: { id: string; name: string };
+  createdTime?: number;
+}
+
+export interface ProcessPostJob {
+  fbPostId: string;
+  correlationId: string;
+  webhookData?: WebhookData;
+  /** Relay even if older than MAX_POST_AGE_MINUTES (an operator retried, released or confirmed a backfill) */
+  ignoreMaxAge?: boolean;
+  /** Skip the hold/ignore content filters (an operator released the post); redactions still apply */
+  skipFilters?: boolean;
+  /** The approval granted for this post (approval mode); checked again before sending */
+  approvalId?: string;
+}
+
+/** Shared by edit-post, retract-post and resolve-delivery */
+export interface PostFollowUpJob {
+  fbPostId: string;
+  correlationId: string;
+}
+
+export interface ExpireApprovalJob extends PostFollowUpJob {
+  approvalId: string;
+}
+
+export interface EnqueueProcessPostOptions extends Pick<PgBoss.SendOptions, 'startAfter'> {
+  /** Every destination is a bulk route (see isBulkMessage) */
+  bulk?: boolean;
+}
+
+/**
+ * Enqueue a post for processing (post_id doubles as the singleton key for dedupe)
+ * startAfter delays the job, e.g. until a Discord rate limit bucket resets
+ */
+export async function enqueueProcessPost(
+  boss: PgBoss,
+  job: ProcessPostJob,
+  { bulk, ...options }: EnqueueProcessPostOptions = {}
+): Promise<string | null> {
+  const queue = bulk ? PROCESS_POST_BULK_QUEUE : PROCESS_POST_QUEUE;
+  return boss.send(queue, job, { ...options, singletonKey: job.fbPostId });
+}
+
+/**
+ * Enqueue a post again with the options it was last processed with (stored on the post)
+ */
+export async function requeueProcessPost(
+  boss: PgBoss,
+  post: Pick<Post, 'fbPostId' | 'ignoreMaxAge' | 'skipFilters' | 'approvalId' | 'bulk'>,
+  correlationId: string
+): Promise<string | null> {
+  return enqueueProcessPost(
+    boss,
+    {
+      fbPostId: post.fbPostId,
+      correlationId,
+      ignoreMaxAge: post.ignoreMaxAge || undefined,
+      skipFilters: post.skipFilters || undefined,
+      approvalId: post.approvalId ?? undefined,
+    },
+    { bulk: post.bulk }
+  );
+}
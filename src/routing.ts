@@ -0,0 +1,289 @@
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { config } from './config.js';
+import { isHashtag, normalizeTag } from './utils/hashtags.js';
+
+/**
+ * Declarative routing rules
+ *
+ * Loaded from the YAML or JSON file at ROUTING_CONFIG_PATH. Each rule maps one or
+ * more hashtags to a Discord webhook and controls how the alert is presented.
+ * Rules are checked in ascending `priority` (ties keep file order); the first
+ * match wins, or with `fanOut: true` every matching rule gets its own copy.
+ * Posts that match no rule (e.g. only the trigger tag) use the default route.
+ * Posts whose every destination is a `bulk` rule wait in their own queue, so they
+ * never hold up trade alerts. Posts for an `approval` route wait for an approver
+ * before anything is sent.
+ * `filters` run on every eligible post before it is sent (see utils/content-filter):
+ * a rule can redact text, or hold the post for review / ignore it outright.
+ *
+ * Example:
+ *   fanOut: false
+ *   default:
+ *     title: "📈 TRADE ALERT"
+ *   routes:
+ *     - name: stock-market-news
+ *       tags: ["#stockmarketnews"]
+ *       webhookUrl: https://discord.com/api/webhooks/...
+ *       title: "📰 STOCK MARKET NEWS"
+ *       color: "#2ecc71"
+ *       mentionRoleId: null   # no role ping for news
+ *       priority: 10
+ *       bulk: true            # may wait behind trade alerts
+ *   filters:
+ *     - name: personal
+ *       type: deny
+ *       keywords: ["#personal", "family"]
+ *       action: ignore
+ */
+
+const DEFAULT_TITLE = '📈 TRADE ALERT';
+const DEFAULT_COLOR = 0x1877f2; // Facebook blue
+
+const colorSchema = z.union([
+  z.number().int().min(0).max(0xffffff),
+  z
+    .string()
+    .regex(/^#?[0-9a-f]{6}$/i, 'must be a hex color like "#1877f2"')
+    .transform((hex) => parseInt(hex.replace('#', ''), 16)),
+]);
+
+// Presentation fields shared by the default route and every rule
+// `null` explicitly disables a mention/disclaimer; omitting a field inherits the default
+const presentationSchema = z.object({
+  title: z.string().min(1).max(256).optional(),
+  color: colorSchema.optional(),
+  mentionRoleId: z.string().regex(/^\d+$/, 'must be a numeric Discord role ID').nullable().optional(),
+  disclaimer: z.string().nullable().optional(),
+});
+
+const ruleSchema = presentationSchema.extend({
+  name: z.string().min(1),
+  tags: z
+    .array(z.string().refine(isHashtag, 'must be a hashtag like "#stockstowatch"'))
+    .min(1)
+    .transform((tags) => tags.map(normalizeTag)),
+  webhookUrl: z.string().url(),
+  priority: z.number().int().default(100),
+  bulk: z.boolean().default(false),
+  approval: z.boolean().default(false),
+});
+
+// What a filter rule does with a post it matches: hold it for an operator, or drop it
+const filterActionSchema = z.enum(['hold', 'ignore']).default('hold');
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'gi');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const filterSchema = z.discriminatedUnion('type', [
+  // Any of the words or phrases (case-insensitive, whole words only)
+  z.object({
+    type: z.literal('deny'),
+    name: z.string().min(1),
+    keywords: z.array(z.string().trim().min(1)).min(1),
+    action: filterActionSchema,
+  }).strict(),
+  // Replace every match of a regular expression (case-insensitive) and send the rest
+  z.object({
+    type: z.literal('redact'),
+    name: z.string().min(1),
+    pattern: z.string().min(1).refine(isValidPattern, 'must be a valid regular expression'),
+    replacement: z.string().default('[redacted]'),
+  }).strict(),
+  // Messages longer than this many characters
+  z.object({
+    type: z.literal('maxLength'),
+    name: z.string().min(1),
+    maxLength: z.number().int().positive(),
+    action: filterActionSchema,
+  }).strict(),
+  // Messages without a ticker ($AAPL, "Buy AAPL", an option contract)
+  z.object({
+    type: z.literal('requireTicker'),
+    name: z.string().min(1),
+    action: filterActionSchema,
+  }).strict(),
+]);
+
+export type ContentFilter = z.infer<typeof filterSchema>;
+
+export const routingFileSchema = z
+  .object({
+    fanOut: z.boolean().default(false),
+    default: presentationSchema
+      .extend({ webhookUrl: z.string().url().optional(), approval: z.boolean().default(false) })
+      .strict()
+      .default({}),
+    routes: z.array(ruleSchema.strict()).default([]),
+    filters: z.array(filterSchema).default([]),
+  })
+  .strict()
+  .superRefine((file, ctx) => {
+    const seen = new Set<string>();
+    file.routes.forEach((rule, index) => {
+      if (rule.name === 'default' || seen.has(rule.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['routes', index, 'name'],
+          message: `duplicate or reserved route name "${rule.name}"`,
+        });
+      }
+      seen.add(rule.name);
+    });
+
+    const filterNames = new Set<string>();
+    file.filters.forEach((filter, index) => {
+      if (filterNames.has(filter.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['filters', index, 'name'],
+          message: `duplicate filter name "${filter.name}"`,
+        });
+      }
+      filterNames.add(filter.name);
+    });
+  });
+
+export type RoutingFile = z.infer<typeof routingFileSchema>;
+
+/**
+ * A fully-resolved route with every presentation default applied
+ */
+export interface ResolvedRoute {
+  name: string;
+  tags: string[];
+  webhookUrl: string;
+  title: string;
+  color: number;
+  mentionRoleId: string | null;
+  disclaimer: string | null;
+  priority: number;
+  /** Less time-critical (e.g. news): processed on the bulk queue */
+  bulk: boolean;
+  /** Posts for this route wait for an approver before they are sent */
+  approval: boolean;
+}
+
+export interface RoutingConfig {
+  /** Send to every matching rule instead of only the highest priority one */
+  fanOut: boolean;
+  /** Fallback route for posts that only carry the trigger tag */
+  defaultRoute: ResolvedRoute;
+  /** Tag rules in the order they are checked */
+  routes: ResolvedRoute[];
+  /** Content filter rules, applied in file order before sending */
+  filters: ContentFilter[];
+}
+
+export class RoutingConfigError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'RoutingConfigError';
+  }
+}
+
+/**
+ * Apply defaults to a parsed routing file
+ * The default route falls back to `fallbackWebhookUrl` when the file doesn't set one
+ */
+export function resolveRoutingFile(file: RoutingFile, fallbackWebhookUrl = config.DISCORD_WEBHOOK_URL): RoutingConfig {
+  const defaults = file.default;
+
+  const pick = <T>(value: T | undefined, fallback: T): T => (value !== undefined ? value : fallback);
+
+  const defaultRoute: ResolvedRoute = {
+    name: 'default',
+    tags: [],
+    webhookUrl: defaults.webhookUrl ?? fallbackWebhookUrl,
+    title: defaults.title ?? DEFAULT_TITLE,
+    color: defaults.color ?? DEFAULT_COLOR,
+    mentionRoleId: pick(defaults.mentionRoleId, config.DISCORD_MENTION_ROLE_ID ?? null),
+    disclaimer: pick(defaults.disclaimer, config.DISCORD_DISCLAIMER || null),
+    priority: Number.MAX_SAFE_INTEGER,
+    bulk: false,
+    approval: defaults.approval,
+  };
+
+  const routes = file.routes
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index)
+    .map(({ rule }): ResolvedRoute => ({
+      name: rule.name,
+      tags: rule.tags,
+      webhookUrl: rule.webhookUrl,
+      title: rule.title ?? defaultRoute.title,
+      color: rule.color ?? defaultRoute.color,
+      mentionRoleId: pick(rule.mentionRoleId, defaultRoute.mentionRoleId),
+      disclaimer: pick(rule.disclaimer, defaultRoute.disclaimer),
+      priority: rule.priority,
+      bulk: rule.bulk,
+      approval: rule.approval,
+    }));
+
+  return { fanOut: file.fanOut, defaultRoute, routes, filters: file.filters };
+}
+
+/**
+ * Validate already-parsed routing rules (e.g. stored as JSON on a page)
+ */
+export function validateRoutingRules(raw: unknown, source: string, fallbackWebhookUrl?: string): RoutingConfig {
+  const result = routingFileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new RoutingConfigError(`Invalid ${source}`, issues);
+  }
+
+  return resolveRoutingFile(result.data, fallbackWebhookUrl);
+}
+
+/**
+ * Parse and validate routing rules from file contents (YAML or JSON)
+ */
+export function parseRoutingConfig(source: string, filename = 'routing config'): RoutingConfig {
+  let raw: unknown;
+  try {
+    raw = parseYaml(source);
+  } catch (err) {
+    throw new RoutingConfigError(`Failed to parse ${filename}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  return validateRoutingRules(raw, filename);
+}
+
+/**
+ * Load routing rules from ROUTING_CONFIG_PATH
+ * With no file configured, every post goes to the default route
+ */
+export function loadRoutingConfig(path = config.ROUTING_CONFIG_PATH): RoutingConfig {
+  if (!path) {
+    return resolveRoutingFile(routingFileSchema.parse({}));
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new RoutingConfigError(`Cannot read routing config ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  return parseRoutingConfig(source, path);
+}
+
+let cached: RoutingConfig | undefined;
+
+/**
+ * Get the active routing config (loaded once per process)
+ */
+export function getRoutingConfig(): RoutingConfig {
+  if (!cached) {
+    cached = loadRoutingConfig();
+  }
+  return cached;
+}
@@ -0,0 +1,190 @@
+import { ApprovalStatus, type Approval } from '@prisma/client';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import type { ResolvedRoute } from '../routing.js';
+import { prisma, transitionPost, PostStatus, type Post, type Delivery } from './post-state.js';
+import { buildPayload, deliveryMarker, sendApprovalRequest, type DiscordWebhookPayload } from './discord.js';
+import type { FacebookPost } from './facebook.js';
+import { createApprovalToken, type ApprovalDecision } from '../utils/approval-token.js';
+import { approvalDecisions } from '../metrics.js';
+
+const log = logger.child({ service: 'approvals' });
+
+export { ApprovalStatus };
+export type { Approval };
+
+/** Discord rejects message content longer than this */
+const MAX_CONTENT_LENGTH = 2000;
+
+export interface ApprovalRequestResult {
+  success: boolean;
+  approval?: Approval;
+  error?: string;
+  retryable?: boolean;
+}
+
+export type DecisionResult =
+  | { ok: true; approval: Approval; post: Post }
+  | { ok: false; reason: 'not_found' | 'decided' | 'expired' | 'post_moved' };
+
+/**
+ * Whether everything approval mode needs is set (links, signing key, approvers channel)
+ */
+export function isApprovalConfigured(): boolean {
+  return !!(config.APPROVAL_WEBHOOK_URL && config.APPROVAL_SIGNING_KEY && config.PUBLIC_BASE_URL);
+}
+
+/**
+ * The one-time link for a decision, served by the ingress
+ */
+export function approvalUrl(approvalId: string, decision: ApprovalDecision): string {
+  return `${config.PUBLIC_BASE_URL}/approvals/${createApprovalToken(approvalId, decision)}`;
+}
+
+/**
+ * The approvers' message for one destination: the links, then the alert exactly as it will be sent
+ * Mentions are turned off so the preview never pings the traders' role
+ */
+export function buildApprovalPayload(
+  approval: Pick<Approval, 'id' | 'expiresAt'>,
+  fbPostId: string,
+  destination: string,
+  preview: DiscordWebhookPayload
+): DiscordWebhookPayload {
+  const lines = [
+    `🔐 **Approval needed** — post ${fbPostId} → **${destination}**`,
+    `✅ Approve: <${approvalUrl(approval.id, 'approve')}>`,
+    `❌ Reject: <${approvalUrl(approval.id, 'reject')}>`,
+    `Expires <t:${Math.floor(approval.expiresAt.getTime() / 1000)}:R>`,
+  ];
+  if (preview.content) {
+    lines.push('', `>>> ${preview.content}`);
+  }
+
+  const content = lines.join('\n');
+  return {
+    content: content.length > MAX_CONTENT_LENGTH ? `${content.slice(0, MAX_CONTENT_LENGTH - 1)}…` : content,
+    embeds: preview.embeds,
+    allowed_mentions: { parse: [] },
+  };
+}
+
+/**
+ * Ask the approvers to sign off a post, with a preview for every destination
+ * If a preview cannot be posted the approval is closed, so none of its links work
+ */
+export async function requestApproval(
+  post: Post,
+  fbPost: FacebookPost,
+  routes: ResolvedRoute[],
+  deliveries: Delivery[],
+  skipFilters = false
+): Promise<ApprovalRequestResult> {
+  const approval = await prisma.approval.create({
+    data: {
+      postId: post.id,
+      message: fbPost.message ?? null,
+      destinations: routes.map((route) => route.name),
+      skipFilters,
+      expiresAt: new Date(Date.now() + config.APPROVAL_TIMEOUT_MINUTES * 60 * 1000),
+    },
+  });
+
+  for (const route of routes) {
+    const delivery = deliveries.find((d) => d.destination === route.name);
+    const preview = buildPayload(fbPost, route, delivery ? deliveryMarker(delivery.id) : undefined);
+    const result = await sendApprovalRequest(post.fbPostId, buildApprovalPayload(approval, post.fbPostId, route.name, preview));
+
+    if (!result.success) {
+      await prisma.approval.update({ where: { id: approval.id }, data: { status: ApprovalStatus.expired } });
+      return { success: false, error: result.error, retryable: result.retryable || result.ambiguous };
+    }
+  }
+
+  log.info({ fbPostId: post.fbPostId, approvalId: approval.id, destinations: approval.destinations }, 'Approval requested');
+  return { success: true, approval };
+}
+
+/**
+ * Whether the post may be sent under this approval: granted, and for the text the approver saw
+ */
+export async function isApproved(approvalId: string | undefined, postId: string, message: string | undefined): Promise<boolean> {
+  if (!approvalId) {
+    return false;
+  }
+  const approval = await prisma.approval.findUnique({ where: { id: approvalId } });
+  return (
+    approval?.postId === postId &&
+    approval.status === ApprovalStatus.approved &&
+    approval.message === (message ?? null)
+  );
+}
+
+/**
+ * Apply an approver's decision: approved posts go back to received (the caller enqueues them),
+ * rejected posts are ignored. Each approval can be decided once, before it expires.
+ */
+export async function decideApproval(approvalId: string, decision: ApprovalDecision): Promise<DecisionResult> {
+  const approval = await prisma.approval.findUnique({ where: { id: approvalId }, include: { post: true } });
+  if (!approval) {
+    return { ok: false, reason: 'not_found' };
+  }
+  if (approval.status === ApprovalStatus.expired || (approval.status === ApprovalStatus.pending && approval.expiresAt <= new Date())) {
+    return { ok: false, reason: 'expired' };
+  }
+  if (approval.status !== ApprovalStatus.pending) {
+    return { ok: false, reason: 'decided' };
+  }
+  if (approval.post.status !== PostStatus.awaiting_approval) {
+    return { ok: false, reason: 'post_moved' };
+  }
+
+  // Claim the approval; a second click (or the other link) finds it already decided
+  const status = decision === 'approve' ? ApprovalStatus.approved : ApprovalStatus.rejected;
+  const claimed = await prisma.approval.updateMany({
+    where: { id: approvalId, status: ApprovalStatus.pending },
+    data: { status, decidedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return { ok: false, reason: 'decided' };
+  }
+
+  const details = { source: 'approval', action: decision, approvalId };
+  const post = decision === 'approve'
+    ? await transitionPost(approval.post.fbPostId, PostStatus.received, undefined, details)
+    : await transitionPost(approval.post.fbPostId, PostStatus.ignored, undefined, { ...details, reason: 'Rejected by approver' });
+  if (!post) {
+    return { ok: false, reason: 'post_moved' };
+  }
+
+  approvalDecisions.inc({ decision: status });
+  log.info({ fbPostId: post.fbPostId, approvalId, decision }, 'Approval decided');
+  return { ok: true, approval: { ...approval, status }, post };
+}
+
+/**
+ * Close an approval nobody decided on in time; its post is ignored
+ * Returns false if it was already decided
+ */
+export async function expireApproval(approvalId: string): Promise<boolean> {
+  const claimed = await prisma.approval.updateMany({
+    where: { id: approvalId, status: ApprovalStatus.pending },
+    data: { status: ApprovalStatus.expired },
+  });
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  const approval = await prisma.approval.findUniqueOrThrow({ where: { id: approvalId }, include: { post: true } });
+  if (approval.post.status === PostStatus.awaiting_approval) {
+    await transitionPost(approval.post.fbPostId, PostStatus.ignored, undefined, {
+      reason: 'Approval timed out',
+      approvalId,
+      timeoutMinutes: config.APPROVAL_TIMEOUT_MINUTES,
+    });
+  }
+
+  approvalDecisions.inc({ decision: ApprovalStatus.expired });
+  log.info({ fbPostId: approval.post.fbPostId, approvalId }, 'Approval timed out');
+  return true;
+}
@@ -0,0 +1,120 @@
+import type PgBoss from 'pg-boss';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { fetchFeed, type FacebookPost } from './facebook.js';
+import type { PageContext } from './pages.js';
+import { getOrCreatePost, recordPostEvent, prisma } from './post-state.js';
+import { enqueueProcessPost } from '../queues.js';
+import { hasAnyTrackedTag, isBulkMessage } from '../utils/tag-parser.js';
+
+const log = logger.child({ service: 'backfill' });
+
+/**
+ * A feed post the database has never seen
+ */
+export interface MissedPost {
+  post: FacebookPost;
+  /** Older than MAX_POST_AGE_MINUTES (or without created_time) - the worker would ignore it */
+  tooOld: boolean;
+  /** Carries the trigger tag or a routed tag, so the worker would relay it */
+  tracked: boolean;
+}
+
+export interface FindMissedPostsResult {
+  success: boolean;
+  /** Posts by the page in the window */
+  scanned?: number;
+  missed?: MissedPost[];
+  error?: string;
+}
+
+/**
+ * Same rule as the ingress and worker: no created_time counts as too old
+ */
+function isOlderThanCutoff(createdTime: string | undefined, now: number): boolean {
+  if (config.MAX_POST_AGE_MINUTES === 0) return false;
+  if (!createdTime) return true;
+  return now - new Date(createdTime).getTime() > config.MAX_POST_AGE_MINUTES * 60 * 1000;
+}
+
+/**
+ * Read the page's feed for a time window and return the posts without a post record
+ * (webhooks that never arrived), oldest first
+ */
+export async function findMissedPosts(page: PageContext, since: Date, until: Date): Promise<FindMissedPostsResult> {
+  const feed = await fetchFeed(page, since, until);
+  if (!feed.success) {
+    return { success: false, error: feed.error };
+  }
+
+  // The feed also lists visitor posts; only the page's own posts are relayed
+  const posts = feed.posts!.filter((post) => post.from?.id === page.id);
+  const known = await prisma.post.findMany({
+    where: { fbPostId: { in: posts.map((post) => post.id) } },
+    select: { fbPostId: true },
+  });
+  const knownIds = new Set(known.map((post) => post.fbPostId));
+
+  const now = Date.now();
+  const missed = posts
+    .filter((post) => !knownIds.has(post.id))
+    .reverse()
+    .map((post) => ({
+      post,
+      tooOld: isOlderThanCutoff(post.created_time, now),
+      tracked: hasAnyTrackedTag(post.message, page),
+    }));
+
+  log.info({ pageId: page.id, scanned: posts.length, missed: missed.length }, 'Compared feed with stored posts');
+  return { success: true, scanned: posts.length, missed };
+}
+
+export interface EnqueueMissedOptions {
+  /** Relay posts older than MAX_POST_AGE_MINUTES too */
+  ignoreMaxAge?: boolean;
+  /** Recorded on the backfilled event */
+  source?: 'cli' | 'reconciler';
+}
+
+/**
+ * Record missed posts and enqueue them on process-post
+ * Posts older than MAX_POST_AGE_MINUTES are only relayed with ignoreMaxAge;
+ * returns the IDs that were enqueued
+ */
+export async function enqueueMissedPosts(
+  boss: PgBoss,
+  page: PageContext,
+  missed: MissedPost[],
+  correlationId: string,
+  options: EnqueueMissedOptions = {}
+): Promise<string[]> {
+  const enqueued: string[] = [];
+
+  for (const { post, tooOld } of missed) {
+    if (tooOld && !options.ignoreMaxAge) {
+      continue;
+    }
+
+    // A webhook may have arrived since the feed was read
+    const { created } = await getOrCreatePost(post.id, page.id);
+    if (!created) {
+      continue;
+    }
+
+    await recordPostEvent(post.id, 'backfilled', { source: options.source ?? 'cli', correlationId, ignoreMaxAge: tooOld });
+    await enqueueProcessPost(boss, {
+      fbPostId: post.id,
+      correlationId,
+      webhookData: {
+        message: post.message,
+        from: post.from,
+        createdTime: post.created_time ? Math.floor(new Date(post.created_time).getTime() / 1000) : undefined,
+      },
+      ignoreMaxAge: tooOld || undefined,
+    }, { bulk: isBulkMessage(post.message, page.routing) });
+    enqueued.push(post.id);
+  }
+
+  log.info({ pageId: page.id, correlationId, source: options.source ?? 'cli', count: enqueued.length }, 'Enqueued missed posts');
+  return enqueued;
+}
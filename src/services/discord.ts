@@ -1,7 +1,13 @@
 import { config } from '../config.js';
 import { logger } from '../logger.js';
-import { sanitizeForDiscord, findRoutedChannel } from '../utils/tag-parser.js';
+import { sanitizeForDiscord, findRoutedChannel, findRoutedChannels } from '../utils/tag-parser.js';
+import { extractMedia } from '../utils/attachments.js';
+import { parseSignals, type TradeSignals } from '../utils/signals.js';
+import { getRoutingConfig, type ResolvedRoute, type RoutingConfig } from '../routing.js';
 import type { FacebookPost } from './facebook.js';
+import { resolveSecret, SecretError } from './secrets.js';
+import { discordErrors, discordSendsDelayed } from '../metrics.js';
+import { parseRateLimitHeaders, recordRateLimit, reserveSendSlot, type RateLimitInfo } from './rate-limit.js';
 
 const log = logger.child({ service: 'discord' });
 
@@ -17,6 +23,14 @@ export interface DiscordEmbed {
   image?: {
     url: string;
   };
+  thumbnail?: {
+    url: string;
+  };
+  fields?: Array<{
+    name: string;
+    value: string;
+    inline?: boolean;
+  }>;
 }
 
 export interface DiscordWebhookPayload {
@@ -36,16 +50,88 @@ export interface SendResult {
   retryAfterMs?: number;
   ambiguous?: boolean;
   channel?: string;
+  webhookId?: string;
+  httpStatus?: number;
+  /** Bucket state from the response headers */
+  rateLimit?: RateLimitInfo;
+}
+
+/** Bucket resets closer than this are waited out in the worker instead of rescheduling the job */
+const INLINE_WAIT_MS = 2000;
+
+/**
+ * Result of looking for an alert in its channel
+ * success with no messageId means the channel was checked and the message is not there
+ */
+export interface MessageLookupResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+/** Recent channel messages searched for a delivery's marker */
+const LOOKUP_MESSAGE_LIMIT = 100;
+
+/** Discord merges the images of up to this many embeds that share a URL into one gallery */
+const MAX_GALLERY_IMAGES = 4;
+
+/** Discord rejects messages with more embeds than this */
+const MAX_EMBEDS = 10;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
 }
 
+const DIRECTION_LABELS: Record<NonNullable<TradeSignals['direction']>, string> = {
+  buy: '🟢 Buy',
+  long: '🟢 Long',
+  sell: '🔴 Sell',
+  short: '🔴 Short',
+};
+
+const price = (value: number) => `$${value}`;
+
 /**
- * Build a Discord embed from a Facebook post
- * Now only contains the image and link — text moved to content for better notifications
+ * Embed fields for the trade signals found in a post (see parseSignals)
  */
-export function buildEmbed(post: FacebookPost, title = '📈 TRADE ALERT'): DiscordEmbed {
+export function buildSignalFields(signals: TradeSignals): NonNullable<DiscordEmbed['fields']> {
+  const fields: NonNullable<DiscordEmbed['fields']> = [];
+  if (signals.tickers.length > 0) {
+    fields.push({ name: 'Ticker', value: signals.tickers.map((ticker) => `$${ticker}`).join(', '), inline: true });
+  }
+  if (signals.direction) {
+    fields.push({ name: 'Direction', value: DIRECTION_LABELS[signals.direction], inline: true });
+  }
+  if (signals.entry !== undefined) {
+    fields.push({ name: 'Entry', value: price(signals.entry), inline: true });
+  }
+  if (signals.targets.length > 0) {
+    fields.push({ name: signals.targets.length > 1 ? 'Targets' : 'Target', value: signals.targets.map(price).join(' / '), inline: true });
+  }
+  if (signals.stop !== undefined) {
+    fields.push({ name: 'Stop', value: price(signals.stop), inline: true });
+  }
+  if (signals.options.length > 0) {
+    const contracts = signals.options.map(
+      (option) => `${option.ticker} ${option.strike}${option.type === 'call' ? 'C' : 'P'} ${option.expiry}`
+    );
+    fields.push({ name: 'Options', value: truncate(contracts.join('\n'), 1024), inline: false });
+  }
+  return fields;
+}
+
+/**
+ * Build the Discord embeds for a Facebook post
+ * Text lives in content for better notifications; the embeds carry the link and media:
+ *   - the main embed: title linking to the post, trade signal fields, first image (or video thumbnail), timestamp
+ *   - up to 3 more images, in embeds sharing the main embed's URL so Discord shows a gallery
+ *   - a link to each video (webhooks cannot play them)
+ *   - a preview card for each shared link
+ */
+export function buildEmbeds(post: FacebookPost, title = '📈 TRADE ALERT', color = 0x1877f2): DiscordEmbed[] {
   const embed: DiscordEmbed = {
     title,
-    color: 0x1877f2, // Facebook blue
+    color,
   };
 
   if (post.permalink_url) {
@@ -57,51 +143,150 @@ export function buildEmbed(post: FacebookPost, title = '📈 TRADE ALERT'): Disc
     embed.timestamp = post.created_time;
   }
 
-  const imageAttachment = post.attachments?.data?.find(
-    (a) => a.media_type === 'photo' || a.media?.image?.src
-  );
-  if (imageAttachment?.media?.image?.src) {
-    embed.image = { url: imageAttachment.media.image.src };
-  } else if (imageAttachment?.url) {
-    embed.image = { url: imageAttachment.url };
+  const fields = buildSignalFields(parseSignals(post.message));
+  if (fields.length > 0) {
+    embed.fields = fields;
   }
 
-  return embed;
+  const { images, videos, links } = extractMedia(post.attachments?.data);
+
+  if (videos.length > 0) {
+    embed.description = videos
+      .map((video, i) => `▶️ [Watch the video${videos.length > 1 ? ` (${i + 1})` : ''}](${video.url})`)
+      .join('\n');
+  }
+
+  const cover = images[0] ?? videos.find((video) => video.thumbnailUrl)?.thumbnailUrl;
+  if (cover) {
+    embed.image = { url: cover };
+  }
+
+  const embeds = [embed];
+
+  // Without a shared URL Discord would show each image as a separate card
+  if (embed.url) {
+    for (const url of images.slice(1, MAX_GALLERY_IMAGES)) {
+      embeds.push({ url: embed.url, image: { url } });
+    }
+  }
+
+  for (const link of links) {
+    embeds.push({
+      title: truncate(link.title || link.url, 256),
+      url: link.url,
+      description: link.description ? truncate(link.description, 350) : undefined,
+      color,
+      thumbnail: link.imageUrl ? { url: link.imageUrl } : undefined,
+    });
+  }
+
+  return embeds.slice(0, MAX_EMBEDS);
 }
 
 /**
- * Determine which webhook URL to use based on post content
+ * Determine which route (webhook + presentation) to use based on post content
  */
-export function resolveWebhook(post: FacebookPost): { url: string; label: string; title: string } {
-  const message = post.message || '';
-
-  const routed = findRoutedChannel(message);
+export function resolveWebhook(post: FacebookPost, routing: RoutingConfig = getRoutingConfig()): ResolvedRoute {
+  const routed = findRoutedChannel(post.message, routing);
   if (routed) {
-    let title = '📈 TRADE ALERT';
-    if (routed.tag === '#stockmarketnews') {
-      title = '📰 STOCK MARKET NEWS';
-    } else if (routed.tag === '#stockstowatch') {
-      title = '👀 STOCKS TO WATCH';
+    log.info({ postId: post.id, route: routed.name }, 'Routing to channel-specific webhook');
+    return routed;
+  }
+
+  return routing.defaultRoute;
+}
+
+/**
+ * Determine every destination for a post
+ * One route normally; every matching rule when fan-out is enabled
+ */
+export function resolveWebhooks(post: FacebookPost, routing: RoutingConfig = getRoutingConfig()): ResolvedRoute[] {
+  if (!routing.fanOut) {
+    return [resolveWebhook(post, routing)];
+  }
+
+  const routed = findRoutedChannels(post.message, routing);
+  if (routed.length > 0) {
+    log.info({ postId: post.id, routes: routed.map((r) => r.name) }, 'Fanning out to channel-specific webhooks');
+    return routed;
+  }
+
+  return [routing.defaultRoute];
+}
+
+/**
+ * Extract the webhook ID from a Discord webhook URL
+ * Identifies which webhook owns a message without storing the secret token
+ */
+export function getWebhookId(webhookUrl: string): string | undefined {
+  return webhookUrl.match(/\/webhooks\/([^/]+)\//)?.[1];
+}
+
+/**
+ * Read a route's webhook URL, resolving a "secret:<name>" reference
+ * Returns a failed SendResult if the secret is missing or cannot be decrypted
+ */
+async function resolveWebhookUrl(webhookUrl: string, channelLabel: string): Promise<string | SendResult> {
+  try {
+    return await resolveSecret(webhookUrl);
+  } catch (err) {
+    if (err instanceof SecretError) {
+      log.error({ channel: channelLabel, error: err.message }, 'Webhook URL unavailable');
+      return { success: false, error: `Webhook URL unavailable: ${err.message}`, retryable: false, channel: channelLabel };
     }
+    throw err;
+  }
+}
 
-    log.info({ postId: post.id, routedTag: routed.tag }, 'Routing to channel-specific webhook');
-    return { url: routed.webhookUrl, label: routed.tag, title };
+/**
+ * Find the route a delivery was sent through, for editing or retracting its message
+ * Returns null if the route was removed or now points at a different webhook —
+ * webhooks can only touch their own messages
+ */
+export async function resolveDeliveryRoute(
+  delivery: { destination: string; webhookId: string | null },
+  routing: RoutingConfig = getRoutingConfig()
+): Promise<ResolvedRoute | null> {
+  const route =
+    delivery.destination === routing.defaultRoute.name
+      ? routing.defaultRoute
+      : routing.routes.find((r) => r.name === delivery.destination);
+
+  if (!route) {
+    return null;
   }
+  if (delivery.webhookId) {
+    const webhookUrl = await resolveWebhookUrl(route.webhookUrl, route.name);
+    if (typeof webhookUrl !== 'string' || getWebhookId(webhookUrl) !== delivery.webhookId) {
+      return null;
+    }
+  }
+  return route;
+}
 
-  return { url: config.DISCORD_WEBHOOK_URL, label: 'default', title: '📈 TRADE ALERT' };
+/**
+ * Footer marker that identifies the message sent for one delivery
+ * Lets a timed-out send be found in the channel afterwards
+ */
+export function deliveryMarker(deliveryId: string): string {
+  return `ref ${deliveryId}`;
 }
 
 /**
- * Send a Facebook post to Discord via webhook
+ * Build the webhook payload for a Facebook post
  *
  * Message layout (optimized for push notification previews):
  *   Content: Post text first (shows in notification preview)
  *            Disclaimer + role mention at bottom
- *   Embed:   Title (clickable link), image, timestamp
+ *   Embeds:  Title (clickable link), trade signal fields, images, videos and link previews, timestamp,
+ *            delivery marker in the first embed's footer
  */
-export async function sendToDiscord(post: FacebookPost): Promise<SendResult> {
-  const { url: webhookUrl, label: channelLabel, title } = resolveWebhook(post);
-  const embed = buildEmbed(post, title);
+export function buildPayload(post: FacebookPost, route: ResolvedRoute, marker?: string): DiscordWebhookPayload {
+  const embeds = buildEmbeds(post, route.title, route.color);
+  const [embed] = embeds;
+  if (marker) {
+    embed.footer = { text: embed.footer ? `${embed.footer.text} · ${marker}` : marker };
+  }
 
   const contentParts: string[] = [];
 
@@ -117,20 +302,20 @@ export async function sendToDiscord(post: FacebookPost): Promise<SendResult> {
   }
 
   // Disclaimer
-  if (config.DISCORD_DISCLAIMER) {
-    contentParts.push(`*${config.DISCORD_DISCLAIMER}*`);
+  if (route.disclaimer) {
+    contentParts.push(`*${route.disclaimer}*`);
   }
 
   // Role mention at the BOTTOM (still triggers notification, but doesn't eat preview space)
-  if (config.DISCORD_MENTION_ROLE_ID) {
-    contentParts.push(`<@&${config.DISCORD_MENTION_ROLE_ID}>`);
+  if (route.mentionRoleId) {
+    contentParts.push(`<@&${route.mentionRoleId}>`);
   }
 
   const payload: DiscordWebhookPayload = {
-    embeds: [embed],
+    embeds,
     allowed_mentions: {
       parse: [],
-      roles: config.DISCORD_MENTION_ROLE_ID ? [config.DISCORD_MENTION_ROLE_ID] : [],
+      roles: route.mentionRoleId ? [route.mentionRoleId] : [],
     },
   };
 
@@ -138,77 +323,373 @@ export async function sendToDiscord(post: FacebookPost): Promise<SendResult> {
     payload.content = contentParts.join('\n');
   }
 
-  const url = new URL(webhookUrl);
-  if (config.DISCORD_WEBHOOK_WAIT) {
-    url.searchParams.set('wait', 'true');
+  return payload;
+}
+
+/**
+ * Execute a webhook request within the webhook's rate limit bucket
+ * Shared by the initial POST and later PATCH (edit) / DELETE (retract) requests,
+ * which all draw from the same bucket and report its state back
+ */
+async function executeWebhookRequest(
+  method: 'POST' | 'PATCH' | 'DELETE',
+  url: URL,
+  payload: DiscordWebhookPayload | undefined,
+  postId: string,
+  channelLabel: string,
+  expectBody: boolean
+): Promise<SendResult> {
+  const webhookId = getWebhookId(url.toString());
+  if (webhookId) {
+    const waitMs = await waitForSendSlot(webhookId, channelLabel);
+    if (waitMs > 0) {
+      log.info({ postId, method, channel: channelLabel, retryAfterMs: waitMs }, 'Rate limit bucket empty, request deferred');
+      discordSendsDelayed.inc({ destination: channelLabel, action: 'rescheduled' });
+      return { success: false, error: 'Rate limit bucket empty', retryable: true, retryAfterMs: waitMs, channel: channelLabel, webhookId };
+    }
   }
 
-  log.debug({ postId: post.id, channel: channelLabel }, 'Sending to Discord webhook');
+  const result = await requestWebhook(method, url, payload, postId, channelLabel, expectBody);
+  if (webhookId && result.rateLimit) {
+    await recordRateLimit(webhookId, result.rateLimit);
+  }
+  return result;
+}
 
+/**
+ * Make one webhook request and map the response to a SendResult
+ */
+async function requestWebhook(
+  method: 'POST' | 'PATCH' | 'DELETE',
+  url: URL,
+  payload: DiscordWebhookPayload | undefined,
+  postId: string,
+  channelLabel: string,
+  expectBody: boolean
+): Promise<SendResult> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 30000);
 
   try {
     const response = await fetch(url.toString(), {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
+      method,
+      headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+      body: payload ? JSON.stringify(payload) : undefined,
       signal: controller.signal,
     });
 
     clearTimeout(timeout);
+    const rateLimit = parseRateLimitHeaders(response.headers);
 
     if (response.status === 429) {
-      const retryAfter = response.headers.get('retry-after');
-      const retryAfterMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 5000;
-      log.warn({ postId: post.id, retryAfterMs, channel: channelLabel }, 'Discord rate limited');
-      return { success: false, error: 'Rate limited', retryable: true, retryAfterMs, channel: channelLabel };
+      const retryAfterMs = rateLimit?.retryAfterMs ?? 5000;
+      log.warn({ postId, retryAfterMs, global: rateLimit?.global, channel: channelLabel }, 'Discord rate limited');
+      discordErrors.inc({ status: '429' });
+      return {
+        success: false,
+        error: 'Rate limited',
+        retryable: true,
+        retryAfterMs,
+        channel: channelLabel,
+        httpStatus: 429,
+        rateLimit: { ...rateLimit, retryAfterMs },
+      };
     }
 
     if (!response.ok) {
       const error = await response.text();
-      log.error({ postId: post.id, status: response.status, error, channel: channelLabel }, 'Discord webhook error');
-      return { success: false, error: `HTTP ${response.status}: ${error}`, retryable: response.status >= 500, channel: channelLabel };
+      log.error({ postId, status: response.status, error, channel: channelLabel }, 'Discord webhook error');
+      discordErrors.inc({ status: String(response.status) });
+      return {
+        success: false,
+        error: `HTTP ${response.status}: ${error}`,
+        retryable: response.status >= 500,
+        channel: channelLabel,
+        httpStatus: response.status,
+        rateLimit,
+      };
     }
 
     let messageId: string | undefined;
-    if (config.DISCORD_WEBHOOK_WAIT) {
+    if (expectBody) {
       try {
         const data = await response.json() as { id?: string };
         messageId = data.id;
       } catch { /* empty */ }
     }
 
-    log.info({ postId: post.id, messageId, channel: channelLabel }, 'Successfully sent to Discord');
-    return { success: true, messageId, channel: channelLabel };
+    return { success: true, messageId, channel: channelLabel, httpStatus: response.status, rateLimit };
   } catch (err) {
     clearTimeout(timeout);
 
     if (err instanceof Error && err.name === 'AbortError') {
-      log.error({ postId: post.id, channel: channelLabel }, 'Discord request timed out - delivery status unknown');
+      log.error({ postId, channel: channelLabel }, 'Discord request timed out - delivery status unknown');
+      discordErrors.inc({ status: 'timeout' });
       return { success: false, error: 'Request timed out - delivery status unknown', retryable: false, ambiguous: true, channel: channelLabel };
     }
 
-    log.error({ postId: post.id, error: err, channel: channelLabel }, 'Network error sending to Discord');
+    log.error({ postId, error: err, channel: channelLabel }, 'Network error sending to Discord');
+    discordErrors.inc({ status: 'network' });
     return { success: false, error: err instanceof Error ? err.message : 'Unknown network error', retryable: true, channel: channelLabel };
   }
 }
 
 /**
- * Test the Discord webhook is valid
+ * Wait for a slot in the webhook's rate limit bucket (shared by all workers)
+ * Short waits happen here; returns the remaining milliseconds if the bucket resets later than that
+ */
+async function waitForSendSlot(webhookId: string, channelLabel: string): Promise<number> {
+  let waitMs = await reserveSendSlot(webhookId);
+  if (waitMs > 0 && waitMs <= INLINE_WAIT_MS) {
+    discordSendsDelayed.inc({ destination: channelLabel, action: 'waited' });
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+    waitMs = await reserveSendSlot(webhookId);
+  }
+  return waitMs;
+}
+
+/**
+ * Send a Facebook post to Discord via webhook
+ * Uses the given route, or resolves one from the post's tags.
+ * Nothing is sent while the webhook's rate limit bucket is empty: the result is
+ * retryable with retryAfterMs set to when it resets.
+ */
+export async function sendToDiscord(post: FacebookPost, route = resolveWebhook(post), marker?: string): Promise<SendResult> {
+  const channelLabel = route.name;
+  const payload = buildPayload(post, route, marker);
+
+  const webhookUrl = await resolveWebhookUrl(route.webhookUrl, channelLabel);
+  if (typeof webhookUrl !== 'string') {
+    return webhookUrl;
+  }
+
+  const url = new URL(webhookUrl);
+  if (config.DISCORD_WEBHOOK_WAIT) {
+    url.searchParams.set('wait', 'true');
+  }
+
+  log.debug({ postId: post.id, channel: channelLabel }, 'Sending to Discord webhook');
+
+  const result = await executeWebhookRequest('POST', url, payload, post.id, channelLabel, config.DISCORD_WEBHOOK_WAIT);
+  if (result.success) {
+    log.info({ postId: post.id, messageId: result.messageId, channel: channelLabel }, 'Successfully sent to Discord');
+  }
+  return { ...result, webhookId: getWebhookId(webhookUrl) };
+}
+
+/**
+ * Edit an already-delivered Discord message to match the latest post content
+ *
+ * The route (webhook, title) must be the one the original message was sent
+ * through — webhooks can only edit their own messages.
  */
-export async function testWebhook(): Promise<boolean> {
+export async function editDiscordMessage(
+  post: FacebookPost,
+  messageId: string,
+  route: ResolvedRoute,
+  marker?: string
+): Promise<SendResult> {
+  const payload = buildPayload(post, route, marker);
+  const webhookUrl = await resolveWebhookUrl(route.webhookUrl, route.name);
+  if (typeof webhookUrl !== 'string') {
+    return webhookUrl;
+  }
+  const url = new URL(`${webhookUrl.replace(/\/+$/, '')}/messages/${messageId}`);
+
+  log.debug({ postId: post.id, messageId, channel: route.name }, 'Editing Discord message');
+
+  const result = await executeWebhookRequest('PATCH', url, payload, post.id, route.name, false);
+  if (result.success) {
+    log.info({ postId: post.id, messageId, channel: route.name }, 'Successfully edited Discord message');
+    return { ...result, messageId };
+  }
+
+  // A timed-out PATCH is safe to repeat, so it is never ambiguous
+  if (result.ambiguous) {
+    return { ...result, ambiguous: false, retryable: true };
+  }
+  return result;
+}
+
+/**
+ * Look for the message a delivery sent, by the marker in its embed footer
+ *
+ * Reads the webhook's channel through DISCORD_BOT_TOKEN (the bot needs View Channel
+ * and Read Message History). Only messages posted by the route's webhook count.
+ */
+export async function findDeliveredMessage(route: ResolvedRoute, marker: string): Promise<MessageLookupResult> {
+  if (!config.DISCORD_BOT_TOKEN) {
+    return { success: false, error: 'DISCORD_BOT_TOKEN not set' };
+  }
+
+  const webhookUrl = await resolveWebhookUrl(route.webhookUrl, route.name);
+  if (typeof webhookUrl !== 'string') {
+    return { success: false, error: webhookUrl.error };
+  }
+
+  let botToken: string;
+  try {
+    botToken = await resolveSecret(config.DISCORD_BOT_TOKEN);
+  } catch (err) {
+    if (err instanceof SecretError) {
+      return { success: false, error: `Bot token unavailable: ${err.message}` };
+    }
+    throw err;
+  }
+
+  try {
+    // The webhook knows its channel; the message list needs the bot
+    const webhookId = getWebhookId(webhookUrl);
+    if (webhookId && (await waitForSendSlot(webhookId, route.name)) > 0) {
+      return { success: false, error: 'Rate limit bucket empty' };
+    }
+    const hookResponse = await fetch(webhookUrl, { signal: AbortSignal.timeout(10000) });
+    const rateLimit = parseRateLimitHeaders(hookResponse.headers);
+    if (webhookId && rateLimit) {
+      await recordRateLimit(webhookId, rateLimit);
+    }
+    if (!hookResponse.ok) {
+      discordErrors.inc({ status: String(hookResponse.status) });
+      return { success: false, error: `Webhook lookup failed: HTTP ${hookResponse.status}` };
+    }
+    const hook = await hookResponse.json() as { id: string; channel_id: string };
+
+    const response = await fetch(
+      `https://discord.com/api/v10/channels/${hook.channel_id}/messages?limit=${LOOKUP_MESSAGE_LIMIT}`,
+      { headers: { Authorization: `Bot ${botToken}` }, signal: AbortSignal.timeout(10000) }
+    );
+    if (!response.ok) {
+      log.error({ channel: route.name, status: response.status }, 'Reading Discord channel failed');
+      discordErrors.inc({ status: String(response.status) });
+      return { success: false, error: `Reading channel failed: HTTP ${response.status}` };
+    }
+
+    const messages = await response.json() as Array<{
+      id: string;
+      webhook_id?: string;
+      embeds?: Array<{ footer?: { text?: string } }>;
+    }>;
+    const match = messages.find(
+      (message) =>
+        message.webhook_id === hook.id &&
+        message.embeds?.some((embed) => embed.footer?.text?.endsWith(marker))
+    );
+
+    log.info({ channel: route.name, marker, messageId: match?.id, searched: messages.length }, 'Looked up delivered message');
+    return { success: true, messageId: match?.id };
+  } catch (err) {
+    log.error({ channel: route.name, error: err }, 'Failed to look up Discord message');
+    discordErrors.inc({ status: 'network' });
+    return { success: false, error: err instanceof Error ? err.message : 'Unknown network error' };
+  }
+}
+
+/**
+ * Retract a delivered Discord message after the Facebook post was removed
+ *
+ * Depending on DISCORD_RETRACT_MODE the message is either deleted or
+ * replaced with DISCORD_RETRACTED_NOTICE. A message that is already gone
+ * counts as successfully retracted.
+ */
+export async function retractDiscordMessage(
+  postId: string,
+  messageId: string,
+  route: ResolvedRoute
+): Promise<SendResult> {
+  const webhookUrl = await resolveWebhookUrl(route.webhookUrl, route.name);
+  if (typeof webhookUrl !== 'string') {
+    return webhookUrl;
+  }
+  const url = new URL(`${webhookUrl.replace(/\/+$/, '')}/messages/${messageId}`);
+  const mode = config.DISCORD_RETRACT_MODE;
+
+  log.debug({ postId, messageId, channel: route.name, mode }, 'Retracting Discord message');
+
+  const result =
+    mode === 'delete'
+      ? await executeWebhookRequest('DELETE', url, undefined, postId, route.name, false)
+      : await executeWebhookRequest(
+          'PATCH',
+          url,
+          { content: config.DISCORD_RETRACTED_NOTICE, embeds: [], allowed_mentions: { parse: [] } },
+          postId,
+          route.name,
+          false
+        );
+
+  if (result.success || result.httpStatus === 404) {
+    log.info({ postId, messageId, channel: route.name, mode }, 'Discord message retracted');
+    return { success: true, messageId, channel: route.name, httpStatus: result.httpStatus };
+  }
+
+  // Both DELETE and PATCH are safe to repeat, so a timeout is never ambiguous
+  if (result.ambiguous) {
+    return { ...result, ambiguous: false, retryable: true };
+  }
+  return result;
+}
+
+/**
+ * Post an operator notice to OPS_WEBHOOK_URL
+ * Dedup and rate limiting live in ops-alerts.ts — call notifyOps rather than this
+ */
+export async function sendOpsAlert(payload: DiscordWebhookPayload): Promise<SendResult> {
+  if (!config.OPS_WEBHOOK_URL) {
+    return { success: false, error: 'OPS_WEBHOOK_URL not set' };
+  }
+
+  const webhookUrl = await resolveWebhookUrl(config.OPS_WEBHOOK_URL, 'ops');
+  if (typeof webhookUrl !== 'string') {
+    return webhookUrl;
+  }
+
+  const result = await executeWebhookRequest('POST', new URL(webhookUrl), payload, 'ops', 'ops', false);
+  if (!result.success) {
+    log.error({ error: result.error }, 'Failed to post ops alert');
+  }
+  return result;
+}
+
+/**
+ * Post an approval request to the approvers channel (APPROVAL_WEBHOOK_URL)
+ */
+export async function sendApprovalRequest(postId: string, payload: DiscordWebhookPayload): Promise<SendResult> {
+  if (!config.APPROVAL_WEBHOOK_URL) {
+    return { success: false, error: 'APPROVAL_WEBHOOK_URL not set', retryable: false };
+  }
+
+  const webhookUrl = await resolveWebhookUrl(config.APPROVAL_WEBHOOK_URL, 'approvals');
+  if (typeof webhookUrl !== 'string') {
+    return webhookUrl;
+  }
+
+  const result = await executeWebhookRequest('POST', new URL(webhookUrl), payload, postId, 'approvals', false);
+  if (!result.success) {
+    log.error({ postId, error: result.error }, 'Failed to post approval request');
+  }
+  return result;
+}
+
+/**
+ * Test a Discord webhook is valid (defaults to DISCORD_WEBHOOK_URL)
+ */
+export async function testWebhook(webhookUrl = config.DISCORD_WEBHOOK_URL, label = 'default'): Promise<boolean> {
+  const resolved = await resolveWebhookUrl(webhookUrl, label);
+  if (typeof resolved !== 'string') {
+    return false;
+  }
+
   try {
-    const response = await fetch(config.DISCORD_WEBHOOK_URL);
+    const response = await fetch(resolved);
     if (!response.ok) {
-      log.error({ status: response.status }, 'Discord webhook verification failed');
+      log.error({ status: response.status, channel: label }, 'Discord webhook verification failed');
       return false;
     }
     const data = await response.json() as { name?: string; channel_id?: string };
-    log.info({ name: data.name, channelId: data.channel_id }, 'Discord webhook verified');
+    log.info({ name: data.name, channelId: data.channel_id, channel: label }, 'Discord webhook verified');
     return true;
   } catch (err) {
-    log.error({ error: err }, 'Failed to verify Discord webhook');
+    log.error({ error: err, channel: label }, 'Failed to verify Discord webhook');
     return false;
   }
 }
@@ -1,9 +1,45 @@
 import { config } from '../config.js';
 import { generateAppSecretProof } from '../utils/signature.js';
 import { logger } from '../logger.js';
+import { resolveSecret, SecretError } from './secrets.js';
+import { graphErrors } from '../metrics.js';
+import { recordFailure } from './ops-alerts.js';
 
 const log = logger.child({ service: 'facebook' });
 
+/**
+ * One attachment of a post, as returned by the Graph API
+ * Albums list their photos (and videos) in subattachments
+ */
+export interface FacebookAttachment {
+  /** photo, album, video, link, ... */
+  media_type?: string;
+  /** Finer-grained kind, e.g. share, video_inline, animated_image_share */
+  type?: string;
+  /** Where the attachment leads; for shared links a l.facebook.com redirect */
+  url?: string;
+  /** The shared link itself, without Facebook's redirect */
+  unshimmed_url?: string;
+  title?: string;
+  description?: string;
+  media?: {
+    image?: {
+      src: string;
+      width?: number;
+      height?: number;
+    };
+    /** Video file URL (videos only) */
+    source?: string;
+  };
+  target?: {
+    id?: string;
+    url?: string;
+  };
+  subattachments?: {
+    data: FacebookAttachment[];
+  };
+}
+
 export interface FacebookPost {
   id: string;
   message?: string;
@@ -14,38 +50,70 @@ export interface FacebookPost {
     name: string;
   };
   attachments?: {
-    data: Array<{
-      media_type?: string;
-      url?: string;
-      media?: {
-        image?: {
-          src: string;
-        };
-      };
-    }>;
+    data: FacebookAttachment[];
   };
 }
 
+/**
+ * Count a failed Graph request for metrics and ops spike detection
+ */
+function recordGraphError(status: string): void {
+  graphErrors.inc({ status });
+  void recordFailure('graph_errors', { lastStatus: status });
+}
+
+/**
+ * The page a Graph API call acts as
+ */
+export interface PageCredentials {
+  id: string;
+  accessToken: string;
+}
+
 export interface FetchPostResult {
   success: boolean;
   post?: FacebookPost;
   error?: string;
   retryable?: boolean;
+  /** Graph says the post does not exist (deleted, or hidden from the page) */
+  notFound?: boolean;
 }
 
 /**
- * Fetch a post from the Facebook Graph API
+ * Read the page's token, resolving a "secret:<name>" reference
+ * Returns null (and logs) if the secret is missing or cannot be decrypted
  */
-export async function fetchPost(postId: string): Promise<FetchPostResult> {
-  const fields = 'id,message,permalink_url,created_time,from,attachments{media_type,url,media}';
-  const appSecretProof = generateAppSecretProof(config.META_PAGE_ACCESS_TOKEN);
+async function resolvePageToken(page: PageCredentials): Promise<string | null> {
+  try {
+    return await resolveSecret(page.accessToken);
+  } catch (err) {
+    if (err instanceof SecretError) {
+      log.error({ pageId: page.id, error: err.message }, 'Page access token unavailable');
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Fetch a post from the Facebook Graph API using the owning page's token
+ */
+export async function fetchPost(postId: string, page: PageCredentials): Promise<FetchPostResult> {
+  const accessToken = await resolvePageToken(page);
+  if (!accessToken) {
+    return { success: false, error: 'Page access token unavailable', retryable: false };
+  }
+
+  const attachmentFields = 'media_type,type,url,unshimmed_url,title,description,media,target';
+  const fields = `id,message,permalink_url,created_time,from,attachments{${attachmentFields},subattachments{${attachmentFields}}}`;
+  const appSecretProof = generateAppSecretProof(accessToken);
 
   const url = new URL(`https://graph.facebook.com/${config.META_GRAPH_VERSION}/${postId}`);
   url.searchParams.set('fields', fields);
-  url.searchParams.set('access_token', config.META_PAGE_ACCESS_TOKEN);
+  url.searchParams.set('access_token', accessToken);
   url.searchParams.set('appsecret_proof', appSecretProof);
 
-  log.debug({ postId, url: url.toString().replace(/access_token=[^&]+/, 'access_token=***') }, 'Fetching post from Graph API');
+  log.debug({ postId, url: url.toString() }, 'Fetching post from Graph API');
 
   try {
     const response = await fetch(url.toString(), {
@@ -55,11 +123,12 @@ export async function fetchPost(postId: string): Promise<FetchPostResult> {
       },
     });
 
-    const data = await response.json() as FacebookPost & { error?: { code?: number; message?: string } };
+    const data = await response.json() as FacebookPost & { error?: { code?: number; error_subcode?: number; message?: string } };
 
     if (!response.ok) {
       const error = data.error;
       log.warn({ postId, error }, 'Graph API error');
+      recordGraphError(String(response.status));
 
       // Check if retryable
       // Common codes: 1 = unknown, 2 = temporary, 4 = rate limit, 17 = rate limit
@@ -70,12 +139,14 @@ export async function fetchPost(postId: string): Promise<FetchPostResult> {
         success: false,
         error: error?.message || `HTTP ${response.status}`,
         retryable: isRetryable || response.status >= 500,
+        // 100/33: "Object with ID ... does not exist"
+        notFound: response.status === 404 || (error?.code === 100 && error?.error_subcode === 33),
       };
     }
 
     // Validate the post is from our page
-    if (data.from?.id !== config.META_PAGE_ID) {
-      log.warn({ postId, authorId: data.from?.id, pageId: config.META_PAGE_ID }, 'Post not from configured page');
+    if (data.from?.id !== page.id) {
+      log.warn({ postId, authorId: data.from?.id, pageId: page.id }, 'Post not from configured page');
       return {
         success: false,
         error: 'Post not from configured page',
@@ -91,6 +162,7 @@ export async function fetchPost(postId: string): Promise<FetchPostResult> {
     };
   } catch (err) {
     log.error({ postId, error: err }, 'Network error fetching post');
+    recordGraphError('network');
     return {
       success: false,
       error: err instanceof Error ? err.message : 'Unknown network error',
@@ -99,27 +171,222 @@ export async function fetchPost(postId: string): Promise<FetchPostResult> {
   }
 }
 
+export interface FetchFeedResult {
+  success: boolean;
+  posts?: FacebookPost[];
+  error?: string;
+}
+
+/**
+ * List the page's feed between two times (newest first), following Graph paging
+ */
+export async function fetchFeed(page: PageCredentials, since: Date, until: Date): Promise<FetchFeedResult> {
+  const accessToken = await resolvePageToken(page);
+  if (!accessToken) {
+    return { success: false, error: 'Page access token unavailable' };
+  }
+
+  const url = new URL(`https://graph.facebook.com/${config.META_GRAPH_VERSION}/${page.id}/feed`);
+  url.searchParams.set('fields', 'id,message,permalink_url,created_time,from');
+  url.searchParams.set('since', String(Math.floor(since.getTime() / 1000)));
+  url.searchParams.set('until', String(Math.floor(until.getTime() / 1000)));
+  url.searchParams.set('limit', '100');
+  url.searchParams.set('access_token', accessToken);
+  url.searchParams.set('appsecret_proof', generateAppSecretProof(accessToken));
+
+  const posts: FacebookPost[] = [];
+  let next: string | undefined = url.toString();
+
+  try {
+    while (next) {
+      const response = await fetch(next, { headers: { 'Accept': 'application/json' } });
+      const body = await response.json() as {
+        data?: FacebookPost[];
+        paging?: { next?: string };
+        error?: { message?: string };
+      };
+
+      if (!response.ok) {
+        log.warn({ pageId: page.id, error: body.error }, 'Graph API error reading feed');
+        recordGraphError(String(response.status));
+        return { success: false, error: body.error?.message || `HTTP ${response.status}` };
+      }
+
+      posts.push(...(body.data ?? []));
+      // An empty page means we are past the window, whatever paging says
+      next = body.data?.length ? body.paging?.next : undefined;
+    }
+  } catch (err) {
+    log.error({ pageId: page.id, error: err }, 'Network error reading feed');
+    recordGraphError('network');
+    return { success: false, error: err instanceof Error ? err.message : 'Unknown network error' };
+  }
+
+  log.info({ pageId: page.id, count: posts.length }, 'Fetched page feed');
+  return { success: true, posts };
+}
+
 /**
  * Verify the page access token is valid and has required permissions
  */
-export async function verifyPageAccess(): Promise<boolean> {
-  const url = new URL(`https://graph.facebook.com/${config.META_GRAPH_VERSION}/${config.META_PAGE_ID}`);
+export async function verifyPageAccess(page: PageCredentials): Promise<boolean> {
+  const accessToken = await resolvePageToken(page);
+  if (!accessToken) {
+    return false;
+  }
+
+  const url = new URL(`https://graph.facebook.com/${config.META_GRAPH_VERSION}/${page.id}`);
   url.searchParams.set('fields', 'id,name');
-  url.searchParams.set('access_token', config.META_PAGE_ACCESS_TOKEN);
+  url.searchParams.set('access_token', accessToken);
 
   try {
     const response = await fetch(url.toString());
     const data = await response.json() as { id?: string; name?: string; error?: unknown };
 
     if (!response.ok) {
-      log.error({ error: data.error }, 'Failed to verify page access');
+      log.error({ pageId: page.id, error: data.error }, 'Failed to verify page access');
+      recordGraphError(String(response.status));
       return false;
     }
 
     log.info({ pageId: data.id, pageName: data.name }, 'Page access verified');
     return true;
   } catch (err) {
-    log.error({ error: err }, 'Network error verifying page access');
+    log.error({ pageId: page.id, error: err }, 'Network error verifying page access');
+    recordGraphError('network');
     return false;
   }
 }
+
+/**
+ * debug_token result for a page access token
+ * Timestamps are converted from Graph's unix seconds; 0 ("never") becomes null
+ */
+export interface TokenDebugInfo {
+  valid: boolean;
+  expiresAt: Date | null;
+  dataAccessExpiresAt: Date | null;
+  scopes: string[];
+  error?: string;
+}
+
+export interface DebugTokenResult {
+  success: boolean;
+  info?: TokenDebugInfo;
+  error?: string;
+}
+
+/**
+ * App access token ("app_id|app_secret") used for debug_token
+ */
+function appAccessToken(): string | null {
+  return config.META_APP_ID ? `${config.META_APP_ID}|${config.META_APP_SECRET}` : null;
+}
+
+const fromUnixSeconds = (seconds: number | undefined): Date | null =>
+  seconds ? new Date(seconds * 1000) : null;
+
+/**
+ * Inspect a token (or "secret:<name>" reference) with the Graph debug_token endpoint (requires META_APP_ID)
+ */
+export async function debugToken(accessToken: string): Promise<DebugTokenResult> {
+  const appToken = appAccessToken();
+  if (!appToken) {
+    return { success: false, error: 'META_APP_ID is not set' };
+  }
+
+  let inputToken: string;
+  try {
+    inputToken = await resolveSecret(accessToken);
+  } catch (err) {
+    if (err instanceof SecretError) {
+      return { success: false, error: err.message };
+    }
+    throw err;
+  }
+
+  const url = new URL(`https://graph.facebook.com/${config.META_GRAPH_VERSION}/debug_token`);
+  url.searchParams.set('input_token', inputToken);
+  url.searchParams.set('access_token', appToken);
+
+  try {
+    const response = await fetch(url.toString());
+    const body = await response.json() as {
+      data?: {
+        is_valid?: boolean;
+        expires_at?: number;
+        data_access_expires_at?: number;
+        scopes?: string[];
+        error?: { message?: string };
+      };
+      error?: { message?: string };
+    };
+
+    if (!response.ok || !body.data) {
+      log.warn({ error: body.error }, 'debug_token request failed');
+      recordGraphError(String(response.status));
+      return { success: false, error: body.error?.message || `HTTP ${response.status}` };
+    }
+
+    return {
+      success: true,
+      info: {
+        valid: body.data.is_valid === true,
+        expiresAt: fromUnixSeconds(body.data.expires_at),
+        dataAccessExpiresAt: fromUnixSeconds(body.data.data_access_expires_at),
+        scopes: body.data.scopes ?? [],
+        error: body.data.error?.message,
+      },
+    };
+  } catch (err) {
+    log.error({ error: err }, 'Network error inspecting token');
+    recordGraphError('network');
+    return { success: false, error: err instanceof Error ? err.message : 'Unknown network error' };
+  }
+}
+
+/**
+ * Exchange a short-lived user token for a long-lived (~60 day) one, then
+ * read the page's access token with it. Page tokens obtained this way do not expire.
+ */
+export async function exchangeForLongLivedPageToken(
+  pageId: string,
+  shortLivedUserToken: string
+): Promise<{ success: boolean; accessToken?: string; error?: string }> {
+  if (!config.META_APP_ID) {
+    return { success: false, error: 'META_APP_ID is not set' };
+  }
+
+  try {
+    const exchangeUrl = new URL(`https://graph.facebook.com/${config.META_GRAPH_VERSION}/oauth/access_token`);
+    exchangeUrl.searchParams.set('grant_type', 'fb_exchange_token');
+    exchangeUrl.searchParams.set('client_id', config.META_APP_ID);
+    exchangeUrl.searchParams.set('client_secret', config.META_APP_SECRET);
+    exchangeUrl.searchParams.set('fb_exchange_token', shortLivedUserToken);
+
+    const exchangeResponse = await fetch(exchangeUrl.toString());
+    const exchanged = await exchangeResponse.json() as { access_token?: string; error?: { message?: string } };
+    if (!exchangeResponse.ok || !exchanged.access_token) {
+      return { success: false, error: exchanged.error?.message || `Token exchange failed (HTTP ${exchangeResponse.status})` };
+    }
+
+    const pageUrl = new URL(`https://graph.facebook.com/${config.META_GRAPH_VERSION}/${pageId}`);
+    pageUrl.searchParams.set('fields', 'access_token');
+    pageUrl.searchParams.set('access_token', exchanged.access_token);
+    pageUrl.searchParams.set('appsecret_proof', generateAppSecretProof(exchanged.access_token));
+
+    const pageResponse = await fetch(pageUrl.toString());
+    const page = await pageResponse.json() as { access_token?: string; error?: { message?: string } };
+    if (!pageResponse.ok || !page.access_token) {
+      return {
+        success: false,
+        error: page.error?.message || `No page access token returned for ${pageId} - does the user manage this page?`,
+      };
+    }
+
+    return { success: true, accessToken: page.access_token };
+  } catch (err) {
+    log.error({ pageId, error: err }, 'Network error exchanging token');
+    return { success: false, error: err instanceof Error ? err.message : 'Unknown network error' };
+  }
+}
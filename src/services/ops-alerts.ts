@@ -0,0 +1,287 @@
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { sendOpsAlert, type DiscordEmbed } from './discord.js';
+import { prisma } from './post-state.js';
+import { resolveSecret } from './secrets.js';
+
+const log = logger.child({ service: 'ops-alerts' });
+
+export type OpsNoticeKind =
+  | 'post_failed'
+  | 'post_needs_review'
+  | 'post_held'
+  | 'edit_needs_approval'
+  | 'retries_exhausted'
+  | 'signature_failures'
+  | 'graph_errors'
+  | 'page_token'
+  | 'webhook_gap';
+
+/**
+ * A structured notice for the ops channel
+ */
+export interface OpsNotice {
+  kind: OpsNoticeKind;
+  /** Repeats of the same key within OPS_ALERT_DEDUP_MINUTES are suppressed */
+  key: string;
+  severity: 'info' | 'warning' | 'critical';
+  title: string;
+  details?: Record<string, string | number | null | undefined>;
+}
+
+export interface NotifyResult {
+  sent: boolean;
+  reason?: 'no_sink' | 'duplicate' | 'rate_limited' | 'send_failed';
+}
+
+/** Counts notices dropped by the hourly limit, reported with the next notice that goes out */
+const RATE_LIMITED_KEY = '__rate_limited';
+
+const SEVERITY_STYLE = {
+  info: { icon: '✅', color: 0x2ecc71 },
+  warning: { icon: '⚠️', color: 0xf1c40f },
+  critical: { icon: '🚨', color: 0xe74c3c },
+};
+
+function buildDiscordPayload(notice: OpsNotice, suppressed: number, rateLimited: number) {
+  const style = SEVERITY_STYLE[notice.severity];
+  const lines = Object.entries(notice.details ?? {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `**${key}:** ${value}`);
+  if (suppressed > 0) lines.push(`*Repeated ${suppressed} more time(s) since the last notice*`);
+  if (rateLimited > 0) lines.push(`*${rateLimited} other notice(s) dropped by the hourly limit*`);
+
+  const embed: DiscordEmbed = { title: notice.kind, color: style.color, timestamp: new Date().toISOString() };
+  if (lines.length > 0) embed.description = lines.join('\n');
+
+  return {
+    content: `${style.icon} ${notice.title}`,
+    embeds: [embed],
+    allowed_mentions: { parse: [] },
+  };
+}
+
+/**
+ * POST the notice as JSON to the generic sink
+ */
+async function sendToSink(url: string, notice: OpsNotice, suppressed: number, rateLimited: number): Promise<boolean> {
+  try {
+    const response = await fetch(await resolveSecret(url), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        service: 'fb-discord-relay',
+        ...notice,
+        suppressed,
+        rateLimited,
+        timestamp: new Date().toISOString(),
+      }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      log.error({ status: response.status, kind: notice.kind }, 'Ops alert sink rejected notice');
+    }
+    return response.ok;
+  } catch (err) {
+    log.error({ error: err instanceof Error ? err.message : err, kind: notice.kind }, 'Failed to reach ops alert sink');
+    return false;
+  }
+}
+
+/**
+ * Send a notice to the ops Discord webhook and/or HTTP sink
+ *
+ * Deduplicated per key across processes (the ops_alerts table) and capped at
+ * OPS_ALERT_MAX_PER_HOUR so an outage cannot flood the channel. Never throws.
+ */
+export async function notifyOps(notice: OpsNotice): Promise<NotifyResult> {
+  if (!config.OPS_WEBHOOK_URL && !config.OPS_ALERT_SINK_URL) {
+    log.warn({ notice }, 'Ops notice (no OPS_WEBHOOK_URL or OPS_ALERT_SINK_URL configured)');
+    return { sent: false, reason: 'no_sink' };
+  }
+
+  try {
+    const now = new Date();
+    const existing = await prisma.opsAlert.findUnique({ where: { key: notice.key } });
+
+    if (existing && now.getTime() - existing.lastSentAt.getTime() < config.OPS_ALERT_DEDUP_MINUTES * 60 * 1000) {
+      await prisma.opsAlert.update({ where: { key: notice.key }, data: { suppressed: { increment: 1 } } });
+      log.debug({ key: notice.key }, 'Ops notice suppressed (duplicate)');
+      return { sent: false, reason: 'duplicate' };
+    }
+
+    const sentLastHour = await prisma.opsAlert.count({
+      where: { lastSentAt: { gt: new Date(now.getTime() - 60 * 60 * 1000) }, key: { not: RATE_LIMITED_KEY } },
+    });
+    if (sentLastHour >= config.OPS_ALERT_MAX_PER_HOUR) {
+      await prisma.opsAlert.upsert({
+        where: { key: RATE_LIMITED_KEY },
+        create: { key: RATE_LIMITED_KEY, kind: 'rate_limited', lastSentAt: new Date(0), suppressed: 1 },
+        update: { suppressed: { increment: 1 } },
+      });
+      log.warn({ notice }, 'Ops notice dropped (hourly limit reached)');
+      return { sent: false, reason: 'rate_limited' };
+    }
+
+    const suppressed = existing?.suppressed ?? 0;
+    const rateLimited = (await prisma.opsAlert.findUnique({ where: { key: RATE_LIMITED_KEY } }))?.suppressed ?? 0;
+
+    let delivered = false;
+    if (config.OPS_WEBHOOK_URL) {
+      const result = await sendOpsAlert(buildDiscordPayload(notice, suppressed, rateLimited));
+      delivered = result.success;
+    }
+    if (config.OPS_ALERT_SINK_URL) {
+      delivered = (await sendToSink(config.OPS_ALERT_SINK_URL, notice, suppressed, rateLimited)) || delivered;
+    }
+    if (!delivered) {
+      return { sent: false, reason: 'send_failed' };
+    }
+
+    await prisma.opsAlert.upsert({
+      where: { key: notice.key },
+      create: { key: notice.key, kind: notice.kind, lastSentAt: now },
+      update: { kind: notice.kind, lastSentAt: now, suppressed: 0 },
+    });
+    if (rateLimited > 0) {
+      await prisma.opsAlert.update({ where: { key: RATE_LIMITED_KEY }, data: { suppressed: 0 } });
+    }
+
+    log.info({ kind: notice.kind, key: notice.key }, 'Ops notice sent');
+    return { sent: true };
+  } catch (err) {
+    log.error({ error: err, notice }, 'Failed to send ops notice');
+    return { sent: false, reason: 'send_failed' };
+  }
+}
+
+/**
+ * Tell ops that a post ended in failed or needs_review — the trader never got that alert
+ */
+export async function notifyPostProblem(
+  fbPostId: string,
+  status: 'failed' | 'needs_review',
+  error: string | undefined,
+  pageId?: string | null
+): Promise<NotifyResult> {
+  const needsReview = status === 'needs_review';
+  return notifyOps({
+    kind: needsReview ? 'post_needs_review' : 'post_failed',
+    key: `${status}:${fbPostId}`,
+    severity: needsReview ? 'warning' : 'critical',
+    title: needsReview
+      ? `Post ${fbPostId} may not have reached Discord — check the channel, then resolve it`
+      : `Post ${fbPostId} failed and was not relayed`,
+    details: {
+      post: fbPostId,
+      page: pageId ?? undefined,
+      error,
+      admin: config.PUBLIC_BASE_URL && config.ADMIN_API_TOKEN ? `${config.PUBLIC_BASE_URL}/admin/posts/${fbPostId}` : undefined,
+    },
+  });
+}
+
+/**
+ * Tell ops that a content filter held a post — it waits until someone releases or dismisses it
+ */
+export async function notifyPostHeld(
+  fbPostId: string,
+  rule: string,
+  reason: string,
+  pageId?: string | null
+): Promise<NotifyResult> {
+  return notifyOps({
+    kind: 'post_held',
+    key: `held:${fbPostId}`,
+    severity: 'warning',
+    title: `Post ${fbPostId} was held by filter "${rule}" — release or dismiss it`,
+    details: {
+      post: fbPostId,
+      page: pageId ?? undefined,
+      reason,
+      admin: config.PUBLIC_BASE_URL && config.ADMIN_API_TOKEN ? `${config.PUBLIC_BASE_URL}/admin/posts/${fbPostId}` : undefined,
+    },
+  });
+}
+
+/**
+ * Tell ops that a post was edited on Facebook but its copies on approval routes were left as approved
+ */
+export async function notifyEditNeedsApproval(
+  fbPostId: string,
+  channels: string[],
+  pageId?: string | null
+): Promise<NotifyResult> {
+  return notifyOps({
+    kind: 'edit_needs_approval',
+    key: `edit_needs_approval:${fbPostId}`,
+    severity: 'warning',
+    title: `Post ${fbPostId} was edited after approval — the Discord copies still show the approved text`,
+    details: {
+      post: fbPostId,
+      page: pageId ?? undefined,
+      channels: channels.join(', '),
+      admin: config.PUBLIC_BASE_URL && config.ADMIN_API_TOKEN ? `${config.PUBLIC_BASE_URL}/admin/posts/${fbPostId}` : undefined,
+    },
+  });
+}
+
+/**
+ * Tell ops that a job used up its pg-boss retries (the stuck-post sweeper picks the post up later)
+ */
+export async function notifyRetriesExhausted(queue: string, fbPostId: string, error: unknown): Promise<NotifyResult> {
+  return notifyOps({
+    kind: 'retries_exhausted',
+    key: `retries_exhausted:${queue}:${fbPostId}`,
+    severity: 'critical',
+    title: `Gave up on ${queue} for post ${fbPostId} after all retries`,
+    details: {
+      post: fbPostId,
+      queue,
+      error: error instanceof Error ? error.message : String(error),
+    },
+  });
+}
+
+const bursts = new Map<OpsNoticeKind, number[]>();
+
+const BURST_NOTICES = {
+  signature_failures: {
+    threshold: () => config.OPS_SIGNATURE_FAILURE_THRESHOLD,
+    title: 'Webhook signature failures are spiking',
+  },
+  graph_errors: {
+    threshold: () => config.OPS_GRAPH_ERROR_THRESHOLD,
+    title: 'Graph API requests keep failing',
+  },
+};
+
+/**
+ * Count a failure towards spike detection (per process)
+ * Sends a notice once the threshold is reached within OPS_BURST_WINDOW_MINUTES
+ */
+export async function recordFailure(
+  kind: keyof typeof BURST_NOTICES,
+  details: Record<string, string | number | undefined> = {}
+): Promise<void> {
+  const now = Date.now();
+  const windowMs = config.OPS_BURST_WINDOW_MINUTES * 60 * 1000;
+  const recent = (bursts.get(kind) ?? []).filter((at) => now - at < windowMs);
+  recent.push(now);
+
+  const { threshold, title } = BURST_NOTICES[kind];
+  if (recent.length < threshold()) {
+    bursts.set(kind, recent);
+    return;
+  }
+
+  // Start a fresh window; the dedup window keeps a sustained outage to one notice
+  bursts.delete(kind);
+  await notifyOps({
+    kind,
+    key: kind,
+    severity: 'critical',
+    title,
+    details: { failures: recent.length, window: `${config.OPS_BURST_WINDOW_MINUTES} min`, ...details },
+  });
+}
@@ -0,0 +1,102 @@
+import type { Page } from '@prisma/client';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { getRoutingConfig, validateRoutingRules, type RoutingConfig } from '../routing.js';
+import { prisma } from './post-state.js';
+
+const log = logger.child({ service: 'pages' });
+
+/**
+ * Everything needed to process posts for one Facebook Page
+ */
+export interface PageContext {
+  id: string;
+  name: string | null;
+  accessToken: string;
+  triggerTag: string;
+  routing: RoutingConfig;
+  /** Configured through META_PAGE_ID / META_PAGE_ACCESS_TOKEN rather than the pages table */
+  fromEnv: boolean;
+}
+
+/**
+ * Build the context for a page row
+ * Pages without their own rules share ROUTING_CONFIG_PATH but keep their own default webhook
+ */
+export function buildPageContext(page: Page): PageContext {
+  let routing: RoutingConfig;
+  if (page.routing !== null) {
+    routing = validateRoutingRules(page.routing, `routing rules for page ${page.id}`, page.discordWebhookUrl);
+  } else {
+    const shared = getRoutingConfig();
+    routing = { ...shared, defaultRoute: { ...shared.defaultRoute, webhookUrl: page.discordWebhookUrl } };
+  }
+
+  return {
+    id: page.id,
+    name: page.name,
+    accessToken: page.accessToken,
+    triggerTag: page.triggerTag ?? config.TRIGGER_TAG,
+    routing,
+    fromEnv: false,
+  };
+}
+
+/**
+ * The page configured in the environment, if any
+ */
+export function getEnvPage(): PageContext | null {
+  if (!config.META_PAGE_ID || !config.META_PAGE_ACCESS_TOKEN) {
+    return null;
+  }
+
+  return {
+    id: config.META_PAGE_ID,
+    name: null,
+    accessToken: config.META_PAGE_ACCESS_TOKEN,
+    triggerTag: config.TRIGGER_TAG,
+    routing: getRoutingConfig(),
+    fromEnv: true,
+  };
+}
+
+/**
+ * Look up a page by its Facebook ID
+ * A row in the pages table takes precedence over the environment page.
+ * Returns null for unknown or disabled pages
+ */
+export async function getPage(pageId: string): Promise<PageContext | null> {
+  const page = await prisma.page.findUnique({ where: { id: pageId } });
+  if (page) {
+    if (!page.enabled) {
+      log.debug({ pageId }, 'Page is disabled');
+      return null;
+    }
+    return buildPageContext(page);
+  }
+
+  const envPage = getEnvPage();
+  return envPage?.id === pageId ? envPage : null;
+}
+
+/**
+ * Get the page a stored post belongs to
+ * Posts recorded before pages were tracked belong to the environment page
+ */
+export async function getPageForPost(post: { pageId: string | null }): Promise<PageContext | null> {
+  return post.pageId ? getPage(post.pageId) : getEnvPage();
+}
+
+/**
+ * List every enabled page (environment page first)
+ */
+export async function listPages(): Promise<PageContext[]> {
+  const rows = await prisma.page.findMany({ where: { enabled: true }, orderBy: { createdAt: 'asc' } });
+  const pages = rows.map(buildPageContext);
+
+  const envPage = getEnvPage();
+  if (envPage && !rows.some((row) => row.id === envPage.id)) {
+    pages.unshift(envPage);
+  }
+  return pages;
+}
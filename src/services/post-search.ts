@@ -0,0 +1,182 @@
+import type { Prisma } from '@prisma/client';
+import { logger } from '../logger.js';
+import { prisma, type Post, type PostStatus } from './post-state.js';
+import { parseSignals, type TradeSignals } from '../utils/signals.js';
+import { extractHashtags, normalizeTag } from '../utils/hashtags.js';
+
+const log = logger.child({ service: 'post-search' });
+
+/**
+ * Alert history filters; every filter given must match
+ */
+export interface PostSearchFilters {
+  /** Any of these tickers, without "$" */
+  tickers?: string[];
+  /** Any of these hashtags */
+  tags?: string[];
+  statuses?: PostStatus[];
+  /** Received at or after */
+  from?: Date;
+  /** Received before */
+  to?: Date;
+}
+
+export interface PostSearchPage {
+  posts: Post[];
+  nextCursor: string | null;
+}
+
+/**
+ * The searchable columns of a post, derived from its message
+ * Written whenever the message is stored, so searches never parse text
+ */
+export function messageIndexFields(message: string | null | undefined): { signals: TradeSignals; tickers: string[]; tags: string[] } {
+  const signals = parseSignals(message);
+  return {
+    signals,
+    tickers: signals.tickers,
+    tags: [...new Set(extractHashtags(message).map((hashtag) => hashtag.tag))],
+  };
+}
+
+/**
+ * Normalize a ticker as written by a user: "$tsla" → "TSLA"
+ */
+export function normalizeTicker(ticker: string): string {
+  return ticker.trim().replace(/^\$/, '').toUpperCase();
+}
+
+function buildWhere(filters: PostSearchFilters): Prisma.PostWhereInput {
+  const where: Prisma.PostWhereInput = {};
+  if (filters.tickers?.length) {
+    where.tickers = { hasSome: filters.tickers.map(normalizeTicker) };
+  }
+  if (filters.tags?.length) {
+    where.tags = { hasSome: filters.tags.map((tag) => normalizeTag(tag.startsWith('#') ? tag : `#${tag}`)) };
+  }
+  if (filters.statuses?.length) {
+    where.status = { in: filters.statuses };
+  }
+  if (filters.from || filters.to) {
+    where.receivedAt = { gte: filters.from, lt: filters.to };
+  }
+  return where;
+}
+
+/**
+ * One page of matching posts, newest first
+ * Pass the returned nextCursor to get the next page
+ */
+export async function searchPosts(filters: PostSearchFilters, limit: number, cursor?: string): Promise<PostSearchPage> {
+  const posts = await prisma.post.findMany({
+    where: buildWhere(filters),
+    orderBy: [{ receivedAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = posts.length > limit;
+  const page = hasMore ? posts.slice(0, limit) : posts;
+  return { posts: page, nextCursor: hasMore ? page[page.length - 1].id : null };
+}
+
+/**
+ * Every matching post, newest first, up to maxRows (fetched in pages)
+ * Returns truncated when more posts matched
+ */
+export async function exportPosts(filters: PostSearchFilters, maxRows: number): Promise<{ posts: Post[]; truncated: boolean }> {
+  const posts: Post[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await searchPosts(filters, Math.min(500, maxRows - posts.length), cursor);
+    posts.push(...page.posts);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && posts.length < maxRows);
+
+  return { posts, truncated: !!cursor };
+}
+
+const CSV_COLUMNS = [
+  'fb_post_id',
+  'received_at',
+  'status',
+  'page_id',
+  'tickers',
+  'tags',
+  'direction',
+  'entry',
+  'targets',
+  'stop',
+  'permalink',
+  'message',
+] as const;
+
+/**
+ * Quote a CSV value, and defuse text that spreadsheets would run as a formula
+ */
+function csvValue(value: string | number | null | undefined): string {
+  let text = value == null ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render posts as CSV (RFC 4180, header row first)
+ */
+export function postsToCsv(posts: Post[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const post of posts) {
+    const signals = (post.signals ?? {}) as Partial<TradeSignals>;
+    lines.push(
+      [
+        post.fbPostId,
+        post.receivedAt.toISOString(),
+        post.status,
+        post.pageId,
+        post.tickers.join(' '),
+        post.tags.join(' '),
+        signals.direction,
+        signals.entry,
+        signals.targets?.join(' '),
+        signals.stop,
+        post.permalink,
+        post.message,
+      ]
+        .map(csvValue)
+        .join(',')
+    );
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Fill the search columns of posts stored before they existed (or after a parser change)
+ * Returns the number of posts updated
+ */
+export async function reindexPosts(batchSize = 500): Promise<number> {
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const posts = await prisma.post.findMany({
+      select: { id: true, message: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (posts.length === 0) {
+      break;
+    }
+
+    for (const post of posts) {
+      await prisma.post.update({ where: { id: post.id }, data: messageIndexFields(post.message) });
+    }
+    updated += posts.length;
+    cursor = posts[posts.length - 1].id;
+    log.info({ updated }, 'Reindexed posts');
+  }
+
+  return updated;
+}
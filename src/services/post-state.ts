@@ -1,26 +1,30 @@
-import { PrismaClient, PostStatus, type Post } from '@prisma/client';
+import { PrismaClient, PostStatus, DeliveryStatus, type Post, type Delivery } from '@prisma/client';
 import { logger } from '../logger.js';
 
 const log = logger.child({ service: 'post-state' });
 
 const prisma = new PrismaClient();
 
-export { prisma, PostStatus };
-export type { Post };
+export { prisma, PostStatus, DeliveryStatus };
+export type { Post, Delivery };
 
 /**
  * Valid state transitions
  */
 const VALID_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
-  received: ['fetching'],
-  fetching: ['eligible', 'ignored', 'failed', 'received'], // back to received on retryable error
-  eligible: ['sending'],
-  sending: ['delivered', 'failed', 'needs_review'],
+  received: ['fetching', 'paused', 'retracted', 'failed'], // retracted if removed before we processed it; failed if the sweeper gives up
+  fetching: ['eligible', 'ignored', 'failed', 'received'], // back to received on retryable error or when stuck
+  eligible: ['sending', 'held', 'ignored', 'awaiting_approval', 'received', 'failed'], // held/ignored by a content filter; received/failed only from the stuck-post sweeper
+  sending: ['delivered', 'failed', 'needs_review', 'received'], // received when rescheduled after a Discord rate limit
   // Terminal states
-  delivered: [],
+  delivered: ['retracted'], // Post removed on Facebook after delivery
   ignored: [],
-  failed: ['received'], // Allow retry from failed (manual intervention)
-  needs_review: ['received'], // Allow manual retry
+  failed: ['received', 'ignored', 'retracted'], // Allow retry from failed (manual intervention)
+  needs_review: ['received', 'delivered', 'ignored', 'retracted'], // Manual retry or resolution after checking Discord
+  retracted: [],
+  paused: ['received', 'ignored', 'retracted'], // released once alerts are back on
+  held: ['received', 'ignored', 'retracted'], // released or dismissed by an operator
+  awaiting_approval: ['received', 'ignored', 'retracted'], // approved, or rejected / timed out
 };
 
 /**
@@ -28,7 +32,8 @@ const VALID_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
  * Returns the post and whether it was newly created
  */
 export async function getOrCreatePost(
-  fbPostId: string
+  fbPostId: string,
+  pageId?: string
 ): Promise<{ post: Post; created: boolean }> {
   // Try to find existing
   const existing = await prisma.post.findUnique({
@@ -44,6 +49,7 @@ export async function getOrCreatePost(
     const post = await prisma.post.create({
       data: {
         fbPostId,
+        pageId,
         status: PostStatus.received,
         events: {
           create: {
@@ -79,8 +85,6 @@ export async function transitionPost(
     message: string;
     permalink: string;
     createdAt: Date;
-    discordMsgId: string;
-    deliveredAt: Date;
     lastError: string;
     retryCount: number;
   }> = {},
@@ -120,6 +124,36 @@ export async function transitionPost(
   return updated;
 }
 
+/**
+ * process-post job options that stick to the post
+ */
+export interface StoredJobOptions {
+  ignoreMaxAge?: boolean;
+  skipFilters?: boolean;
+  approvalId?: string;
+}
+
+/**
+ * Merge a job's options with the ones stored on the post, storing any the job adds
+ * A job enqueued without them (sweeper, resolver, a kill switch release) then gets the same treatment
+ */
+export async function rememberJobOptions(post: Post, options: StoredJobOptions): Promise<StoredJobOptions> {
+  const stored = {
+    ignoreMaxAge: post.ignoreMaxAge || !!options.ignoreMaxAge,
+    skipFilters: post.skipFilters || !!options.skipFilters,
+    approvalId: options.approvalId ?? post.approvalId,
+  };
+  if (
+    stored.ignoreMaxAge !== post.ignoreMaxAge ||
+    stored.skipFilters !== post.skipFilters ||
+    stored.approvalId !== post.approvalId
+  ) {
+    await prisma.post.update({ where: { id: post.id }, data: stored });
+  }
+
+  return { ...stored, approvalId: stored.approvalId ?? undefined };
+}
+
 /**
  * Increment retry count and optionally reset to received for retry
  */
@@ -155,26 +189,136 @@ export async function markForRetry(
 }
 
 /**
- * Log a delivery attempt for operational monitoring
+ * Record an event against a post without changing its status
  */
-export async function logDelivery(
+export async function recordPostEvent(
   fbPostId: string,
-  success: boolean,
-  discordMsgId?: string,
-  errorMessage?: string,
-  latencyMs?: number
+  event: string,
+  details: Record<string, unknown> = {}
 ): Promise<void> {
-  await prisma.deliveryLog.create({
+  const post = await prisma.post.findUnique({ where: { fbPostId }, select: { id: true } });
+  if (!post) {
+    log.warn({ fbPostId, event }, 'Cannot record event: post not found');
+    return;
+  }
+
+  await prisma.postEvent.create({
     data: {
-      fbPostId,
-      success,
-      discordMsgId,
-      errorMessage,
-      latencyMs,
+      postId: post.id,
+      event,
+      details: details as Record<string, unknown> & object,
     },
   });
 }
 
+/**
+ * Ensure a delivery row exists for each destination (idempotent)
+ * Returns the post's deliveries in the order given
+ */
+export async function getOrCreateDeliveries(postId: string, destinations: string[]): Promise<Delivery[]> {
+  await prisma.delivery.createMany({
+    data: destinations.map((destination) => ({ postId, destination })),
+    skipDuplicates: true,
+  });
+
+  const deliveries = await prisma.delivery.findMany({
+    where: { postId, destination: { in: destinations } },
+  });
+
+  return destinations
+    .map((destination) => deliveries.find((d) => d.destination === destination))
+    .filter((d): d is Delivery => d !== undefined);
+}
+
+/**
+ * Record one send attempt: update the delivery and append to the delivery log
+ * Returns the updated delivery
+ */
+export async function logDelivery(
+  fbPostId: string,
+  delivery: Delivery,
+  status: DeliveryStatus,
+  result: { webhookId?: string; messageId?: string; error?: string },
+  latencyMs?: number
+): Promise<Delivery> {
+  const [updated] = await prisma.$transaction([
+    prisma.delivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        webhookId: result.webhookId,
+        attempts: { increment: 1 },
+        messageId: result.messageId,
+        lastError: result.error ?? null,
+        deliveredAt: status === DeliveryStatus.delivered ? new Date() : undefined,
+      },
+    }),
+    prisma.deliveryLog.create({
+      data: {
+        fbPostId,
+        deliveryId: delivery.id,
+        destination: delivery.destination,
+        success: status === DeliveryStatus.delivered,
+        discordMsgId: result.messageId,
+        errorMessage: result.error,
+        latencyMs,
+      },
+    }),
+  ]);
+  return updated;
+}
+
+/**
+ * Get a post's delivered destinations that have a Discord message to act on
+ */
+export async function getDeliveredMessages(postId: string): Promise<Array<Delivery & { messageId: string }>> {
+  const deliveries = await prisma.delivery.findMany({
+    where: { postId, status: DeliveryStatus.delivered, messageId: { not: null } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return deliveries as Array<Delivery & { messageId: string }>;
+}
+
+/**
+ * Move a post's deliveries back to pending (manual retry)
+ * Only the given statuses are reset; delivered copies are never resent
+ */
+export async function resetDeliveries(
+  postId: string,
+  statuses: DeliveryStatus[] = [DeliveryStatus.failed, DeliveryStatus.needs_review]
+): Promise<number> {
+  const result = await prisma.delivery.updateMany({
+    where: { postId, status: { in: statuses } },
+    data: { status: DeliveryStatus.pending },
+  });
+  return result.count;
+}
+
+/**
+ * Move every paused post back to received so it can be re-enqueued
+ * Returns the released posts, oldest first
+ */
+export async function releasePausedPosts(source: string): Promise<Post[]> {
+  const paused = await prisma.post.findMany({
+    where: { status: PostStatus.paused },
+    orderBy: { receivedAt: 'asc' },
+  });
+
+  const released: Post[] = [];
+  for (const post of paused) {
+    const updated = await transitionPost(post.fbPostId, PostStatus.received, undefined, {
+      reason: 'Released after pause',
+      source,
+    });
+    if (updated) {
+      released.push(updated);
+    }
+  }
+
+  log.info({ count: released.length, source }, 'Released paused posts');
+  return released;
+}
+
 /**
  * Get posts that need processing (for monitoring/debugging)
  */
@@ -189,21 +333,3 @@ export async function getPendingPosts(limit = 100): Promise<Post[]> {
     take: limit,
   });
 }
-
-/**
- * Clean up old records (for maintenance)
- */
-export async function cleanupOldRecords(daysOld: number): Promise<number> {
-  const cutoff = new Date();
-  cutoff.setDate(cutoff.getDate() - daysOld);
-
-  const result = await prisma.post.deleteMany({
-    where: {
-      status: { in: [PostStatus.delivered, PostStatus.ignored] },
-      receivedAt: { lt: cutoff },
-    },
-  });
-
-  log.info({ deleted: result.count, daysOld }, 'Cleaned up old records');
-  return result.count;
-}
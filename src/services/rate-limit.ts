@@ -0,0 +1,127 @@
+import { logger } from '../logger.js';
+import { prisma } from './post-state.js';
+
+const log = logger.child({ service: 'rate-limit' });
+
+/** Row that blocks every webhook after a global 429 */
+const GLOBAL_KEY = 'global';
+
+/**
+ * Assumed window length when a restarted window runs dry before any response reported
+ * its reset (Discord's webhook buckets are a few seconds long)
+ */
+const UNKNOWN_RESET_WINDOW_MS = 2000;
+
+/**
+ * Rate limit state reported by one Discord response
+ */
+export interface RateLimitInfo {
+  bucket?: string;
+  limit?: number;
+  remaining?: number;
+  resetAfterMs?: number;
+  /** From a 429: how long Discord wants us to wait */
+  retryAfterMs?: number;
+  global?: boolean;
+}
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value == null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Read Discord's X-RateLimit-* and Retry-After headers (seconds, possibly fractional)
+ * Returns undefined when the response carries none of them
+ */
+export function parseRateLimitHeaders(headers?: { get(name: string): string | null | undefined }): RateLimitInfo | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const limit = parseNumber(headers.get('x-ratelimit-limit'));
+  const remaining = parseNumber(headers.get('x-ratelimit-remaining'));
+  const resetAfter = parseNumber(headers.get('x-ratelimit-reset-after'));
+  const retryAfter = parseNumber(headers.get('retry-after'));
+  if (limit === undefined && remaining === undefined && resetAfter === undefined && retryAfter === undefined) {
+    return undefined;
+  }
+
+  return {
+    bucket: headers.get('x-ratelimit-bucket') ?? undefined,
+    limit,
+    remaining,
+    resetAfterMs: resetAfter !== undefined ? Math.ceil(resetAfter * 1000) : undefined,
+    retryAfterMs: retryAfter !== undefined ? Math.ceil(retryAfter * 1000) : undefined,
+    global: headers.get('x-ratelimit-global') === 'true' || headers.get('x-ratelimit-scope') === 'global',
+  };
+}
+
+/**
+ * Take one request from a webhook's bucket
+ * Returns 0 if the request may go out now, otherwise the milliseconds until the bucket resets.
+ * Slots are taken with conditional updates, so replicas never hand out the same one twice.
+ */
+export async function reserveSendSlot(webhookId: string, now = new Date()): Promise<number> {
+  const global = await prisma.discordRateLimit.findUnique({ where: { key: GLOBAL_KEY } });
+  if (global?.resetAt && global.resetAt > now) {
+    return global.resetAt.getTime() - now.getTime();
+  }
+
+  const taken = await prisma.discordRateLimit.updateMany({
+    where: { key: webhookId, remaining: { gt: 0 } },
+    data: { remaining: { decrement: 1 } },
+  });
+  if (taken.count > 0) {
+    return 0;
+  }
+
+  // Nothing known about the bucket yet
+  const bucket = await prisma.discordRateLimit.findUnique({ where: { key: webhookId } });
+  if (!bucket) {
+    return 0;
+  }
+
+  // A restarted window is empty but no response has reported when it resets:
+  // assume it ends a default window after the last slot was taken
+  const resetAt = bucket.resetAt ?? new Date(bucket.updatedAt.getTime() + UNKNOWN_RESET_WINDOW_MS);
+  if (resetAt > now) {
+    return resetAt.getTime() - now.getTime();
+  }
+
+  // The window is over: start a new one. One replica wins the restart, the others take a slot from it
+  const restarted = await prisma.discordRateLimit.updateMany({
+    where: { key: webhookId, resetAt: bucket.resetAt, updatedAt: bucket.updatedAt },
+    data: { remaining: bucket.limit - 1, resetAt: null },
+  });
+  return restarted.count > 0 ? 0 : reserveSendSlot(webhookId, now);
+}
+
+/**
+ * Store the bucket state a Discord response reported for a webhook
+ * A 429 empties the bucket (or the global row) until Retry-After has passed
+ */
+export async function recordRateLimit(webhookId: string, info: RateLimitInfo, now = new Date()): Promise<void> {
+  const key = info.global ? GLOBAL_KEY : webhookId;
+  const waitMs = Math.max(info.resetAfterMs ?? 0, info.retryAfterMs ?? 0);
+  const remaining = info.retryAfterMs !== undefined ? 0 : info.remaining;
+  if (remaining === undefined || waitMs === 0) {
+    return;
+  }
+
+  const state = {
+    bucket: info.bucket ?? null,
+    limit: info.limit ?? remaining + 1,
+    remaining,
+    resetAt: new Date(now.getTime() + waitMs),
+  };
+  await prisma.discordRateLimit.upsert({
+    where: { key },
+    create: { key, ...state },
+    update: state,
+  });
+
+  if (remaining === 0) {
+    log.info({ key, bucket: info.bucket, resetAfterMs: waitMs }, 'Discord rate limit bucket exhausted');
+  }
+}
@@ -0,0 +1,204 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir } from 'fs/promises';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { Prisma } from '@prisma/client';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { prisma, PostStatus } from './post-state.js';
+
+const log = logger.child({ service: 'retention' });
+
+/** Archive lines are {"table": ..., "row": ...}, parents before children */
+export type ArchiveTable = 'posts' | 'deliveries' | 'post_events' | 'delivery_logs';
+
+const ARCHIVE_TABLES: ArchiveTable[] = ['posts', 'deliveries', 'post_events', 'delivery_logs'];
+
+/** Rows per archive file; a large backlog is worked off in several files */
+const CHUNK_SIZE = 1000;
+
+/**
+ * Days to keep, 0 = forever
+ */
+export interface RetentionPolicy {
+  posts: Partial<Record<PostStatus, number>>;
+  postEventsDays: number;
+  deliveryLogsDays: number;
+}
+
+export type TableCounts = Record<ArchiveTable, number>;
+
+export interface RetentionResult {
+  files: string[];
+  archived: TableCounts;
+}
+
+export function retentionPolicyFromConfig(): RetentionPolicy {
+  return {
+    posts: config.RETENTION_POST_DAYS,
+    postEventsDays: config.RETENTION_POST_EVENTS_DAYS,
+    deliveryLogsDays: config.RETENTION_DELIVERY_LOGS_DAYS,
+  };
+}
+
+const emptyCounts = (): TableCounts => ({ posts: 0, deliveries: 0, post_events: 0, delivery_logs: 0 });
+
+const daysBefore = (now: Date, days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+/**
+ * Select the next batch of expired rows: whole posts first, then loose events and logs of posts that stay
+ */
+async function nextChunk(policy: RetentionPolicy, now: Date) {
+  const expiredStatuses = Object.entries(policy.posts)
+    .filter(([, days]) => days && days > 0)
+    .map(([status, days]) => ({ status: status as PostStatus, receivedAt: { lt: daysBefore(now, days!) } }));
+
+  const posts = expiredStatuses.length === 0 ? [] : await prisma.post.findMany({
+    where: { OR: expiredStatuses },
+    include: { deliveries: true, events: true, deliveryLogs: true },
+    orderBy: { receivedAt: 'asc' },
+    take: CHUNK_SIZE,
+  });
+  const postIds = posts.map((post) => post.id);
+
+  const events = policy.postEventsDays > 0
+    ? await prisma.postEvent.findMany({
+        where: { createdAt: { lt: daysBefore(now, policy.postEventsDays) }, postId: { notIn: postIds } },
+        orderBy: { createdAt: 'asc' },
+        take: CHUNK_SIZE,
+      })
+    : [];
+
+  const logs = policy.deliveryLogsDays > 0
+    ? await prisma.deliveryLog.findMany({
+        where: {
+          createdAt: { lt: daysBefore(now, policy.deliveryLogsDays) },
+          fbPostId: { notIn: posts.map((post) => post.fbPostId) },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: CHUNK_SIZE,
+      })
+    : [];
+
+  return { posts, events, logs };
+}
+
+/**
+ * Write rows as gzipped NDJSON; resolves once the file is complete on disk
+ */
+async function writeArchive(file: string, lines: Array<{ table: ArchiveTable; row: unknown }>): Promise<void> {
+  const ndjson = Readable.from(lines.map((line) => JSON.stringify(line) + '\n'));
+  await pipeline(ndjson, createGzip(), createWriteStream(file, { flags: 'wx' }));
+}
+
+/**
+ * Archive rows older than the policy allows to ARCHIVE_DIR, then delete them
+ * Rows are only deleted once the file holding them has been written.
+ */
+export async function archiveOldRecords(policy: RetentionPolicy, archiveDir: string, now = new Date()): Promise<RetentionResult> {
+  const result: RetentionResult = { files: [], archived: emptyCounts() };
+  await mkdir(archiveDir, { recursive: true });
+
+  const stamp = now.toISOString().replace(/[:.]/g, '-');
+  for (let part = 1; ; part++) {
+    const { posts, events, logs } = await nextChunk(policy, now);
+    if (posts.length === 0 && events.length === 0 && logs.length === 0) {
+      break;
+    }
+
+    const lines: Array<{ table: ArchiveTable; row: unknown }> = [];
+    const counts = emptyCounts();
+    const add = (table: ArchiveTable, rows: unknown[]) => {
+      for (const row of rows) lines.push({ table, row });
+      counts[table] += rows.length;
+    };
+    add('posts', posts.map(({ deliveries, events, deliveryLogs, ...post }) => post));
+    add('deliveries', posts.flatMap((post) => post.deliveries));
+    add('post_events', [...posts.flatMap((post) => post.events), ...events]);
+    add('delivery_logs', [...posts.flatMap((post) => post.deliveryLogs), ...logs]);
+
+    const file = join(archiveDir, `relay-archive-${stamp}-${String(part).padStart(3, '0')}.ndjson.gz`);
+    await writeArchive(file, lines);
+
+    // Deleting a post cascades to its deliveries, events and logs
+    await prisma.$transaction([
+      prisma.deliveryLog.deleteMany({ where: { id: { in: logs.map((row) => row.id) } } }),
+      prisma.postEvent.deleteMany({ where: { id: { in: events.map((row) => row.id) } } }),
+      prisma.post.deleteMany({ where: { id: { in: posts.map((post) => post.id) } } }),
+    ]);
+
+    result.files.push(file);
+    for (const table of ARCHIVE_TABLES) {
+      result.archived[table] += counts[table];
+    }
+    log.info({ file, ...counts }, 'Archived old records');
+  }
+
+  if (result.files.length === 0) {
+    log.info('No records past retention');
+  }
+  return result;
+}
+
+/**
+ * Read an archive file, grouped by table
+ */
+export async function readArchive(file: string): Promise<Record<ArchiveTable, Array<Record<string, unknown>>>> {
+  const rows: Record<ArchiveTable, Array<Record<string, unknown>>> = {
+    posts: [],
+    deliveries: [],
+    post_events: [],
+    delivery_logs: [],
+  };
+
+  const lines = createInterface({ input: createReadStream(file).pipe(createGunzip()), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const { table, row } = JSON.parse(line) as { table: ArchiveTable; row: Record<string, unknown> };
+    if (!ARCHIVE_TABLES.includes(table)) {
+      throw new Error(`Unknown table "${table}" in ${file}`);
+    }
+    rows[table].push(row);
+  }
+  return rows;
+}
+
+/**
+ * Insert the rows of an archive file again (rows that still exist are skipped)
+ * Loose events and logs need their post in the database (restore older archives first).
+ * Returns the number of rows inserted per table
+ */
+export async function restoreArchive(file: string): Promise<TableCounts> {
+  const rows = await readArchive(file);
+  const restored = emptyCounts();
+
+  // Timestamps come back as ISO strings, which Prisma accepts as-is
+  restored.posts = (await prisma.post.createMany({
+    data: rows.posts.map((post) => ({
+      ...post,
+      signals: post.signals ?? Prisma.DbNull,
+    })) as unknown as Prisma.PostCreateManyInput[],
+    skipDuplicates: true,
+  })).count;
+  restored.deliveries = (await prisma.delivery.createMany({
+    data: rows.deliveries as unknown as Prisma.DeliveryCreateManyInput[],
+    skipDuplicates: true,
+  })).count;
+  restored.post_events = (await prisma.postEvent.createMany({
+    data: rows.post_events.map((event) => ({
+      ...event,
+      details: event.details ?? Prisma.DbNull,
+    })) as unknown as Prisma.PostEventCreateManyInput[],
+    skipDuplicates: true,
+  })).count;
+  restored.delivery_logs = (await prisma.deliveryLog.createMany({
+    data: rows.delivery_logs as unknown as Prisma.DeliveryLogCreateManyInput[],
+    skipDuplicates: true,
+  })).count;
+
+  log.info({ file, ...restored }, 'Restored archive');
+  return restored;
+}
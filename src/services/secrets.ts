@@ -0,0 +1,146 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { prisma } from './post-state.js';
+
+const log = logger.child({ service: 'secrets' });
+
+/** Settings holding this prefix are looked up in the secrets table */
+export const SECRET_REF_PREFIX = 'secret:';
+
+/** How long a decrypted value is reused before the table is read again */
+const CACHE_TTL_MS = 60 * 1000;
+
+export class SecretError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretError';
+  }
+}
+
+export interface EncryptedSecret {
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+}
+
+/**
+ * Decode SECRETS_MASTER_KEY (hex or base64) into a 32-byte AES key
+ */
+export function parseMasterKey(raw: string): Buffer {
+  const key = /^[A-Fa-f0-9]{64}$/.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new SecretError('SECRETS_MASTER_KEY must be 32 bytes');
+  }
+  return key;
+}
+
+/**
+ * Encrypt a value with AES-256-GCM and a fresh IV
+ */
+export function encryptSecret(plaintext: string, key: Buffer): EncryptedSecret {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a stored value, failing if the key is wrong or the row was tampered with
+ */
+export function decryptSecret(secret: EncryptedSecret, key: Buffer): string {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(secret.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(secret.authTag, 'base64'));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(secret.ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new SecretError('Secret could not be decrypted - wrong SECRETS_MASTER_KEY or corrupted row');
+  }
+}
+
+function masterKey(): Buffer {
+  if (!config.SECRETS_MASTER_KEY) {
+    throw new SecretError('SECRETS_MASTER_KEY is not set');
+  }
+  return parseMasterKey(config.SECRETS_MASTER_KEY);
+}
+
+export function isSecretRef(value: string): boolean {
+  return value.startsWith(SECRET_REF_PREFIX);
+}
+
+export function secretRef(name: string): string {
+  return `${SECRET_REF_PREFIX}${name}`;
+}
+
+const cache = new Map<string, { value: string; expiresAt: number }>();
+
+/**
+ * Read and decrypt a secret by name
+ * Values are cached briefly, so a rotated secret is picked up within a minute without a restart
+ */
+export async function getSecret(name: string): Promise<string> {
+  const cached = cache.get(name);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const row = await prisma.secret.findUnique({ where: { name } });
+  if (!row) {
+    throw new SecretError(`Secret "${name}" does not exist`);
+  }
+
+  const value = decryptSecret(row, masterKey());
+  cache.set(name, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  return value;
+}
+
+/**
+ * Resolve a credential setting: "secret:<name>" is read from the secrets table,
+ * anything else is returned as is
+ */
+export async function resolveSecret(value: string): Promise<string> {
+  return isSecretRef(value) ? getSecret(value.slice(SECRET_REF_PREFIX.length)) : value;
+}
+
+/**
+ * Create or replace a secret (rotation takes effect on the next read)
+ */
+export async function setSecret(name: string, value: string): Promise<void> {
+  const encrypted = encryptSecret(value, masterKey());
+  await prisma.secret.upsert({
+    where: { name },
+    create: { name, ...encrypted },
+    update: encrypted,
+  });
+  cache.delete(name);
+  log.info({ name }, 'Secret stored');
+}
+
+export async function deleteSecret(name: string): Promise<boolean> {
+  const { count } = await prisma.secret.deleteMany({ where: { name } });
+  cache.delete(name);
+  if (count > 0) {
+    log.info({ name }, 'Secret deleted');
+  }
+  return count > 0;
+}
+
+/**
+ * Names and timestamps only - values never leave this module unencrypted except through getSecret
+ */
+export async function listSecrets(): Promise<Array<{ name: string; createdAt: Date; updatedAt: Date }>> {
+  return prisma.secret.findMany({
+    select: { name: true, createdAt: true, updatedAt: true },
+    orderBy: { name: 'asc' },
+  });
+}
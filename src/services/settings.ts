@@ -0,0 +1,50 @@
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { prisma } from './post-state.js';
+
+const log = logger.child({ service: 'settings' });
+
+const ALERTS_ENABLED_KEY = 'alerts_enabled';
+
+export interface AlertsState {
+  enabled: boolean;
+  /** Where the value came from — the settings table, or the ALERTS_ENABLED env default */
+  source: 'database' | 'env';
+  updatedAt?: Date;
+}
+
+/**
+ * Read the alerts kill switch
+ * The database value wins; ALERTS_ENABLED only applies until someone toggles it
+ */
+export async function getAlertsState(): Promise<AlertsState> {
+  const setting = await prisma.setting.findUnique({ where: { key: ALERTS_ENABLED_KEY } });
+
+  if (!setting || typeof setting.value !== 'boolean') {
+    return { enabled: config.ALERTS_ENABLED, source: 'env' };
+  }
+
+  return { enabled: setting.value, source: 'database', updatedAt: setting.updatedAt };
+}
+
+/**
+ * Check whether alerts should be sent right now (read on every job)
+ */
+export async function isAlertsEnabled(): Promise<boolean> {
+  const { enabled } = await getAlertsState();
+  return enabled;
+}
+
+/**
+ * Persist the alerts kill switch
+ */
+export async function setAlertsEnabled(enabled: boolean, source: string): Promise<AlertsState> {
+  const setting = await prisma.setting.upsert({
+    where: { key: ALERTS_ENABLED_KEY },
+    create: { key: ALERTS_ENABLED_KEY, value: enabled },
+    update: { value: enabled },
+  });
+
+  log.info({ enabled, source }, enabled ? 'Alerts enabled' : 'Alerts disabled');
+  return { enabled, source: 'database', updatedAt: setting.updatedAt };
+}
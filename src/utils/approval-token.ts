@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config.js';
+
+export type ApprovalDecision = 'approve' | 'reject';
+
+/**
+ * Signed approval link tokens: "<approval id>.<decision>.<signature>"
+ *
+ * The signature is an HMAC-SHA256 over the ID and decision with APPROVAL_SIGNING_KEY,
+ * so a link cannot be forged or turned from reject into approve. Links are one-time
+ * and expire through the approval row, not the token.
+ */
+
+function sign(approvalId: string, decision: ApprovalDecision): string {
+  if (!config.APPROVAL_SIGNING_KEY) {
+    throw new Error('APPROVAL_SIGNING_KEY not set');
+  }
+  return createHmac('sha256', config.APPROVAL_SIGNING_KEY).update(`approval:${approvalId}:${decision}`).digest('base64url');
+}
+
+/**
+ * Create the token for one approval link
+ */
+export function createApprovalToken(approvalId: string, decision: ApprovalDecision): string {
+  return `${approvalId}.${decision}.${sign(approvalId, decision)}`;
+}
+
+/**
+ * Check a token's signature, returning what it authorizes or null if it is malformed or forged
+ * Uses timing-safe comparison
+ */
+export function verifyApprovalToken(token: string): { approvalId: string; decision: ApprovalDecision } | null {
+  const [approvalId, decision, signature, ...rest] = token.split('.');
+  if (!approvalId || !signature || rest.length > 0 || (decision !== 'approve' && decision !== 'reject')) {
+    return null;
+  }
+  if (!config.APPROVAL_SIGNING_KEY) {
+    return null;
+  }
+
+  const provided = Buffer.from(signature, 'base64url');
+  const expected = Buffer.from(sign(approvalId, decision), 'base64url');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  return { approvalId, decision };
+}
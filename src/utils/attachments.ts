@@ -0,0 +1,74 @@
+import type { FacebookAttachment } from '../services/facebook.js';
+
+/**
+ * A video attached to a post: Discord cannot play it from a webhook, so alerts show
+ * the thumbnail and link to the video on Facebook
+ */
+export interface PostVideo {
+  url: string;
+  thumbnailUrl?: string;
+}
+
+/**
+ * A link shared in a post, shown as a preview card
+ */
+export interface PostLink {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+}
+
+/**
+ * Everything worth showing from a post's attachments, in post order
+ */
+export interface PostMedia {
+  images: string[];
+  videos: PostVideo[];
+  links: PostLink[];
+}
+
+function isVideo(attachment: FacebookAttachment): boolean {
+  return attachment.media_type === 'video' || !!attachment.type?.startsWith('video') || !!attachment.media?.source;
+}
+
+function isLink(attachment: FacebookAttachment): boolean {
+  return attachment.media_type === 'link' || attachment.type === 'share';
+}
+
+/**
+ * Sort a post's attachments into images, videos and shared links
+ * Album photos come from subattachments; an album without them falls back to its cover
+ */
+export function extractMedia(attachments: FacebookAttachment[] = []): PostMedia {
+  const media: PostMedia = { images: [], videos: [], links: [] };
+
+  const visit = (attachment: FacebookAttachment) => {
+    const subattachments = attachment.subattachments?.data ?? [];
+    if (subattachments.length > 0) {
+      subattachments.forEach(visit);
+      return;
+    }
+
+    const imageUrl = attachment.media?.image?.src;
+    if (isVideo(attachment)) {
+      const url = attachment.url ?? attachment.target?.url ?? attachment.media?.source;
+      if (url) {
+        media.videos.push({ url, thumbnailUrl: imageUrl });
+      }
+    } else if (isLink(attachment)) {
+      const url = attachment.unshimmed_url ?? attachment.url ?? attachment.target?.url;
+      if (url) {
+        media.links.push({ url, title: attachment.title, description: attachment.description, imageUrl });
+      }
+    } else {
+      const url = imageUrl ?? (attachment.media_type === 'photo' ? attachment.url : undefined);
+      if (url && !media.images.includes(url)) {
+        media.images.push(url);
+      }
+    }
+  };
+
+  attachments.forEach(visit);
+  return media;
+}
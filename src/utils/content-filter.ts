@@ -0,0 +1,102 @@
+/**
+ * Content filter rules, applied to an eligible post before it is sent
+ *
+ * Rules run in the order they are written:
+ *   redact         replaces matches of a pattern; the rest of the post is still sent
+ *   deny           any keyword or phrase (case-insensitive, whole words)
+ *   maxLength      more characters than allowed
+ *   requireTicker  no ticker found (see utils/signals)
+ * The first deny/maxLength/requireTicker rule that matches stops the post: it is held
+ * for an operator or ignored, per the rule's action. Later rules see redacted text.
+ */
+
+import type { ContentFilter } from '../routing.js';
+import { parseSignals } from './signals.js';
+
+export type FilterAction = 'hold' | 'ignore';
+
+/** The rule that stopped a post (stored on the post event) */
+export type FilterMatch = {
+  rule: string;
+  type: ContentFilter['type'];
+  action: FilterAction;
+  reason: string;
+};
+
+export interface FilterResult {
+  /** The message with every redaction applied */
+  message: string | undefined;
+  /** Redact rules that changed the message, with how many matches each replaced */
+  redactions: Array<{ rule: string; count: number }>;
+  blocked?: FilterMatch;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The first keyword written in the message, matched as a whole word
+ */
+function findKeyword(message: string, keywords: string[]): string | undefined {
+  return keywords.find((keyword) =>
+    new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}_])`, 'iu').test(message)
+  );
+}
+
+/**
+ * Why a blocking rule matches the message, or undefined if it doesn't
+ */
+function blockReason(filter: Exclude<ContentFilter, { type: 'redact' }>, message: string): string | undefined {
+  switch (filter.type) {
+    case 'deny': {
+      const keyword = findKeyword(message, filter.keywords);
+      return keyword !== undefined ? `Contains "${keyword}"` : undefined;
+    }
+    case 'maxLength':
+      return message.length > filter.maxLength
+        ? `Message is ${message.length} characters (max ${filter.maxLength})`
+        : undefined;
+    case 'requireTicker':
+      return parseSignals(message).tickers.length === 0 ? 'No ticker found' : undefined;
+  }
+}
+
+/**
+ * Run filter rules over a message
+ */
+export function applyContentFilters(message: string | null | undefined, filters: ContentFilter[]): FilterResult {
+  const result: FilterResult = { message: message ?? undefined, redactions: [] };
+
+  for (const filter of filters) {
+    const text = result.message ?? '';
+
+    if (filter.type === 'redact') {
+      let count = 0;
+      const redacted = text.replace(new RegExp(filter.pattern, 'gi'), () => {
+        count++;
+        return filter.replacement;
+      });
+      if (count > 0) {
+        result.message = redacted;
+        result.redactions.push({ rule: filter.name, count });
+      }
+      continue;
+    }
+
+    const reason = blockReason(filter, text);
+    if (reason) {
+      result.blocked = { rule: filter.name, type: filter.type, action: filter.action, reason };
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Only the rules that change text, for posts an operator released past the others
+ */
+export function redactionFilters(filters: ContentFilter[]): ContentFilter[] {
+  return filters.filter((filter) => filter.type === 'redact');
+}
@@ -0,0 +1,97 @@
+/**
+ * Hashtag tokenizer shared by tag matching, routing and stripping
+ *
+ * Follows how Facebook links hashtags in a post:
+ *   - "#" (or full-width "＃") followed by Unicode letters, marks, digits and underscores
+ *   - not directly after a letter or digit, so "C#" and "foo#bar" are not hashtags
+ *   - digits alone are not a hashtag ("#1 pick")
+ *   - the tag ends at punctuation, so "#discord." and "(#discord)" are "#discord"
+ * Hyphenated words stay one token, so "#discord-like" is not "#discord".
+ * Hashtags inside URLs and `code spans` are ignored.
+ */
+
+/**
+ * A hashtag found in a message
+ */
+export interface Hashtag {
+  /** Normalized form used for matching (see normalizeTag) */
+  tag: string;
+  /** Offset of the "#" in the message */
+  index: number;
+  /** Length of the hashtag as written */
+  length: number;
+}
+
+const WORD = '[\\p{L}\\p{M}\\p{N}_]';
+
+const HASHTAG_PATTERN = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}_&])[#＃](${WORD}+(?:-${WORD}+)*)`, 'gu');
+
+/** Spans whose "#" never starts a hashtag: fenced and inline code, URLs with or without a scheme */
+const SKIPPED_PATTERN = new RegExp(
+  [
+    '```[\\s\\S]*?```',
+    '`[^`\\n]+`',
+    '\\b(?:https?:\\/\\/|www\\.)[^\\s<>"]+',
+    '\\b(?:[\\p{L}\\p{N}-]+\\.)+\\p{L}{2,}\\/[^\\s<>"]*',
+  ].join('|'),
+  'giu'
+);
+
+/**
+ * Normalize a hashtag for comparison: Unicode NFC, lowercase, ASCII "#"
+ */
+export function normalizeTag(tag: string): string {
+  return tag.normalize('NFC').replace(/^＃/, '#').toLowerCase();
+}
+
+/**
+ * Find every hashtag in a message, in order of appearance
+ */
+export function extractHashtags(message: string | null | undefined): Hashtag[] {
+  if (!message) {
+    return [];
+  }
+
+  const skipped = [...message.matchAll(SKIPPED_PATTERN)].map((m) => [m.index, m.index + m[0].length]);
+  const hashtags: Hashtag[] = [];
+
+  for (const match of message.matchAll(HASHTAG_PATTERN)) {
+    if (/^\p{N}+$/u.test(match[1])) {
+      continue;
+    }
+    if (skipped.some(([start, end]) => match.index >= start && match.index < end)) {
+      continue;
+    }
+    hashtags.push({ tag: normalizeTag(`#${match[1]}`), index: match.index, length: match[0].length });
+  }
+
+  return hashtags;
+}
+
+/**
+ * Whether a string is exactly one hashtag, e.g. a configured trigger or routing tag
+ */
+export function isHashtag(value: string): boolean {
+  const [hashtag, ...rest] = extractHashtags(value);
+  return !!hashtag && rest.length === 0 && hashtag.index === 0 && hashtag.length === value.length;
+}
+
+/**
+ * Remove hashtags from a message (all of them, or those the filter accepts)
+ * Collapses the whitespace left behind
+ */
+export function removeHashtags(message: string, filter: (tag: string) => boolean = () => true): string {
+  let result = '';
+  let last = 0;
+  for (const { tag, index, length } of extractHashtags(message)) {
+    if (filter(tag)) {
+      result += message.slice(last, index);
+      last = index + length;
+    }
+  }
+  result += message.slice(last);
+
+  return result
+    .replace(/\s+/g, ' ') // Normalize multiple spaces
+    .trim();
+}
@@ -0,0 +1,67 @@
+/**
+ * Scrub credentials out of text before it is logged or displayed
+ *
+ * A Discord webhook URL is a credential on its own — anyone holding it can post
+ * to the channel — so only its ID is kept.
+ */
+
+import type { LoggerOptions } from 'pino';
+
+const WEBHOOK_TOKEN = /(\/webhooks\/\d+\/)[^/?\s"']+/g;
+const QUERY_CREDENTIAL = /((?:access_token|input_token|fb_exchange_token|client_secret)=)[^&\s"']+/g;
+
+/**
+ * Hide the token part of a Discord webhook URL
+ */
+export function redactWebhookUrl(url: string): string {
+  return url.replace(WEBHOOK_TOKEN, '$1***');
+}
+
+/**
+ * Hide webhook tokens and Graph API credentials anywhere in a string
+ */
+export function redactSecrets(text: string): string {
+  return text.replace(WEBHOOK_TOKEN, '$1***').replace(QUERY_CREDENTIAL, '$1***');
+}
+
+/**
+ * Deep-redact strings in a log object: plain objects, arrays and errors
+ * Errors are copied with the same prototype, so pino still serializes them as errors
+ */
+export function redactLogObject<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactSecrets(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactLogObject) as T;
+  }
+  if (value instanceof Error) {
+    const copy = Object.create(Object.getPrototypeOf(value)) as Error;
+    for (const [key, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(value))) {
+      Object.defineProperty(copy, key, 'value' in descriptor ? { ...descriptor, value: redactLogObject(descriptor.value) } : descriptor);
+    }
+    return copy as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, redactLogObject(nested)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * pino options that keep webhook URLs and access tokens out of every log line:
+ * the merged object (including errors) and the message with its format arguments
+ */
+export const redactingLogOptions: Pick<LoggerOptions, 'formatters' | 'hooks'> = {
+  formatters: {
+    log: (object) => redactLogObject(object),
+  },
+  hooks: {
+    logMethod(args, method) {
+      const redacted = args.map((arg) => (typeof arg === 'string' ? redactSecrets(arg) : arg));
+      return method.apply(this, redacted as Parameters<typeof method>);
+    },
+  },
+};
@@ -0,0 +1,152 @@
+/**
+ * Trade signal extraction from alert text
+ *
+ * Pulls the structured parts of a trade alert out of free text:
+ *   tickers    "$AAPL", "Buy AAPL", and the underlying of option contracts
+ *   direction  buy/sell/long/short (also bought/sold, BTO/STC)
+ *   prices     "entry 150", "@ 150", "at $150"; "PT 155/160", "target 155"; "stop 145", "SL 145"
+ *   options    "AAPL 150C 3/21", "$TSLA 200 puts 12/20/2025"
+ * Anything not found is left out; the alert text itself is never changed.
+ */
+
+export type TradeDirection = 'buy' | 'sell' | 'long' | 'short';
+
+export type OptionContract = {
+  ticker: string;
+  strike: number;
+  type: 'call' | 'put';
+  /** Expiry as written, e.g. "3/21" */
+  expiry: string;
+};
+
+/**
+ * Stored as JSON on the post (posts.signals)
+ * Type aliases rather than interfaces, so Prisma accepts them as JSON values
+ */
+export type TradeSignals = {
+  tickers: string[];
+  direction?: TradeDirection;
+  entry?: number;
+  targets: number[];
+  stop?: number;
+  options: OptionContract[];
+};
+
+const PRICE = '\\$?(\\d+(?:\\.\\d+)?)';
+
+/** A price is not followed by letters or "%" ("3pm", "10%"); "/" also rules out dates ("3/21") */
+const PRICE_END = '(?![\\w%/])';
+
+const CASHTAG_PATTERN = /(?<![\p{L}\p{N}_$])\$([A-Za-z]{1,5}(?:\.[A-Za-z]{1,2})?)(?![\p{L}\p{N}_])/gu;
+
+const OPTION_PATTERN = new RegExp(
+  `(?<![\\w$])\\$?([A-Z]{1,5})\\s+${PRICE}\\s*(c|p|calls?|puts?)\\s+(\\d{1,2}\\/\\d{1,2}(?:\\/\\d{2,4})?)(?!\\d)`,
+  'gi'
+);
+
+const DIRECTION_PATTERN = /\b(buy(?:ing)?|bought|bto|long|sell(?:ing)?|sold|stc|short(?:ing)?)\b/i;
+
+const DIRECTIONS: Record<string, TradeDirection> = {
+  buy: 'buy',
+  buying: 'buy',
+  bought: 'buy',
+  bto: 'buy',
+  long: 'long',
+  sell: 'sell',
+  selling: 'sell',
+  sold: 'sell',
+  stc: 'sell',
+  short: 'short',
+  shorting: 'short',
+};
+
+/** A direction word followed by an all-caps symbol: "Buy AAPL", "SHORT TSLA" */
+const DIRECTED_TICKER_PATTERN = /\b(?:buy(?:ing)?|bought|bto|long|sell(?:ing)?|sold|stc|short(?:ing)?)\s+\$?([A-Z]{1,5})\b/gi;
+
+/** All-caps words that follow "buy"/"sell" without being symbols */
+const NOT_TICKERS = new Set(['A', 'I', 'AT', 'THE', 'NOW', 'MORE', 'SOME', 'ALL', 'MY', 'THIS', 'THAT', 'IT', 'TO', 'IN', 'ON', 'OR', 'AND', 'SIGNAL', 'ALERT']);
+
+const ENTRY_PATTERN = new RegExp(`(?:\\b(?:entry|entered|enter|at)\\b|@)\\s*:?\\s*${PRICE}${PRICE_END}`, 'i');
+
+const TARGET_PATTERN = new RegExp(
+  `\\b(?:price\\s+targets?|targets?|tgt|pt|tp|take\\s+profit)\\s*:?\\s*${PRICE}(?![\\w%])((?:\\s*(?:\\/|,|&|and|-)\\s*${PRICE}(?![\\w%]))*)`,
+  'i'
+);
+
+const STOP_PATTERN = new RegExp(`\\b(?:stop[\\s-]*loss|stop|sl)\\s*:?\\s*(?:at\\s*)?${PRICE}${PRICE_END}`, 'i');
+
+function optionType(letter: string): OptionContract['type'] {
+  return letter.toLowerCase().startsWith('c') ? 'call' : 'put';
+}
+
+/**
+ * Extract tickers, direction, prices and option contracts from an alert
+ */
+export function parseSignals(message: string | null | undefined): TradeSignals {
+  const signals: TradeSignals = { tickers: [], targets: [], options: [] };
+  if (!message) {
+    return signals;
+  }
+
+  const addTicker = (ticker: string) => {
+    const symbol = ticker.toUpperCase();
+    if (!signals.tickers.includes(symbol)) {
+      signals.tickers.push(symbol);
+    }
+  };
+
+  for (const match of message.matchAll(CASHTAG_PATTERN)) {
+    addTicker(match[1]);
+  }
+
+  for (const match of message.matchAll(OPTION_PATTERN)) {
+    // Symbols are written in capitals; "at 150 c 3/21" is not a contract
+    if (match[1] !== match[1].toUpperCase()) {
+      continue;
+    }
+    signals.options.push({ ticker: match[1], strike: Number(match[2]), type: optionType(match[3]), expiry: match[4] });
+    addTicker(match[1]);
+  }
+
+  for (const match of message.matchAll(DIRECTED_TICKER_PATTERN)) {
+    if (match[1] === match[1].toUpperCase() && !NOT_TICKERS.has(match[1])) {
+      addTicker(match[1]);
+    }
+  }
+
+  const direction = message.match(DIRECTION_PATTERN);
+  if (direction) {
+    signals.direction = DIRECTIONS[direction[1].toLowerCase()];
+  }
+
+  const entry = message.match(ENTRY_PATTERN);
+  if (entry) {
+    signals.entry = Number(entry[1]);
+  }
+
+  const target = message.match(TARGET_PATTERN);
+  if (target) {
+    signals.targets = [target[1], ...(target[2].match(/\d+(?:\.\d+)?/g) ?? [])].map(Number);
+  }
+
+  const stop = message.match(STOP_PATTERN);
+  if (stop) {
+    signals.stop = Number(stop[1]);
+  }
+
+  return signals;
+}
+
+/**
+ * Whether anything was found worth showing
+ */
+export function hasSignals(signals: TradeSignals): boolean {
+  return (
+    signals.tickers.length > 0 ||
+    !!signals.direction ||
+    signals.entry !== undefined ||
+    signals.targets.length > 0 ||
+    signals.stop !== undefined ||
+    signals.options.length > 0
+  );
+}
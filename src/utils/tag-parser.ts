@@ -1,67 +1,80 @@
-import { config, getChannelRoutes, getChannelPriority } from '../config.js';
+import { config } from '../config.js';
+import { getRoutingConfig, type ResolvedRoute, type RoutingConfig } from '../routing.js';
+import { extractHashtags, normalizeTag, removeHashtags } from './hashtags.js';
+
+/**
+ * The tags a page listens for: its trigger tag plus every routing rule's tags
+ */
+export interface TrackedTags {
+  triggerTag: string;
+  routing: RoutingConfig;
+}
+
+/**
+ * The normalized hashtags in a message (see extractHashtags)
+ */
+function messageTags(message: string | null | undefined): Set<string> {
+  return new Set(extractHashtags(message).map((hashtag) => hashtag.tag));
+}
 
 /**
  * Check if a message contains the trigger tag (case-insensitive)
- * Uses word boundary to avoid matching #discord-like when looking for #discord
+ * Matches whole hashtags only, so #discord-like or #discordapp is not #discord
  */
-export function hasTag(message: string | null | undefined): boolean {
-  if (!message) {
-    return false;
-  }
-  // Escape special regex chars and add word boundary at end
-  const escaped = config.TRIGGER_TAG.replace(/[.*+?${}()|[\]\\]/g, '\\\$&');
-  const pattern = new RegExp(escaped + '(?![\\w-])', 'i');
-  return pattern.test(message);
+export function hasTag(message: string | null | undefined, triggerTag = config.TRIGGER_TAG): boolean {
+  return messageTags(message).has(normalizeTag(triggerTag));
 }
 
 /**
  * Check if a message contains ANY of the routable hashtags or the trigger tag
+ * Defaults to the environment's trigger tag and routing file
  */
-export function hasAnyTrackedTag(message: string | null | undefined): boolean {
-  if (!message) {
-    return false;
-  }
-  
-  // Check trigger tag first
-  if (hasTag(message)) {
-    return true;
-  }
-  
-  // Check channel route tags
-  const routes = getChannelRoutes();
-  const msgLower = message.toLowerCase();
-  
-  for (const tag of routes.keys()) {
-    // Simple case-insensitive substring match for hashtags
-    if (msgLower.includes(tag)) {
-      return true;
-    }
-  }
-  
-  return false;
+export function hasAnyTrackedTag(
+  message: string | null | undefined,
+  tracked: TrackedTags = { triggerTag: config.TRIGGER_TAG, routing: getRoutingConfig() }
+): boolean {
+  const tags = messageTags(message);
+  return (
+    tags.has(normalizeTag(tracked.triggerTag)) ||
+    tracked.routing.routes.some((route) => route.tags.some((tag) => tags.has(tag)))
+  );
 }
 
 /**
- * Find the highest priority matching hashtag in a message
- * Returns the hashtag (lowercase) and its webhook URL, or null if no match
+ * Find every routing rule whose tags appear in a message, in priority order
  */
-export function findRoutedChannel(message: string | null | undefined): { tag: string; webhookUrl: string } | null {
-  if (!message) {
-    return null;
-  }
-  
-  const routes = getChannelRoutes();
-  const priority = getChannelPriority();
-  const msgLower = message.toLowerCase();
-  
-  // Check in priority order
-  for (const tag of priority) {
-    if (msgLower.includes(tag) && routes.has(tag)) {
-      return { tag, webhookUrl: routes.get(tag)! };
-    }
-  }
-  
-  return null;
+export function findRoutedChannels(
+  message: string | null | undefined,
+  routing: RoutingConfig = getRoutingConfig()
+): ResolvedRoute[] {
+  const tags = messageTags(message);
+
+  // Routes are already sorted by priority
+  return routing.routes.filter((route) => route.tags.some((tag) => tags.has(tag)));
+}
+
+/**
+ * Find the highest priority routing rule whose tags appear in a message
+ * Returns the matching rule, or null if none match (caller falls back to the default route)
+ */
+export function findRoutedChannel(
+  message: string | null | undefined,
+  routing: RoutingConfig = getRoutingConfig()
+): ResolvedRoute | null {
+  return findRoutedChannels(message, routing)[0] ?? null;
+}
+
+/**
+ * Whether every destination of a message is a bulk route, so its job may wait behind trade alerts
+ * Messages that match no rule go to the default route and count as trade alerts
+ */
+export function isBulkMessage(
+  message: string | null | undefined,
+  routing: RoutingConfig = getRoutingConfig()
+): boolean {
+  const routed = findRoutedChannels(message, routing);
+  const destinations = routing.fanOut ? routed : routed.slice(0, 1);
+  return destinations.length > 0 && destinations.every((route) => route.bulk);
 }
 
 /**
@@ -69,27 +82,17 @@ export function findRoutedChannel(message: string | null | undefined): { tag: st
  * Handles multiple occurrences and cleans up extra whitespace
  */
 export function stripTag(message: string): string {
-  const tagPattern = new RegExp(
-    // Escape special regex chars in the tag
-    config.TRIGGER_TAG.replace(/[.*+?${}()|[\]\\]/g, '\\\$&'),
-    'gi'
-  );
-
-  return message
-    .replace(tagPattern, '')
-    .replace(/\s+/g, ' ') // Normalize multiple spaces
-    .trim();
+  const triggerTag = normalizeTag(config.TRIGGER_TAG);
+  return removeHashtags(message, (tag) => tag === triggerTag);
 }
 
 /**
  * Strip all hashtags from a message
- * Hashtags are Facebook-native and do not serve a purpose on Discord
+ * Hashtags are Facebook-native and do not serve a purpose on Discord.
+ * Leaves URLs, code spans and things like "C#" alone.
  */
 export function stripAllHashtags(message: string): string {
-  return message
-    .replace(/#\w+/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
+  return removeHashtags(message);
 }
 
 /**
@@ -0,0 +1,106 @@
+/**
+ * A single hunk of a word-level diff
+ */
+export interface DiffOp {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Split text into words and the whitespace between them, so that joining
+ * the tokens back together reproduces the original string exactly
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Past this many LCS table cells (tokens before × tokens after, once the common
+ * start and end are trimmed) the changed part is reported as replaced outright,
+ * so a long post never allocates an O(n*m) table
+ */
+const MAX_LCS_CELLS = 2_000_000;
+
+/**
+ * Compute a word-level diff between two messages
+ * Uses a plain LCS table on the part between the common start and end
+ */
+export function diffWords(before: string | null | undefined, after: string | null | undefined): DiffOp[] {
+  const tokensBefore = tokenize(before ?? '');
+  const tokensAfter = tokenize(after ?? '');
+
+  const ops: DiffOp[] = [];
+  const push = (op: DiffOp['op'], text: string) => {
+    const last = ops[ops.length - 1];
+    if (!text) {
+      return;
+    } else if (last && last.op === op) {
+      last.text += text;
+    } else {
+      ops.push({ op, text });
+    }
+  };
+
+  let start = 0;
+  while (start < tokensBefore.length && start < tokensAfter.length && tokensBefore[start] === tokensAfter[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < tokensBefore.length - start &&
+    end < tokensAfter.length - start &&
+    tokensBefore[tokensBefore.length - 1 - end] === tokensAfter[tokensAfter.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const a = tokensBefore.slice(start, tokensBefore.length - end);
+  const b = tokensAfter.slice(start, tokensAfter.length - end);
+
+  push('equal', tokensBefore.slice(0, start).join(''));
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    push('delete', a.join(''));
+    push('insert', b.join(''));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        push('equal', a[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        push('delete', a[i++]);
+      } else {
+        push('insert', b[j++]);
+      }
+    }
+    while (i < a.length) push('delete', a[i++]);
+    while (j < b.length) push('insert', b[j++]);
+  }
+  push('equal', tokensBefore.slice(tokensBefore.length - end).join(''));
+
+  return ops;
+}
+
+/**
+ * Render a diff as a compact, human-readable string
+ * Deletions are wrapped in [-...-] and insertions in {+...+}
+ */
+export function formatDiff(ops: DiffOp[]): string {
+  return ops
+    .map(({ op, text }) => {
+      if (op === 'delete') return `[-${text}-]`;
+      if (op === 'insert') return `{+${text}+}`;
+      return text;
+    })
+    .join('');
+}
@@ -0,0 +1,59 @@
+import type { TokenDebugInfo } from '../services/facebook.js';
+
+/**
+ * Permissions the relay needs on every page token
+ */
+export const REQUIRED_PAGE_SCOPES = ['pages_read_engagement', 'pages_manage_metadata'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TokenAssessment {
+  missingScopes: string[];
+  /** Human-readable problems, empty when the token is healthy */
+  problems: string[];
+}
+
+/**
+ * Describe an upcoming or past expiry, or null if it is further away than warnDays
+ */
+function describeExpiry(label: string, expiresAt: Date | null, now: Date, warnDays: number): string | null {
+  if (!expiresAt) {
+    return null;
+  }
+
+  const date = expiresAt.toISOString().slice(0, 10);
+  const msLeft = expiresAt.getTime() - now.getTime();
+  if (msLeft <= 0) {
+    return `${label} expired on ${date}`;
+  }
+
+  const daysLeft = Math.ceil(msLeft / DAY_MS);
+  if (daysLeft > warnDays) {
+    return null;
+  }
+  return `${label} expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'} (${date})`;
+}
+
+/**
+ * Check a debug_token result for invalidity, upcoming expiry and missing permissions
+ */
+export function assessToken(info: TokenDebugInfo, now: Date, warnDays: number): TokenAssessment {
+  const problems: string[] = [];
+
+  if (!info.valid) {
+    problems.push(`Token is invalid${info.error ? `: ${info.error}` : ''}`);
+  }
+
+  const expiry = describeExpiry('Token', info.expiresAt, now, warnDays);
+  if (expiry) problems.push(expiry);
+
+  const dataAccess = describeExpiry('Data access', info.dataAccessExpiresAt, now, warnDays);
+  if (dataAccess) problems.push(dataAccess);
+
+  const missingScopes = REQUIRED_PAGE_SCOPES.filter((scope) => !info.scopes.includes(scope));
+  if (missingScopes.length > 0) {
+    problems.push(`Missing permissions: ${missingScopes.join(', ')}`);
+  }
+
+  return { missingScopes, problems };
+}
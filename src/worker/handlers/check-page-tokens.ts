@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+import type { PageTokenStatus } from '@prisma/client';
+import { config } from '../../config.js';
+import type { Logger } from '../../logger.js';
+import { debugToken } from '../../services/facebook.js';
+import { notifyOps } from '../../services/ops-alerts.js';
+import { listPages, type PageContext } from '../../services/pages.js';
+import { prisma } from '../../services/post-state.js';
+import { assessToken } from '../../utils/token-health.js';
+
+/** An unchanged warning is repeated at most this often */
+const WARNING_REPEAT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Inspect one page's token, store the result and warn the ops channel about problems
+ * Returns null if the token could not be inspected (status is left unchanged)
+ */
+export async function checkPageToken(page: PageContext, log: Logger): Promise<PageTokenStatus | null> {
+  const result = await debugToken(page.accessToken);
+  if (!result.success) {
+    log.warn({ pageId: page.id, error: result.error }, 'Could not inspect page token');
+    return null;
+  }
+
+  const info = result.info!;
+  const now = new Date();
+  const { missingScopes, problems } = assessToken(info, now, config.TOKEN_EXPIRY_WARN_DAYS);
+
+  const fields = {
+    valid: info.valid,
+    expiresAt: info.expiresAt,
+    dataAccessExpiresAt: info.dataAccessExpiresAt,
+    scopes: info.scopes,
+    missingScopes,
+    error: info.error ?? null,
+    checkedAt: now,
+  };
+  const previous = await prisma.pageTokenStatus.findUnique({ where: { pageId: page.id } });
+  let status = await prisma.pageTokenStatus.upsert({
+    where: { pageId: page.id },
+    create: { pageId: page.id, ...fields },
+    update: fields,
+  });
+
+  const label = page.name ? `${page.name} (${page.id})` : page.id;
+
+  if (problems.length === 0) {
+    log.info({ pageId: page.id, expiresAt: info.expiresAt }, 'Page token healthy');
+
+    // Let the ops channel know an earlier warning no longer applies
+    if (previous?.warning) {
+      const resolved = await notifyOps({
+        kind: 'page_token',
+        key: `page_token_resolved:${page.id}:${previous.warnedAt?.getTime() ?? 0}`,
+        severity: 'info',
+        title: `Facebook page ${label}: access token is healthy again`,
+      });
+      if (resolved.sent || resolved.reason === 'no_sink') {
+        status = await prisma.pageTokenStatus.update({
+          where: { pageId: page.id },
+          data: { warning: null, warnedAt: null },
+        });
+      }
+    }
+    return status;
+  }
+
+  const warning = problems.join('\n');
+  log.warn({ pageId: page.id, problems }, 'Page token needs attention');
+
+  const repeatDue = !previous?.warnedAt || now.getTime() - previous.warnedAt.getTime() >= WARNING_REPEAT_MS;
+  if (warning === previous?.warning && !repeatDue) {
+    return status;
+  }
+
+  // Keyed on the problem text, so a changed warning is never held back as a duplicate
+  const sent = await notifyOps({
+    kind: 'page_token',
+    key: `page_token:${page.id}:${createHash('sha1').update(warning).digest('hex').slice(0, 12)}`,
+    severity: info.valid ? 'warning' : 'critical',
+    title: `Facebook page ${label}: access token needs attention`,
+    details: { page: page.id, problems: problems.join('; ') },
+  });
+  if (sent.sent) {
+    status = await prisma.pageTokenStatus.update({
+      where: { pageId: page.id },
+      data: { warning, warnedAt: now },
+    });
+  }
+  return status;
+}
+
+/**
+ * Scheduled check of every enabled page's access token
+ */
+export async function checkPageTokens(log: Logger): Promise<void> {
+  if (!config.META_APP_ID) {
+    log.warn('META_APP_ID not set, skipping page token check');
+    return;
+  }
+
+  const pages = await listPages();
+  for (const page of pages) {
+    await checkPageToken(page, log);
+  }
+}
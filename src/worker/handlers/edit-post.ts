@@ -0,0 +1,137 @@
+import type { Logger } from '../../logger.js';
+import { fetchPost } from '../../services/facebook.js';
+import { editDiscordMessage, resolveDeliveryRoute, deliveryMarker } from '../../services/discord.js';
+import { recordPostEvent, getDeliveredMessages, PostStatus, prisma } from '../../services/post-state.js';
+import { getPageForPost } from '../../services/pages.js';
+import { notifyEditNeedsApproval } from '../../services/ops-alerts.js';
+import { diffWords, formatDiff } from '../../utils/text-diff.js';
+import { messageIndexFields } from '../../services/post-search.js';
+import { applyContentFilters, redactionFilters } from '../../utils/content-filter.js';
+
+/**
+ * Propagate a Facebook post edit to the already-delivered Discord message
+ *
+ * Only delivered posts with a known Discord message ID can be edited;
+ * anything still in the pipeline will pick up the latest text when it is fetched.
+ * With fan-out every destination's copy is edited through its own webhook.
+ * Redaction filters apply to the new text; hold/ignore filters only gate the first send.
+ * Copies on approval routes keep the approved text; ops are told about the edit instead.
+ */
+export async function editPost(fbPostId: string, log: Logger): Promise<void> {
+  const post = await prisma.post.findUnique({ where: { fbPostId } });
+  if (!post) {
+    log.warn({ fbPostId }, 'Post not found in database');
+    return;
+  }
+
+  const delivered = post.status === PostStatus.delivered ? await getDeliveredMessages(post.id) : [];
+  if (delivered.length === 0) {
+    log.info({ fbPostId, status: post.status }, 'Post not delivered, skipping edit');
+    await recordPostEvent(fbPostId, 'edit_skipped', {
+      reason: post.status === PostStatus.delivered ? 'No Discord message ID' : 'Post not delivered',
+      status: post.status,
+    });
+    return;
+  }
+
+  const page = await getPageForPost(post);
+  if (!page) {
+    log.warn({ fbPostId, pageId: post.pageId }, 'Post belongs to an unknown or disabled page, skipping edit');
+    await recordPostEvent(fbPostId, 'edit_skipped', { reason: 'Unknown or disabled page', pageId: post.pageId });
+    return;
+  }
+
+  // === FETCH LATEST REVISION ===
+  const fetchResult = await fetchPost(fbPostId, page);
+  if (!fetchResult.success) {
+    if (fetchResult.retryable) {
+      throw new Error(`Retryable fetch error: ${fetchResult.error}`);
+    }
+
+    log.warn({ fbPostId, error: fetchResult.error }, 'Failed to fetch edited post');
+    await recordPostEvent(fbPostId, 'edit_failed', { error: fetchResult.error });
+    return;
+  }
+
+  const fbPost = fetchResult.post!;
+  if ((fbPost.message ?? null) === post.message) {
+    log.debug({ fbPostId }, 'Message unchanged, nothing to edit');
+    return;
+  }
+
+  const redacted = applyContentFilters(fbPost.message, redactionFilters(page.routing.filters));
+  const discordPost = { ...fbPost, message: redacted.message };
+
+  // === EDIT ===
+  // Each copy goes through the webhook that sent it — webhooks can only edit their own messages
+  const edited: Array<{ channel: string; messageId: string }> = [];
+  const failures: Array<{ channel: string; messageId: string; error: string }> = [];
+  const unapproved: string[] = [];
+
+  for (const delivery of delivered) {
+    const route = await resolveDeliveryRoute(delivery, page.routing);
+    if (!route) {
+      failures.push({ channel: delivery.destination, messageId: delivery.messageId, error: 'Route removed or webhook changed' });
+      continue;
+    }
+    // Nobody signed off on the new text
+    if (route.approval) {
+      unapproved.push(delivery.destination);
+      continue;
+    }
+
+    const editResult = await editDiscordMessage(discordPost, delivery.messageId, route, deliveryMarker(delivery.id));
+    if (editResult.success) {
+      edited.push({ channel: delivery.destination, messageId: delivery.messageId });
+      continue;
+    }
+
+    if (editResult.retryable) {
+      // Edits are idempotent, so copies already updated are safe to redo
+      throw new Error(`Retryable edit error: ${editResult.error}`);
+    }
+    failures.push({ channel: delivery.destination, messageId: delivery.messageId, error: editResult.error ?? 'Edit failed' });
+  }
+
+  if (failures.length > 0) {
+    log.error({ fbPostId, failures }, 'Failed to edit Discord message');
+    await recordPostEvent(fbPostId, 'edit_failed', {
+      error: failures.map((f) => `${f.channel}: ${f.error}`).join('; '),
+      failures,
+    });
+  }
+
+  if (unapproved.length > 0) {
+    log.warn({ fbPostId, channels: unapproved }, 'Edit not applied to approval routes');
+    await recordPostEvent(fbPostId, 'edit_skipped', { reason: 'Route requires approval', channels: unapproved });
+    await notifyEditNeedsApproval(fbPostId, unapproved, post.pageId);
+  }
+
+  if (edited.length === 0) {
+    return;
+  }
+
+  const diff = diffWords(post.message, fbPost.message);
+
+  await prisma.post.update({
+    where: { fbPostId },
+    data: {
+      message: fbPost.message,
+      ...messageIndexFields(fbPost.message),
+      events: {
+        create: {
+          event: 'post_edited',
+          details: {
+            previousMessage: post.message,
+            message: fbPost.message ?? null,
+            diff: formatDiff(diff),
+            changes: diff.filter((d) => d.op !== 'equal').map((d) => ({ op: d.op, text: d.text })),
+            messages: edited,
+          },
+        },
+      },
+    },
+  });
+
+  log.info({ fbPostId, messages: edited }, '✏️ Discord message updated');
+}
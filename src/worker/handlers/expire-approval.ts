@@ -0,0 +1,14 @@
+import type { Logger } from '../../logger.js';
+import { expireApproval } from '../../services/approvals.js';
+
+/**
+ * Time out an approval nobody decided on within APPROVAL_TIMEOUT_MINUTES
+ *
+ * State machine:
+ *   awaiting_approval → ignored (approval timed out)
+ * An approval that was already approved or rejected is left alone.
+ */
+export async function expireApprovalJob(approvalId: string, log: Logger): Promise<void> {
+  const expired = await expireApproval(approvalId);
+  log.info({ approvalId, expired }, expired ? 'Approval timed out, post ignored' : 'Approval already decided');
+}
@@ -1,20 +1,44 @@
+import { randomUUID } from 'crypto';
+import type PgBoss from 'pg-boss';
 import { config } from '../../config.js';
 import type { Logger } from '../../logger.js';
 import { fetchPost, type FacebookPost } from '../../services/facebook.js';
-import { sendToDiscord } from '../../services/discord.js';
+import { sendToDiscord, resolveWebhooks, deliveryMarker } from '../../services/discord.js';
 import {
   transitionPost,
   markForRetry,
   logDelivery,
+  getOrCreateDeliveries,
+  rememberJobOptions,
   PostStatus,
+  DeliveryStatus,
   prisma,
 } from '../../services/post-state.js';
+import { isAlertsEnabled } from '../../services/settings.js';
+import { getPageForPost, type PageContext } from '../../services/pages.js';
+import { RoutingConfigError } from '../../routing.js';
 import { hasAnyTrackedTag } from '../../utils/tag-parser.js';
+import { applyContentFilters, redactionFilters } from '../../utils/content-filter.js';
+import { messageIndexFields } from '../../services/post-search.js';
+import { isApprovalConfigured, isApproved, requestApproval } from '../../services/approvals.js';
+import {
+  enqueueProcessPost,
+  RESOLVE_DELIVERY_QUEUE,
+  EXPIRE_APPROVAL_QUEUE,
+  type WebhookData,
+  type ProcessPostJob,
+  type ExpireApprovalJob,
+} from '../../queues.js';
+import { deliveryAttempts, deliveryLatency, postsFiltered } from '../../metrics.js';
+import { notifyPostProblem, notifyPostHeld } from '../../services/ops-alerts.js';
 
-interface WebhookData {
-  message?: string;
-  from?: { id: string; name: string };
-  createdTime?: number;
+export interface ProcessPostOptions extends Pick<ProcessPostJob, 'ignoreMaxAge' | 'skipFilters' | 'approvalId'> {
+  /**
+   * Schedules the lookup of a timed-out send, and reschedules the post when Discord's rate limit
+   * is hit; without it ops are notified straight away and pg-boss's backoff handles rate limits
+   */
+  boss?: PgBoss;
+  correlationId?: string;
 }
 
 /**
@@ -52,9 +76,25 @@ function isPostTooOld(createdTime: string | undefined, log: Logger): boolean {
  * State machine:
  *   received → fetching → eligible → sending → delivered
  *                      ↘ ignored (no tag or too old)
- *                               ↘ failed / needs_review
+ *                                 ↘ held / ignored (content filter)
+ *                                 ↘ awaiting_approval (approval route) → received once approved
+ *                                            ↘ failed / needs_review
+ *
+ * Each destination (one route, or every matching route with fan-out) has its own
+ * delivery row; a retry resends only the destinations still pending.
+ * A send that timed out may still have arrived: with DISCORD_BOT_TOKEN set it is
+ * looked up later (resolve-delivery handler), otherwise it waits for manual review.
+ * While alerts are disabled posts are parked as paused until released, and posts
+ * held by a content filter wait for an operator in the same way. Posts for an approval
+ * route are previewed to the approvers and sent only with the job of a granted approval.
+ * Removal on Facebook moves a post to retracted (see retract-post handler)
  */
-export async function processPost(fbPostId: string, log: Logger, webhookData?: WebhookData): Promise<void> {
+export async function processPost(
+  fbPostId: string,
+  log: Logger,
+  webhookData?: WebhookData,
+  options: ProcessPostOptions = {}
+): Promise<void> {
   const startTime = Date.now();
 
   // Get current post state
@@ -65,14 +105,30 @@ export async function processPost(fbPostId: string, log: Logger, webhookData?: W
   }
 
   // Skip if already in terminal state
-  if (post.status === PostStatus.delivered || post.status === PostStatus.ignored) {
+  if (
+    post.status === PostStatus.delivered ||
+    post.status === PostStatus.ignored ||
+    post.status === PostStatus.retracted
+  ) {
     log.debug({ fbPostId, status: post.status }, 'Post already in terminal state');
     return;
   }
 
-  // Check kill switch
-  if (!config.ALERTS_ENABLED) {
-    log.info({ fbPostId }, 'Alerts disabled, skipping');
+  // Paused, held and unapproved posts wait for an explicit release
+  if (post.status === PostStatus.paused || post.status === PostStatus.held || post.status === PostStatus.awaiting_approval) {
+    log.debug({ fbPostId, status: post.status }, 'Post is waiting for release');
+    return;
+  }
+
+  // Options stick to the post, so the sweeper and resolver re-enqueue it the same way
+  options = { ...options, ...(await rememberJobOptions(post, options)) };
+
+  // Check kill switch (read per job so it can be toggled without a restart)
+  if (!(await isAlertsEnabled())) {
+    log.info({ fbPostId }, 'Alerts disabled, parking post as paused');
+    await transitionPost(fbPostId, PostStatus.paused, undefined, {
+      reason: 'Alerts disabled',
+    });
     return;
   }
 
@@ -80,7 +136,26 @@ export async function processPost(fbPostId: string, log: Logger, webhookData?: W
   log.debug({ fbPostId }, 'Fetching post from Facebook');
   await transitionPost(fbPostId, PostStatus.fetching);
 
-  const fetchResult = await fetchPost(fbPostId);
+  // Token, trigger tag and routing all come from the page the post belongs to
+  let page: PageContext | null;
+  try {
+    page = await getPageForPost(post);
+  } catch (err) {
+    if (!(err instanceof RoutingConfigError)) throw err;
+    log.error({ fbPostId, pageId: post.pageId, issues: err.issues }, err.message);
+    await transitionPost(fbPostId, PostStatus.failed, { lastError: err.message });
+    await notifyPostProblem(fbPostId, PostStatus.failed, err.message, post.pageId);
+    return;
+  }
+  if (!page) {
+    log.warn({ fbPostId, pageId: post.pageId }, 'Post belongs to an unknown or disabled page');
+    const error = `Unknown or disabled page ${post.pageId ?? '(environment)'}`;
+    await transitionPost(fbPostId, PostStatus.failed, { lastError: error });
+    await notifyPostProblem(fbPostId, PostStatus.failed, error, post.pageId);
+    return;
+  }
+
+  const fetchResult = await fetchPost(fbPostId, page);
 
   let fbPost: FacebookPost;
 
@@ -107,6 +182,7 @@ export async function processPost(fbPostId: string, log: Logger, webhookData?: W
       await transitionPost(fbPostId, PostStatus.failed, {
         lastError: fetchResult.error,
       });
+      await notifyPostProblem(fbPostId, PostStatus.failed, fetchResult.error, page.id);
       return;
     }
   } else {
@@ -120,13 +196,14 @@ export async function processPost(fbPostId: string, log: Logger, webhookData?: W
       authorId: fbPost.from?.id,
       authorName: fbPost.from?.name,
       message: fbPost.message,
+      ...messageIndexFields(fbPost.message),
       permalink: fbPost.permalink_url,
       createdAt: fbPost.created_time ? new Date(fbPost.created_time) : undefined,
     },
   });
 
   // === CHECK AGE (after fetch, using accurate created_time) ===
-  if (isPostTooOld(fbPost.created_time, log)) {
+  if (!options.ignoreMaxAge && isPostTooOld(fbPost.created_time, log)) {
     log.info({ fbPostId }, 'Post too old after fetch verification, ignoring');
     await transitionPost(fbPostId, PostStatus.ignored, undefined, {
       reason: 'Post too old',
@@ -136,7 +213,7 @@ export async function processPost(fbPostId: string, log: Logger, webhookData?: W
 
   // === CHECK TAG ===
   // Now checks for ANY tracked tag (trigger tag OR routed channel tags)
-  if (!hasAnyTrackedTag(fbPost.message)) {
+  if (!hasAnyTrackedTag(fbPost.message, page)) {
     log.info({ fbPostId }, 'No tracked hashtag found, ignoring');
     await transitionPost(fbPostId, PostStatus.ignored, undefined, {
       reason: 'No tracked hashtag',
@@ -147,63 +224,202 @@ export async function processPost(fbPostId: string, log: Logger, webhookData?: W
   log.info({ fbPostId }, 'Tracked hashtag found, post is eligible');
   await transitionPost(fbPostId, PostStatus.eligible);
 
+  // === CONTENT FILTERS ===
+  // A released post already passed review, so only its redactions still apply
+  const filters = options.skipFilters ? redactionFilters(page.routing.filters) : page.routing.filters;
+  const filtered = applyContentFilters(fbPost.message, filters);
+
+  if (filtered.blocked) {
+    const { rule, type, action, reason } = filtered.blocked;
+    log.info({ fbPostId, rule, action, reason }, 'Stopped by content filter');
+    await transitionPost(fbPostId, action === 'hold' ? PostStatus.held : PostStatus.ignored, undefined, {
+      reason,
+      rule: { name: rule, type },
+    });
+    postsFiltered.inc({ rule, action });
+    if (action === 'hold') {
+      await notifyPostHeld(fbPostId, rule, reason, page.id);
+    }
+    return;
+  }
+
+  // The stored message stays as written; only the Discord copy is redacted
+  if (filtered.redactions.length > 0) {
+    log.info({ fbPostId, redactions: filtered.redactions }, 'Redacted before sending');
+    fbPost = { ...fbPost, message: filtered.message };
+  }
+
+  // One delivery per destination; copies that already succeeded are never resent
+  const routes = resolveWebhooks(fbPost, page.routing);
+  const deliveries = await getOrCreateDeliveries(post.id, routes.map((route) => route.name));
+  const bulk = routes.every((route) => route.bulk);
+  if (bulk !== post.bulk) {
+    await prisma.post.update({ where: { id: post.id }, data: { bulk } });
+  }
+  const redactions = filtered.redactions.length > 0 ? { redactions: filtered.redactions } : undefined;
+
+  // === APPROVAL ===
+  // One approval route holds the whole post; the approvers see every destination's copy
+  if (routes.some((route) => route.approval) && !(await isApproved(options.approvalId, post.id, fbPost.message))) {
+    if (options.approvalId) {
+      log.info({ fbPostId, approvalId: options.approvalId }, 'Message changed since it was approved, asking again');
+    }
+
+    if (!isApprovalConfigured()) {
+      const error = 'Route requires approval but APPROVAL_WEBHOOK_URL, APPROVAL_SIGNING_KEY or PUBLIC_BASE_URL is not set';
+      log.error({ fbPostId }, error);
+      await transitionPost(fbPostId, PostStatus.failed, { lastError: error });
+      await notifyPostProblem(fbPostId, PostStatus.failed, error, page.id);
+      return;
+    }
+
+    const requested = await requestApproval(post, fbPost, routes, deliveries, options.skipFilters);
+    if (!requested.success) {
+      if (requested.retryable) {
+        await markForRetry(fbPostId, requested.error || 'Approval request failed');
+        throw new Error(`Retryable approval request error: ${requested.error}`);
+      }
+      await transitionPost(fbPostId, PostStatus.failed, { lastError: requested.error });
+      await notifyPostProblem(fbPostId, PostStatus.failed, requested.error, page.id);
+      return;
+    }
+
+    const approval = requested.approval!;
+    await transitionPost(fbPostId, PostStatus.awaiting_approval, undefined, {
+      approvalId: approval.id,
+      destinations: approval.destinations,
+      expiresAt: approval.expiresAt.toISOString(),
+      ...redactions,
+    });
+    // Without a boss (tests) the links still stop working at expiresAt
+    if (options.boss) {
+      await options.boss.send(
+        EXPIRE_APPROVAL_QUEUE,
+        { fbPostId, correlationId: options.correlationId ?? randomUUID(), approvalId: approval.id } satisfies ExpireApprovalJob,
+        { startAfter: approval.expiresAt, singletonKey: approval.id }
+      );
+    }
+    log.info({ fbPostId, approvalId: approval.id, expiresAt: approval.expiresAt }, 'Waiting for approval');
+    return;
+  }
+
   // === SEND ===
-  await transitionPost(fbPostId, PostStatus.sending);
+  await transitionPost(fbPostId, PostStatus.sending, undefined, redactions);
+  let retryAfterMs = 0;
+
+  for (const delivery of deliveries) {
+    if (delivery.status !== DeliveryStatus.pending) {
+      continue;
+    }
+
+    const route = routes.find((r) => r.name === delivery.destination)!;
+    const sendResult = await sendToDiscord(fbPost, route, deliveryMarker(delivery.id));
+    const latencyMs = Date.now() - startTime;
+
+    let status: DeliveryStatus;
+    if (sendResult.success) {
+      status = DeliveryStatus.delivered;
+      log.info({ fbPostId, messageId: sendResult.messageId, latencyMs, channel: route.name }, 'Destination delivered');
+    } else if (sendResult.ambiguous) {
+      status = DeliveryStatus.needs_review;
+      log.error({ fbPostId, channel: route.name }, '⚠️ Delivery status unknown');
+    } else if (sendResult.retryable) {
+      status = DeliveryStatus.pending;
+      if (sendResult.retryAfterMs) {
+        retryAfterMs = Math.max(retryAfterMs, sendResult.retryAfterMs);
+        log.warn({ fbPostId, channel: route.name, retryAfterMs: sendResult.retryAfterMs }, 'Rate limited, will retry');
+      }
+    } else {
+      status = DeliveryStatus.failed;
+      log.error({ fbPostId, channel: route.name, error: sendResult.error }, '❌ Destination delivery failed');
+    }
+
+    // Record the attempt against this destination
+    Object.assign(delivery, await logDelivery(fbPostId, delivery, status, sendResult, latencyMs));
+
+    deliveryAttempts.inc({ destination: route.name, status });
+    if (status === DeliveryStatus.delivered && fbPost.created_time) {
+      const endToEndMs = Date.now() - new Date(fbPost.created_time).getTime();
+      deliveryLatency.observe({ destination: route.name }, Math.max(0, endToEndMs) / 1000);
+    }
+  }
 
-  const sendResult = await sendToDiscord(fbPost);
   const latencyMs = Date.now() - startTime;
+  const channels = deliveries.map((d) => d.destination);
+  const errors = deliveries
+    .filter((d) => d.status !== DeliveryStatus.delivered && d.lastError)
+    .map((d) => `${d.destination}: ${d.lastError}`)
+    .join('; ');
 
-  // Log delivery attempt
-  await logDelivery(
-    fbPostId,
-    sendResult.success,
-    sendResult.messageId,
-    sendResult.error,
-    latencyMs
-  );
+  // A post is delivered only once every destination is
+  if (deliveries.some((d) => d.status === DeliveryStatus.pending)) {
+    // Rate limited: come back exactly when the bucket resets rather than on pg-boss's backoff
+    if (retryAfterMs > 0 && options.boss) {
+      await transitionPost(fbPostId, PostStatus.received, undefined, { reason: 'Rate limited', retryAfterMs, channels });
+      await enqueueProcessPost(
+        options.boss,
+        {
+          fbPostId,
+          correlationId: options.correlationId ?? randomUUID(),
+          webhookData,
+          ignoreMaxAge: options.ignoreMaxAge,
+          skipFilters: options.skipFilters,
+          approvalId: options.approvalId,
+        },
+        { startAfter: new Date(Date.now() + retryAfterMs), bulk }
+      );
+      log.info({ fbPostId, retryAfterMs }, 'Rescheduled after rate limit');
+      return;
+    }
 
-  if (sendResult.success) {
-    await transitionPost(
-      fbPostId,
-      PostStatus.delivered,
-      {
-        discordMsgId: sendResult.messageId,
-        deliveredAt: new Date(),
-      },
-      { messageId: sendResult.messageId, latencyMs, channel: sendResult.channel }
-    );
-    log.info({ fbPostId, messageId: sendResult.messageId, latencyMs, channel: sendResult.channel }, '✅ Post delivered');
-    return;
+    await markForRetry(fbPostId, errors || 'Send failed');
+    throw new Error(`Retryable send error: ${errors}`);
   }
 
-  // Handle send failure
-  if (sendResult.ambiguous) {
+  if (deliveries.some((d) => d.status === DeliveryStatus.needs_review)) {
     await transitionPost(
       fbPostId,
       PostStatus.needs_review,
-      { lastError: sendResult.error },
-      { reason: 'Delivery status unknown', error: sendResult.error }
+      { lastError: errors },
+      { reason: 'Delivery status unknown', error: errors, channels }
     );
+
+    // Give Discord time to show the message, then look for it (see resolve-delivery handler)
+    if (options.boss && config.DISCORD_BOT_TOKEN) {
+      await options.boss.send(
+        RESOLVE_DELIVERY_QUEUE,
+        { fbPostId, correlationId: options.correlationId ?? randomUUID() },
+        { startAfter: config.DISCORD_RESOLVE_DELAY_SECONDS, singletonKey: fbPostId }
+      );
+      log.warn({ fbPostId, delaySeconds: config.DISCORD_RESOLVE_DELAY_SECONDS }, 'Scheduled lookup of the timed-out send');
+      return;
+    }
+
     log.error({ fbPostId }, '⚠️ Delivery status unknown - manual review required');
+    await notifyPostProblem(fbPostId, PostStatus.needs_review, errors, page.id);
     return;
   }
 
-  if (sendResult.retryable) {
-    await markForRetry(fbPostId, sendResult.error || 'Send failed');
-
-    if (sendResult.retryAfterMs) {
-      log.warn({ fbPostId, retryAfterMs: sendResult.retryAfterMs }, 'Rate limited, will retry');
-    }
-
-    throw new Error(`Retryable send error: ${sendResult.error}`);
+  if (deliveries.some((d) => d.status === DeliveryStatus.failed)) {
+    await transitionPost(
+      fbPostId,
+      PostStatus.failed,
+      { lastError: errors },
+      { error: errors, channels }
+    );
+    log.error({ fbPostId, error: errors }, '❌ Post delivery failed');
+    await notifyPostProblem(fbPostId, PostStatus.failed, errors, page.id);
+    return;
   }
 
-  // Non-retryable failure
   await transitionPost(
     fbPostId,
-    PostStatus.failed,
-    { lastError: sendResult.error },
-    { error: sendResult.error }
+    PostStatus.delivered,
+    undefined,
+    {
+      latencyMs,
+      messages: deliveries.map((d) => ({ channel: d.destination, messageId: d.messageId })),
+    }
   );
-  log.error({ fbPostId, error: sendResult.error }, '❌ Post delivery failed');
+  log.info({ fbPostId, latencyMs, channels }, '✅ Post delivered');
 }
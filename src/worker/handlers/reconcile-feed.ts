@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import type PgBoss from 'pg-boss';
+import { config } from '../../config.js';
+import type { Logger } from '../../logger.js';
+import { findMissedPosts, enqueueMissedPosts, type MissedPost } from '../../services/backfill.js';
+import { notifyOps } from '../../services/ops-alerts.js';
+import { listPages, type PageContext } from '../../services/pages.js';
+
+/** Posts younger than this may still have their webhook in flight */
+const WEBHOOK_GRACE_MS = 2 * 60 * 1000;
+
+/**
+ * Compare one page's recent feed with the posts table and relay tracked posts that never arrived
+ * Any missed post means the webhook subscription is not delivering, so ops are alerted.
+ * Returns the missed posts, or null if the feed could not be read
+ */
+export async function reconcilePage(boss: PgBoss, page: PageContext, log: Logger): Promise<MissedPost[] | null> {
+  const now = Date.now();
+  const since = new Date(now - config.RECONCILE_LOOKBACK_MINUTES * 60 * 1000);
+  const until = new Date(now - WEBHOOK_GRACE_MS);
+
+  const result = await findMissedPosts(page, since, until);
+  if (!result.success) {
+    log.warn({ pageId: page.id, error: result.error }, 'Could not read page feed for reconciliation');
+    return null;
+  }
+
+  const missed = result.missed!;
+  if (missed.length === 0) {
+    log.debug({ pageId: page.id, scanned: result.scanned }, 'Feed matches stored posts');
+    return missed;
+  }
+
+  const correlationId = randomUUID();
+  const tracked = missed.filter((entry) => entry.tracked);
+  const enqueued = await enqueueMissedPosts(boss, page, tracked, correlationId, { source: 'reconciler' });
+  log.warn(
+    { pageId: page.id, correlationId, missed: missed.map((entry) => entry.post.id), enqueued },
+    'Posts arrived without a webhook'
+  );
+
+  const label = page.name ? `${page.name} (${page.id})` : page.id;
+  await notifyOps({
+    kind: 'webhook_gap',
+    key: `webhook_gap:${page.id}`,
+    severity: 'critical',
+    title: `Facebook page ${label}: ${missed.length} post(s) never arrived by webhook — check the feed subscription`,
+    details: {
+      page: page.id,
+      missed: missed.map((entry) => entry.post.id).slice(0, 5).join(', ') + (missed.length > 5 ? ', …' : ''),
+      relayed: enqueued.length,
+      check: 'npm run subscribe -- --verify',
+    },
+  });
+
+  return missed;
+}
+
+/**
+ * Scheduled reconciliation of every enabled page
+ */
+export async function reconcileFeeds(boss: PgBoss, log: Logger): Promise<void> {
+  const pages = await listPages();
+  for (const page of pages) {
+    await reconcilePage(boss, page, log);
+  }
+}
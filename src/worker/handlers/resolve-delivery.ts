@@ -0,0 +1,104 @@
+import type PgBoss from 'pg-boss';
+import type { Logger } from '../../logger.js';
+import { findDeliveredMessage, resolveDeliveryRoute, deliveryMarker } from '../../services/discord.js';
+import { prisma, transitionPost, recordPostEvent, PostStatus, DeliveryStatus } from '../../services/post-state.js';
+import { getPageForPost } from '../../services/pages.js';
+import { notifyPostProblem } from '../../services/ops-alerts.js';
+import { requeueProcessPost } from '../../queues.js';
+
+/** A post whose sends keep timing out without arriving is left for manual review after this many resends */
+const MAX_RESENDS = 3;
+
+export type ResolveOutcome = 'delivered' | 'resent' | 'needs_review' | 'skipped';
+
+/**
+ * Settle a post whose Discord send timed out, by looking for the message in the channel
+ *
+ * Each delivery in needs_review is looked up by its footer marker:
+ *   found     → delivered, with the real message ID
+ *   not found → pending again, safe to resend
+ * A failed lookup throws so the job is retried; the post stays in needs_review meanwhile.
+ */
+export async function resolveDelivery(
+  boss: PgBoss,
+  fbPostId: string,
+  correlationId: string,
+  log: Logger
+): Promise<ResolveOutcome> {
+  const post = await prisma.post.findUnique({
+    where: { fbPostId },
+    include: { deliveries: { where: { status: DeliveryStatus.needs_review } } },
+  });
+  // Someone may have resolved it by hand in the meantime
+  if (!post || post.status !== PostStatus.needs_review || post.deliveries.length === 0) {
+    log.info({ fbPostId, status: post?.status }, 'Nothing to resolve');
+    return 'skipped';
+  }
+
+  const page = await getPageForPost(post);
+  if (!page) {
+    const error = `Cannot look up delivery: unknown or disabled page ${post.pageId ?? '(environment)'}`;
+    await notifyPostProblem(fbPostId, PostStatus.needs_review, error, post.pageId);
+    return 'needs_review';
+  }
+
+  // Each lookup that came up empty led to a resend
+  const resends = await prisma.postEvent.count({
+    where: { postId: post.id, event: 'delivery_resolved', details: { path: ['outcome'], equals: 'not_found' } },
+  });
+
+  const unresolved: string[] = [];
+  for (const delivery of post.deliveries) {
+    const route = await resolveDeliveryRoute(delivery, page.routing);
+    if (!route) {
+      unresolved.push(`${delivery.destination}: route removed or webhook changed`);
+      continue;
+    }
+
+    const lookup = await findDeliveredMessage(route, deliveryMarker(delivery.id));
+    if (!lookup.success) {
+      throw new Error(`Delivery lookup failed for ${delivery.destination}: ${lookup.error}`);
+    }
+
+    if (lookup.messageId) {
+      await prisma.delivery.update({
+        where: { id: delivery.id },
+        data: { status: DeliveryStatus.delivered, messageId: lookup.messageId, lastError: null, deliveredAt: new Date() },
+      });
+      log.info({ fbPostId, channel: delivery.destination, messageId: lookup.messageId }, 'Timed-out send had arrived');
+    } else if (resends >= MAX_RESENDS) {
+      unresolved.push(`${delivery.destination}: not in the channel, and ${resends} resends timed out before`);
+    } else {
+      await prisma.delivery.update({ where: { id: delivery.id }, data: { status: DeliveryStatus.pending } });
+      log.warn({ fbPostId, channel: delivery.destination }, 'Timed-out send never arrived');
+    }
+    await recordPostEvent(fbPostId, 'delivery_resolved', {
+      channel: delivery.destination,
+      outcome: lookup.messageId ? 'found' : 'not_found',
+      messageId: lookup.messageId,
+      correlationId,
+    });
+  }
+
+  if (unresolved.length > 0) {
+    const error = unresolved.join('; ');
+    await prisma.post.update({ where: { id: post.id }, data: { lastError: error } });
+    await notifyPostProblem(fbPostId, PostStatus.needs_review, error, page.id);
+    return 'needs_review';
+  }
+
+  const deliveries = await prisma.delivery.findMany({ where: { postId: post.id } });
+  if (deliveries.every((d) => d.status === DeliveryStatus.delivered)) {
+    await transitionPost(fbPostId, PostStatus.delivered, undefined, {
+      source: 'resolver',
+      messages: deliveries.map((d) => ({ channel: d.destination, messageId: d.messageId })),
+    });
+    log.info({ fbPostId }, '✅ Post delivered (confirmed in Discord)');
+    return 'delivered';
+  }
+
+  // Only copies that never arrived are pending again; delivered copies are not resent
+  await transitionPost(fbPostId, PostStatus.received, undefined, { reason: 'Timed-out send never arrived', source: 'resolver' });
+  await requeueProcessPost(boss, post, correlationId);
+  return 'resent';
+}
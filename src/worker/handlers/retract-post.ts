@@ -0,0 +1,124 @@
+import { config } from '../../config.js';
+import type { Logger } from '../../logger.js';
+import { resolveDeliveryRoute, retractDiscordMessage } from '../../services/discord.js';
+import {
+  transitionPost,
+  recordPostEvent,
+  getDeliveredMessages,
+  PostStatus,
+  DeliveryStatus,
+  prisma,
+} from '../../services/post-state.js';
+import { getPageForPost } from '../../services/pages.js';
+import { fetchPost } from '../../services/facebook.js';
+
+/**
+ * States where the delivery pipeline is still running for the post
+ * Retraction waits until it settles so we know whether a message exists
+ */
+const IN_FLIGHT_STATES: PostStatus[] = [PostStatus.fetching, PostStatus.eligible, PostStatus.sending];
+
+/**
+ * Retract the Discord alert for a post that was removed on Facebook
+ *
+ * State machine:
+ *   received / failed        → retracted (nothing was sent)
+ *   delivered / needs_review → retracted (message deleted or replaced)
+ *
+ * Every delivered copy is retracted through its own webhook and marked retracted,
+ * so a retry only touches the copies that are left. Nothing is deleted unless the
+ * Graph API confirms the post is gone.
+ */
+export async function retractPost(fbPostId: string, log: Logger): Promise<void> {
+  const post = await prisma.post.findUnique({ where: { fbPostId } });
+  if (!post) {
+    log.warn({ fbPostId }, 'Post not found in database');
+    return;
+  }
+
+  if (post.status === PostStatus.retracted || post.status === PostStatus.ignored) {
+    log.debug({ fbPostId, status: post.status }, 'Nothing to retract');
+    return;
+  }
+
+  if (IN_FLIGHT_STATES.includes(post.status)) {
+    // Let pg-boss retry once processing has finished
+    throw new Error(`Post is ${post.status}, retrying retraction later`);
+  }
+
+  const delivered = await getDeliveredMessages(post.id);
+  if (delivered.length === 0) {
+    await transitionPost(fbPostId, PostStatus.retracted, undefined, {
+      reason: 'Post removed on Facebook',
+      messages: [],
+    });
+    log.info({ fbPostId }, 'Post removed before a Discord message existed');
+    return;
+  }
+
+  const page = await getPageForPost(post);
+  if (!page) {
+    log.error({ fbPostId, pageId: post.pageId }, 'Post belongs to an unknown or disabled page, cannot retract');
+    await recordPostEvent(fbPostId, 'retract_failed', { error: 'Unknown or disabled page', pageId: post.pageId });
+    return;
+  }
+
+  // === CONFIRM REMOVAL ===
+  const fetchResult = await fetchPost(fbPostId, page);
+  if (fetchResult.success) {
+    log.warn({ fbPostId }, 'Post still exists on Facebook, not retracting');
+    await recordPostEvent(fbPostId, 'retract_skipped', { reason: 'Post still on Facebook' });
+    return;
+  }
+  if (!fetchResult.notFound) {
+    if (fetchResult.retryable) {
+      throw new Error(`Retryable fetch error: ${fetchResult.error}`);
+    }
+    log.error({ fbPostId, error: fetchResult.error }, 'Cannot confirm the post was removed, not retracting');
+    await recordPostEvent(fbPostId, 'retract_failed', { error: `Cannot confirm removal: ${fetchResult.error}` });
+    return;
+  }
+
+  const retracted: Array<{ channel: string; messageId: string }> = [];
+  const failures: Array<{ channel: string; messageId: string; error: string }> = [];
+
+  for (const delivery of delivered) {
+    const route = await resolveDeliveryRoute(delivery, page.routing);
+    if (!route) {
+      failures.push({ channel: delivery.destination, messageId: delivery.messageId, error: 'Route removed or webhook changed' });
+      continue;
+    }
+
+    const result = await retractDiscordMessage(fbPostId, delivery.messageId, route);
+    if (result.success) {
+      await prisma.delivery.update({
+        where: { id: delivery.id },
+        data: { status: DeliveryStatus.retracted },
+      });
+      retracted.push({ channel: delivery.destination, messageId: delivery.messageId });
+      continue;
+    }
+
+    if (result.retryable) {
+      throw new Error(`Retryable retract error: ${result.error}`);
+    }
+    failures.push({ channel: delivery.destination, messageId: delivery.messageId, error: result.error ?? 'Retract failed' });
+  }
+
+  if (failures.length > 0) {
+    log.error({ fbPostId, failures }, 'Failed to retract Discord message');
+    await recordPostEvent(fbPostId, 'retract_failed', {
+      error: failures.map((f) => `${f.channel}: ${f.error}`).join('; '),
+      failures,
+      retracted,
+    });
+    return;
+  }
+
+  await transitionPost(fbPostId, PostStatus.retracted, undefined, {
+    reason: 'Post removed on Facebook',
+    mode: config.DISCORD_RETRACT_MODE,
+    messages: retracted,
+  });
+  log.info({ fbPostId, messages: retracted, mode: config.DISCORD_RETRACT_MODE }, '🗑️ Discord alert retracted');
+}
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import type PgBoss from 'pg-boss';
+import { config } from '../../config.js';
+import type { Logger } from '../../logger.js';
+import { stuckPostsSwept } from '../../metrics.js';
+import { notifyPostProblem } from '../../services/ops-alerts.js';
+import { prisma, transitionPost, recordPostEvent, PostStatus, type Post } from '../../services/post-state.js';
+import { requeueProcessPost, PROCESS_POST_QUEUES } from '../../queues.js';
+
+/** A post re-enqueued this often that gets stuck again is failed instead (it may be what crashes the worker) */
+const MAX_REQUEUES = 3;
+
+const STUCK_STATUSES = [PostStatus.received, PostStatus.fetching, PostStatus.eligible, PostStatus.sending];
+
+export type SweepAction = 'requeued' | 'needs_review' | 'failed' | 'skipped';
+
+export interface SweptPost {
+  fbPostId: string;
+  status: PostStatus;
+  action: SweepAction;
+}
+
+/**
+ * Whether process-post still has a queued, retrying or running job for the post
+ */
+async function hasLiveJob(fbPostId: string): Promise<boolean> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT id FROM pgboss.job
+    WHERE name = ANY(${PROCESS_POST_QUEUES})
+      AND singleton_key = ${fbPostId}
+      AND state::text IN ('created', 'retry', 'active')
+    LIMIT 1
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * How often the sweeper has re-enqueued this post before
+ */
+async function countRequeues(postId: string): Promise<number> {
+  return prisma.postEvent.count({
+    where: { postId, event: 'swept', details: { path: ['action'], equals: 'requeued' } },
+  });
+}
+
+/**
+ * Decide what to do with one stuck post and record the decision in its event log
+ */
+async function sweepPost(boss: PgBoss, post: Post, correlationId: string, log: Logger): Promise<SweepAction> {
+  const stuckMinutes = Math.round((Date.now() - post.updatedAt.getTime()) / 60000);
+  const details = { status: post.status, stuckMinutes, correlationId };
+  const reason = `Stuck in ${post.status} for ${stuckMinutes} min`;
+
+  // The Discord request may have gone out before the worker died - never send twice
+  if (post.status === PostStatus.sending) {
+    await transitionPost(post.fbPostId, PostStatus.needs_review, { lastError: reason }, { reason, source: 'sweeper' });
+    await recordPostEvent(post.fbPostId, 'swept', { ...details, action: 'needs_review' });
+    await notifyPostProblem(post.fbPostId, PostStatus.needs_review, reason, post.pageId);
+    return 'needs_review';
+  }
+
+  // A job that is still queued or retrying will pick the post up itself
+  if (post.status === PostStatus.received && (await hasLiveJob(post.fbPostId))) {
+    const lastSweep = await prisma.postEvent.findFirst({
+      where: { postId: post.id, event: 'swept', createdAt: { gt: post.updatedAt } },
+    });
+    if (!lastSweep) {
+      await recordPostEvent(post.fbPostId, 'swept', { ...details, action: 'skipped', reason: 'process-post job still queued' });
+    }
+    return 'skipped';
+  }
+
+  if ((await countRequeues(post.id)) >= MAX_REQUEUES) {
+    const error = `${reason}, after ${MAX_REQUEUES} re-enqueues by the sweeper`;
+    await transitionPost(post.fbPostId, PostStatus.failed, { lastError: error }, { reason: error, source: 'sweeper' });
+    await recordPostEvent(post.fbPostId, 'swept', { ...details, action: 'failed' });
+    await notifyPostProblem(post.fbPostId, PostStatus.failed, error, post.pageId);
+    return 'failed';
+  }
+
+  // Nothing was sent yet: start over
+  if (post.status !== PostStatus.received) {
+    const reset = await transitionPost(post.fbPostId, PostStatus.received, undefined, { reason, source: 'sweeper' });
+    if (!reset) {
+      log.warn({ fbPostId: post.fbPostId, status: post.status }, 'Stuck post moved on before it could be reset');
+      return 'skipped';
+    }
+  }
+  await recordPostEvent(post.fbPostId, 'swept', { ...details, action: 'requeued' });
+  if (!(await hasLiveJob(post.fbPostId))) {
+    await requeueProcessPost(boss, post, correlationId);
+  }
+  return 'requeued';
+}
+
+/**
+ * Find posts abandoned mid-pipeline (e.g. the worker crashed) and get them moving again
+ * Paused posts wait for a release on purpose and are left alone.
+ */
+export async function sweepStuckPosts(boss: PgBoss, log: Logger): Promise<SweptPost[]> {
+  const cutoff = new Date(Date.now() - config.STUCK_POST_TIMEOUT_MINUTES * 60 * 1000);
+  const stuck = await prisma.post.findMany({
+    where: { status: { in: STUCK_STATUSES }, updatedAt: { lt: cutoff } },
+    orderBy: { updatedAt: 'asc' },
+    take: 100,
+  });
+  if (stuck.length === 0) {
+    return [];
+  }
+
+  const correlationId = randomUUID();
+  const swept: SweptPost[] = [];
+  for (const post of stuck) {
+    const action = await sweepPost(boss, post, correlationId, log);
+    stuckPostsSwept.inc({ status: post.status, action });
+    swept.push({ fbPostId: post.fbPostId, status: post.status, action });
+  }
+
+  log.warn({ correlationId, swept }, 'Swept stuck posts');
+  return swept;
+}
@@ -1,44 +1,143 @@
 import PgBoss from 'pg-boss';
+import Fastify from 'fastify';
 import { config } from '../config.js';
-import { logger } from '../logger.js';
+import { logger, type Logger } from '../logger.js';
 import { prisma } from '../services/post-state.js';
 import { processPost } from './handlers/process-post.js';
+import { editPost } from './handlers/edit-post.js';
+import { retractPost } from './handlers/retract-post.js';
+import { resolveDelivery } from './handlers/resolve-delivery.js';
+import { checkPageTokens } from './handlers/check-page-tokens.js';
+import { reconcileFeeds } from './handlers/reconcile-feed.js';
+import { sweepStuckPosts } from './handlers/sweep-stuck-posts.js';
+import { expireApprovalJob } from './handlers/expire-approval.js';
 import { verifyPageAccess } from '../services/facebook.js';
 import { testWebhook } from '../services/discord.js';
+import { getRoutingConfig, RoutingConfigError } from '../routing.js';
+import { listPages } from '../services/pages.js';
+import { isApprovalConfigured } from '../services/approvals.js';
+import { metricsRoutes } from '../metrics.js';
+import { notifyRetriesExhausted } from '../services/ops-alerts.js';
+import { archiveOldRecords, retentionPolicyFromConfig } from '../services/retention.js';
+import {
+  POST_QUEUES,
+  PROCESS_POST_QUEUES,
+  EDIT_POST_QUEUE,
+  RETRACT_POST_QUEUE,
+  RESOLVE_DELIVERY_QUEUE,
+  CHECK_PAGE_TOKENS_QUEUE,
+  RECONCILE_FEED_QUEUE,
+  APPLY_RETENTION_QUEUE,
+  SWEEP_STUCK_POSTS_QUEUE,
+  EXPIRE_APPROVAL_QUEUE,
+  type ProcessPostJob,
+  type PostFollowUpJob,
+  type ExpireApprovalJob,
+} from '../queues.js';
 
 const log = logger.child({ component: 'worker' });
 
-// Queue name (must match ingress)
-const PROCESS_POST_QUEUE = 'process-post';
+/** Jobs fetched and run side by side per queue unless QUEUE_CONCURRENCY says otherwise */
+const DEFAULT_CONCURRENCY = 5;
 
-interface WebhookData {
-  message?: string;
-  from?: { id: string; name: string };
-  createdTime?: number;
-}
+/**
+ * Work a post queue: fetch up to QUEUE_CONCURRENCY jobs at once and run them in parallel
+ * Jobs for the same post run one after another. A job that throws is failed on its own,
+ * so pg-boss retries just that one and completes the rest of the batch.
+ */
+async function workPostJobs<T extends PostFollowUpJob>(
+  boss: PgBoss,
+  queue: string,
+  handle: (job: PgBoss.JobWithMetadata<T>, jobLog: Logger) => Promise<void>
+): Promise<void> {
+  const runJob = async (job: PgBoss.JobWithMetadata<T>) => {
+    const { fbPostId, correlationId } = job.data;
+    const jobLog = logger.child({ correlationId, jobId: job.id, fbPostId, queue });
+    try {
+      await handle(job, jobLog);
+    } catch (err) {
+      jobLog.error({ error: err }, 'Job failed');
+      if (job.retryCount >= job.retryLimit) {
+        await notifyRetriesExhausted(queue, fbPostId, err);
+      }
+      await boss.fail(queue, job.id, err instanceof Error ? err : { message: String(err) }); // Let pg-boss handle retry
+    }
+  };
 
-interface ProcessPostJob {
-  fbPostId: string;
-  correlationId: string;
-  webhookData?: WebhookData;
+  await boss.work<T>(
+    queue,
+    { batchSize: config.QUEUE_CONCURRENCY[queue] ?? DEFAULT_CONCURRENCY, includeMetadata: true },
+    async (jobs) => {
+      const byPost = new Map<string, Array<PgBoss.JobWithMetadata<T>>>();
+      for (const job of jobs) {
+        byPost.set(job.data.fbPostId, [...(byPost.get(job.data.fbPostId) ?? []), job]);
+      }
+      await Promise.all(
+        [...byPost.values()].map(async (postJobs) => {
+          for (const job of postJobs) {
+            await runJob(job);
+          }
+        })
+      );
+    }
+  );
 }
 
 async function main() {
   log.info('Starting worker...');
 
+  // Load pages and their routing rules - refuse to start on invalid rules
+  let pages;
+  try {
+    getRoutingConfig();
+    pages = await listPages();
+  } catch (err) {
+    if (err instanceof RoutingConfigError) {
+      log.fatal({ issues: err.issues }, err.message);
+      process.exit(1);
+    }
+    throw err;
+  }
+
+  if (pages.length === 0) {
+    log.warn('No Facebook pages configured. Set META_PAGE_ID / META_PAGE_ACCESS_TOKEN or add one with `npm run subscribe -- --page <id> ...`');
+  }
+
   // Verify external dependencies on startup
-  log.info('Verifying Facebook page access...');
-  const fbOk = await verifyPageAccess();
-  if (!fbOk) {
-    log.error('Failed to verify Facebook page access. Check META_PAGE_ACCESS_TOKEN.');
-    process.exit(1);
+  const webhooks = new Map<string, string>();
+  for (const page of pages) {
+    log.info({ pageId: page.id, pageName: page.name }, 'Verifying Facebook page access...');
+    const fbOk = await verifyPageAccess(page);
+    if (!fbOk) {
+      log.error({ pageId: page.id }, `Failed to verify Facebook page access. Check ${page.fromEnv ? 'META_PAGE_ACCESS_TOKEN' : 'the page token'}.`);
+      process.exit(1);
+    }
+
+    const routing = page.routing;
+    log.info(
+      { pageId: page.id, triggerTag: page.triggerTag, fanOut: routing.fanOut, routes: routing.routes.map((r) => ({ name: r.name, tags: r.tags, priority: r.priority, bulk: r.bulk, approval: r.approval })) },
+      'Routing rules loaded'
+    );
+    const approvalRoutes = [routing.defaultRoute, ...routing.routes].filter((route) => route.approval);
+    if (approvalRoutes.length > 0 && !isApprovalConfigured()) {
+      log.fatal(
+        { pageId: page.id, routes: approvalRoutes.map((route) => route.name) },
+        'Routes require approval but APPROVAL_WEBHOOK_URL, APPROVAL_SIGNING_KEY or PUBLIC_BASE_URL is not set'
+      );
+      process.exit(1);
+    }
+    for (const route of [routing.defaultRoute, ...routing.routes]) {
+      webhooks.set(route.webhookUrl, `${page.id}/${route.name}`);
+    }
   }
 
-  log.info('Verifying Discord webhook...');
-  const discordOk = await testWebhook();
-  if (!discordOk) {
-    log.error('Failed to verify Discord webhook. Check DISCORD_WEBHOOK_URL.');
-    process.exit(1);
+  log.info('Verifying Discord webhooks...');
+  for (const [webhookUrl, label] of webhooks) {
+    const discordOk = await testWebhook(webhookUrl, label);
+    if (!discordOk) {
+      log.error({ route: label }, 'Failed to verify Discord webhook. Check DISCORD_WEBHOOK_URL, ROUTING_CONFIG_PATH and page webhooks.');
+      process.exit(1);
+    }
   }
 
   // Create pg-boss instance
@@ -63,34 +162,115 @@ async function main() {
   await boss.start();
   log.info('pg-boss started');
 
-  // Register job handler
-  // Note: pg-boss v10 passes an array of jobs to the handler
-  await boss.work<ProcessPostJob>(
-    PROCESS_POST_QUEUE,
-    { batchSize: 5 },
-    async (jobs) => {
-      for (const job of jobs) {
-        const { fbPostId, correlationId, webhookData } = job.data;
-        const jobLog = logger.child({ correlationId, jobId: job.id, fbPostId });
-
-        jobLog.info('Processing post job');
-
-        try {
-          await processPost(fbPostId, jobLog, webhookData);
-          jobLog.info('Post processed successfully');
-        } catch (err) {
-          jobLog.error({ error: err }, 'Failed to process post');
-          throw err; // Let pg-boss handle retry
-        }
-      }
+  // The ingress creates the post queues too; a new queue must exist before it is worked
+  for (const queue of POST_QUEUES) {
+    await boss.createQueue(queue);
+  }
+  // process-post schedules lookups of timed-out sends and approval timeouts here
+  await boss.createQueue(RESOLVE_DELIVERY_QUEUE);
+  await boss.createQueue(EXPIRE_APPROVAL_QUEUE);
+
+  // Post jobs: each queue is polled on its own, so bulk posts never wait in front of trade alerts
+  for (const queue of PROCESS_POST_QUEUES) {
+    await workPostJobs<ProcessPostJob>(boss, queue, async (job, jobLog) => {
+      const { fbPostId, correlationId, webhookData, ignoreMaxAge, skipFilters, approvalId } = job.data;
+      jobLog.info('Processing post job');
+      await processPost(fbPostId, jobLog, webhookData, { ignoreMaxAge, skipFilters, approvalId, boss, correlationId });
+      jobLog.info('Post processed successfully');
+    });
+  }
+
+  await workPostJobs<PostFollowUpJob>(boss, EDIT_POST_QUEUE, async (job, jobLog) => {
+    jobLog.info('Processing post edit job');
+    await editPost(job.data.fbPostId, jobLog);
+  });
+
+  await workPostJobs<PostFollowUpJob>(boss, RETRACT_POST_QUEUE, async (job, jobLog) => {
+    jobLog.info('Processing post retraction job');
+    await retractPost(job.data.fbPostId, jobLog);
+  });
+
+  await workPostJobs<PostFollowUpJob>(boss, RESOLVE_DELIVERY_QUEUE, async (job, jobLog) => {
+    jobLog.info('Resolving timed-out delivery');
+    const outcome = await resolveDelivery(boss, job.data.fbPostId, job.data.correlationId, jobLog);
+    jobLog.info({ outcome }, 'Delivery lookup done');
+  });
+  if (config.DISCORD_BOT_TOKEN) {
+    log.info({ delaySeconds: config.DISCORD_RESOLVE_DELAY_SECONDS }, 'Timed-out sends are looked up in Discord');
+  }
+
+  await workPostJobs<ExpireApprovalJob>(boss, EXPIRE_APPROVAL_QUEUE, async (job, jobLog) => {
+    await expireApprovalJob(job.data.approvalId, jobLog);
+  });
+
+  // Page token health check: on a schedule, plus once at startup
+  await boss.createQueue(CHECK_PAGE_TOKENS_QUEUE);
+  await boss.schedule(CHECK_PAGE_TOKENS_QUEUE, config.TOKEN_CHECK_CRON);
+  await boss.work(
+    CHECK_PAGE_TOKENS_QUEUE,
+    async () => {
+      const jobLog = logger.child({ component: 'token-check' });
+      await checkPageTokens(jobLog);
+    }
+  );
+  await boss.send(CHECK_PAGE_TOKENS_QUEUE, {}, { singletonKey: 'startup', singletonSeconds: 60 });
+
+  // Stuck-post sweeper: posts abandoned mid-pipeline by a crashed worker
+  await boss.createQueue(SWEEP_STUCK_POSTS_QUEUE);
+  await boss.schedule(SWEEP_STUCK_POSTS_QUEUE, config.STUCK_POST_SWEEP_CRON);
+  await boss.work(
+    SWEEP_STUCK_POSTS_QUEUE,
+    async () => {
+      const jobLog = logger.child({ component: 'sweeper' });
+      await sweepStuckPosts(boss, jobLog);
     }
   );
 
-  log.info({ queue: PROCESS_POST_QUEUE }, '📬 Worker listening for jobs');
+  // Feed reconciliation: safety net for webhooks Facebook never sent
+  // Schedules are stored in the database, so an old one is removed when the feature is turned off
+  await boss.createQueue(RECONCILE_FEED_QUEUE);
+  if (config.RECONCILE_INTERVAL_MINUTES > 0) {
+    await boss.schedule(RECONCILE_FEED_QUEUE, `*/${config.RECONCILE_INTERVAL_MINUTES} * * * *`);
+    await boss.work(
+      RECONCILE_FEED_QUEUE,
+      async () => {
+        const jobLog = logger.child({ component: 'reconciler' });
+        await reconcileFeeds(boss, jobLog);
+      }
+    );
+    log.info({ intervalMinutes: config.RECONCILE_INTERVAL_MINUTES, lookbackMinutes: config.RECONCILE_LOOKBACK_MINUTES }, 'Feed reconciliation enabled');
+  } else {
+    await boss.unschedule(RECONCILE_FEED_QUEUE);
+  }
+
+  // Retention: archive old rows to ARCHIVE_DIR, then delete them
+  await boss.createQueue(APPLY_RETENTION_QUEUE);
+  if (config.RETENTION_CRON) {
+    await boss.schedule(APPLY_RETENTION_QUEUE, config.RETENTION_CRON);
+    await boss.work(
+      APPLY_RETENTION_QUEUE,
+      async () => {
+        const result = await archiveOldRecords(retentionPolicyFromConfig(), config.ARCHIVE_DIR);
+        log.info({ files: result.files.length, ...result.archived }, 'Retention applied');
+      }
+    );
+    log.info({ cron: config.RETENTION_CRON, archiveDir: config.ARCHIVE_DIR }, 'Retention enabled');
+  } else {
+    await boss.unschedule(APPLY_RETENTION_QUEUE);
+  }
+
+  log.info({ concurrency: config.QUEUE_CONCURRENCY, queues: [...PROCESS_POST_QUEUES, EDIT_POST_QUEUE, RETRACT_POST_QUEUE, RESOLVE_DELIVERY_QUEUE, EXPIRE_APPROVAL_QUEUE, CHECK_PAGE_TOKENS_QUEUE, SWEEP_STUCK_POSTS_QUEUE, RECONCILE_FEED_QUEUE, APPLY_RETENTION_QUEUE] }, '📬 Worker listening for jobs');
+
+  // Prometheus metrics (the worker has no other HTTP surface)
+  const metricsServer = Fastify({ logger: false });
+  await metricsServer.register(metricsRoutes);
+  await metricsServer.listen({ port: config.WORKER_METRICS_PORT, host: '0.0.0.0' });
+  log.info({ port: config.WORKER_METRICS_PORT }, 'Metrics server started');
 
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     log.info({ signal }, 'Shutting down worker...');
+    await metricsServer.close();
     await boss.stop();
     await prisma.$disconnect();
     process.exit(0);
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock config before importing
+vi.mock('../src/config.js', () => ({
+  config: {
+    APPROVAL_SIGNING_KEY: 'test-approval-key-0123456789abcdef',
+  },
+}));
+
+// Import after mocking
+const { createApprovalToken, verifyApprovalToken } = await import('../src/utils/approval-token.js');
+
+describe('approval tokens', () => {
+  it('should round-trip the approval ID and decision', () => {
+    expect(verifyApprovalToken(createApprovalToken('clx123', 'approve'))).toEqual({ approvalId: 'clx123', decision: 'approve' });
+    expect(verifyApprovalToken(createApprovalToken('clx123', 'reject'))).toEqual({ approvalId: 'clx123', decision: 'reject' });
+  });
+
+  it('should produce URL-safe tokens', () => {
+    expect(createApprovalToken('clx123', 'approve')).toMatch(/^[A-Za-z0-9_.-]+$/);
+  });
+
+  it('should reject a reject link turned into an approve link', () => {
+    const signature = createApprovalToken('clx123', 'reject').split('.')[2];
+
+    expect(verifyApprovalToken(`clx123.approve.${signature}`)).toBeNull();
+  });
+
+  it('should reject a signature moved to another approval', () => {
+    const signature = createApprovalToken('clx123', 'approve').split('.')[2];
+
+    expect(verifyApprovalToken(`clx456.approve.${signature}`)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyApprovalToken('')).toBeNull();
+    expect(verifyApprovalToken('clx123')).toBeNull();
+    expect(verifyApprovalToken('clx123.maybe.abc')).toBeNull();
+    expect(verifyApprovalToken(`${createApprovalToken('clx123', 'approve')}.extra`)).toBeNull();
+    expect(verifyApprovalToken('clx123.approve.short')).toBeNull();
+  });
+});
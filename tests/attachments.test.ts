@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { FacebookAttachment } from '../src/services/facebook.js';
+
+// Mock config before importing
+vi.mock('../src/config.js', () => ({
+  config: {
+    TRIGGER_TAG: '#discord',
+    DATABASE_URL: 'postgresql://localhost/test',
+    LOG_LEVEL: 'silent',
+  },
+}));
+
+// Import after mocking
+const { extractMedia } = await import('../src/utils/attachments.js');
+const { buildEmbeds } = await import('../src/services/discord.js');
+
+const PERMALINK = 'https://www.facebook.com/123/posts/456';
+
+const photo = (src: string): FacebookAttachment => ({
+  media_type: 'photo',
+  url: `https://www.facebook.com/photo/?fbid=${src}`,
+  media: { image: { src: `https://scontent.example/${src}.jpg` } },
+});
+
+const album = (...photos: FacebookAttachment[]): FacebookAttachment => ({
+  media_type: 'album',
+  url: 'https://www.facebook.com/media/set/?set=a.1',
+  media: { image: { src: 'https://scontent.example/cover.jpg' } },
+  subattachments: { data: photos },
+});
+
+const video: FacebookAttachment = {
+  media_type: 'video',
+  type: 'video_inline',
+  url: 'https://www.facebook.com/123/videos/789/',
+  media: { image: { src: 'https://scontent.example/thumb.jpg' }, source: 'https://video.example/789.mp4' },
+};
+
+const share: FacebookAttachment = {
+  media_type: 'link',
+  type: 'share',
+  url: 'https://l.facebook.com/l.php?u=https%3A%2F%2Fnews.example%2Fstory',
+  unshimmed_url: 'https://news.example/story',
+  title: 'Markets rally',
+  description: 'Stocks closed higher on Friday.',
+  media: { image: { src: 'https://scontent.example/story.jpg' } },
+};
+
+describe('extractMedia', () => {
+  it('should return nothing for a post without attachments', () => {
+    expect(extractMedia()).toEqual({ images: [], videos: [], links: [] });
+  });
+
+  it('should take album photos from subattachments', () => {
+    const { images } = extractMedia([album(photo('a'), photo('b'), photo('c'))]);
+    expect(images).toEqual(['https://scontent.example/a.jpg', 'https://scontent.example/b.jpg', 'https://scontent.example/c.jpg']);
+  });
+
+  it('should fall back to the album cover without subattachments', () => {
+    const { images } = extractMedia([{ ...album(), subattachments: undefined }]);
+    expect(images).toEqual(['https://scontent.example/cover.jpg']);
+  });
+
+  it('should link videos to Facebook with their thumbnail', () => {
+    expect(extractMedia([video]).videos).toEqual([
+      { url: 'https://www.facebook.com/123/videos/789/', thumbnailUrl: 'https://scontent.example/thumb.jpg' },
+    ]);
+  });
+
+  it('should use the unshimmed URL of shared links', () => {
+    expect(extractMedia([share]).links).toEqual([
+      {
+        url: 'https://news.example/story',
+        title: 'Markets rally',
+        description: 'Stocks closed higher on Friday.',
+        imageUrl: 'https://scontent.example/story.jpg',
+      },
+    ]);
+  });
+
+  it('should skip duplicate images', () => {
+    expect(extractMedia([photo('a'), photo('a')]).images).toHaveLength(1);
+  });
+});
+
+describe('buildEmbeds', () => {
+  const post = (...attachments: FacebookAttachment[]) => ({
+    id: '123_456',
+    message: 'AAPL #discord',
+    permalink_url: PERMALINK,
+    attachments: { data: attachments },
+  });
+
+  it('should build one embed with the photo of a single-photo post', () => {
+    const embeds = buildEmbeds(post(photo('a')));
+    expect(embeds).toHaveLength(1);
+    expect(embeds[0]).toMatchObject({ url: PERMALINK, image: { url: 'https://scontent.example/a.jpg' } });
+  });
+
+  it('should render an album as a gallery of up to 4 embeds sharing the post URL', () => {
+    const embeds = buildEmbeds(post(album(photo('a'), photo('b'), photo('c'), photo('d'), photo('e'))));
+    expect(embeds).toHaveLength(4);
+    expect(embeds.every((embed) => embed.url === PERMALINK)).toBe(true);
+    expect(embeds.map((embed) => embed.image?.url)).toEqual([
+      'https://scontent.example/a.jpg',
+      'https://scontent.example/b.jpg',
+      'https://scontent.example/c.jpg',
+      'https://scontent.example/d.jpg',
+    ]);
+  });
+
+  it('should show a video thumbnail with a link to the video', () => {
+    const [embed] = buildEmbeds(post(video));
+    expect(embed.image).toEqual({ url: 'https://scontent.example/thumb.jpg' });
+    expect(embed.description).toBe('▶️ [Watch the video](https://www.facebook.com/123/videos/789/)');
+  });
+
+  it('should add a preview card for a shared link', () => {
+    const embeds = buildEmbeds(post(share), 'NEWS', 0xff0000);
+    expect(embeds).toHaveLength(2);
+    expect(embeds[1]).toEqual({
+      title: 'Markets rally',
+      url: 'https://news.example/story',
+      description: 'Stocks closed higher on Friday.',
+      color: 0xff0000,
+      thumbnail: { url: 'https://scontent.example/story.jpg' },
+    });
+  });
+
+  it('should not build a gallery without a post URL', () => {
+    const embeds = buildEmbeds({ ...post(photo('a'), photo('b')), permalink_url: undefined });
+    expect(embeds).toHaveLength(1);
+  });
+});
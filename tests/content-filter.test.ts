@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { applyContentFilters, redactionFilters } from '../src/utils/content-filter.js';
+import type { ContentFilter } from '../src/routing.js';
+
+const phone: ContentFilter = { type: 'redact', name: 'phone', pattern: '\\+?\\d[\\d\\s().-]{7,}\\d', replacement: '[phone removed]' };
+const personal: ContentFilter = { type: 'deny', name: 'personal', keywords: ['#personal', 'my family'], action: 'ignore' };
+const tooLong: ContentFilter = { type: 'maxLength', name: 'too-long', maxLength: 40, action: 'hold' };
+const ticker: ContentFilter = { type: 'requireTicker', name: 'ticker', action: 'hold' };
+
+describe('applyContentFilters', () => {
+  it('should pass a message no rule matches unchanged', () => {
+    expect(applyContentFilters('Buy $AAPL #discord', [phone, personal, tooLong, ticker])).toEqual({
+      message: 'Buy $AAPL #discord',
+      redactions: [],
+    });
+  });
+
+  it('should redact every match and count them', () => {
+    const result = applyContentFilters('Call 555-123-4567 or +1 (555) 987 6543', [phone]);
+    expect(result.message).toBe('Call [phone removed] or [phone removed]');
+    expect(result.redactions).toEqual([{ rule: 'phone', count: 2 }]);
+    expect(result.blocked).toBeUndefined();
+  });
+
+  it('should match deny keywords case-insensitively as whole words', () => {
+    expect(applyContentFilters('Dinner with MY FAMILY #discord', [personal]).blocked).toEqual({
+      rule: 'personal',
+      type: 'deny',
+      action: 'ignore',
+      reason: 'Contains "my family"',
+    });
+    expect(applyContentFilters('#Personal update #discord', [personal]).blocked?.rule).toBe('personal');
+    expect(applyContentFilters('#personalfinance tips #discord', [personal]).blocked).toBeUndefined();
+  });
+
+  it('should stop messages over the length limit', () => {
+    expect(applyContentFilters('x'.repeat(41), [tooLong]).blocked).toMatchObject({
+      rule: 'too-long',
+      action: 'hold',
+      reason: 'Message is 41 characters (max 40)',
+    });
+    expect(applyContentFilters('x'.repeat(40), [tooLong]).blocked).toBeUndefined();
+  });
+
+  it('should stop messages without a ticker', () => {
+    expect(applyContentFilters('Good morning everyone #discord', [ticker]).blocked?.reason).toBe('No ticker found');
+    expect(applyContentFilters('Watching AAPL 150C 3/21 #discord', [ticker]).blocked).toBeUndefined();
+    expect(applyContentFilters(undefined, [ticker]).blocked?.rule).toBe('ticker');
+  });
+
+  it('should stop at the first rule that matches', () => {
+    const result = applyContentFilters('#personal post, no ticker', [ticker, personal]);
+    expect(result.blocked?.rule).toBe('ticker');
+  });
+
+  it('should check later rules against the redacted text', () => {
+    const result = applyContentFilters('Buy $AAPL, text me at 555-123-4567', [phone, tooLong]);
+    expect(result.message).toBe('Buy $AAPL, text me at [phone removed]');
+    expect(result.blocked).toBeUndefined();
+  });
+});
+
+describe('redactionFilters', () => {
+  it('should keep only the rules that change text', () => {
+    expect(redactionFilters([personal, phone, tooLong, ticker])).toEqual([phone]);
+  });
+});
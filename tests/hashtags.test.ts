@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { extractHashtags, isHashtag, normalizeTag, removeHashtags } from '../src/utils/hashtags.js';
+
+interface Fixtures {
+  extract: Array<{ name: string; message: string; tags: string[] }>;
+  strip: Array<{ name: string; message: string; stripped: string }>;
+}
+
+const fixtures = JSON.parse(readFileSync(new URL('./fixtures/hashtags.json', import.meta.url), 'utf8')) as Fixtures;
+
+describe('extractHashtags', () => {
+  it.each(fixtures.extract)('$name', ({ message, tags }) => {
+    expect(extractHashtags(message).map((hashtag) => hashtag.tag)).toEqual(tags);
+  });
+
+  it('should report where each hashtag is written', () => {
+    expect(extractHashtags('Buy #AAPL (#discord)')).toEqual([
+      { tag: '#aapl', index: 4, length: 5 },
+      { tag: '#discord', index: 11, length: 8 },
+    ]);
+  });
+
+  it('should return nothing for null and undefined', () => {
+    expect(extractHashtags(null)).toEqual([]);
+    expect(extractHashtags(undefined)).toEqual([]);
+  });
+});
+
+describe('removeHashtags', () => {
+  it.each(fixtures.strip)('$name', ({ message, stripped }) => {
+    expect(removeHashtags(message)).toBe(stripped);
+  });
+
+  it('should only remove the hashtags the filter accepts', () => {
+    expect(removeHashtags('#discord Buy #AAPL', (tag) => tag === '#discord')).toBe('Buy #AAPL');
+  });
+});
+
+describe('isHashtag', () => {
+  it('should accept a single hashtag', () => {
+    expect(isHashtag('#discord')).toBe(true);
+    expect(isHashtag('#Börse')).toBe(true);
+    expect(isHashtag('#bull-flag')).toBe(true);
+  });
+
+  it('should reject anything that would never match a post', () => {
+    expect(isHashtag('discord')).toBe(false);
+    expect(isHashtag('#')).toBe(false);
+    expect(isHashtag('#123')).toBe(false);
+    expect(isHashtag('#discord.')).toBe(false);
+    expect(isHashtag('#a #b')).toBe(false);
+    expect(isHashtag(' #discord')).toBe(false);
+  });
+});
+
+describe('normalizeTag', () => {
+  it('should lowercase, compose accents and use an ASCII hash', () => {
+    expect(normalizeTag('#DISCORD')).toBe('#discord');
+    expect(normalizeTag('#economi\u0301a')).toBe('#econom\u00eda');
+    expect(normalizeTag('＃Discord')).toBe('#discord');
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * Integration tests for the admin API
+ * Tests auth, post inspection and manual actions against the state machine
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PostStatus, DeliveryStatus } from '@prisma/client';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+
+const ADMIN_TOKEN = 'test-admin-token-0123456789';
+process.env.ADMIN_API_TOKEN = ADMIN_TOKEN;
+
+// Record jobs sent to pg-boss
+const sentJobs: Array<{ queue: string; data: any; options: any }> = [];
+
+// Mock pg-boss before importing routes
+vi.mock('pg-boss', () => {
+  return {
+    default: class MockPgBoss {
+      constructor() {}
+      async start() {}
+      async stop() {}
+      async createQueue() {}
+      async send(queue: string, data: any, options: any) {
+        sentJobs.push({ queue, data, options });
+        return 'mock-job-id';
+      }
+      on() {}
+    },
+  };
+});
+
+// Now import the routes
+const { adminRoutes } = await import('../../src/ingress/routes/admin.js');
+
+describe('Admin API Integration', () => {
+  let app: FastifyInstance;
+  const auth = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+
+    app = Fastify({ logger: false });
+    await app.register(adminRoutes, { prefix: '/admin' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    sentJobs.length = 0;
+  });
+
+  describe('authentication', () => {
+    it('should reject requests without a token', async () => {
+      const response = await app.inject({ method: 'GET', url: '/admin/posts' });
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject requests with the wrong token', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/admin/posts',
+        headers: { authorization: 'Bearer wrong-token' },
+      });
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('GET /admin/posts', () => {
+    it('should filter posts by status', async () => {
+      await prisma.post.createMany({
+        data: [
+          { fbPostId: 'admin_failed', status: PostStatus.failed },
+          { fbPostId: 'admin_review', status: PostStatus.needs_review },
+          { fbPostId: 'admin_delivered', status: PostStatus.delivered },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/admin/posts?status=failed,needs_review',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      const ids = body.posts.map((p: any) => p.fbPostId).sort();
+      expect(ids).toEqual(['admin_failed', 'admin_review']);
+    });
+
+    it('should reject unknown statuses', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/admin/posts?status=bogus',
+        headers: auth,
+      });
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /admin/search', () => {
+    beforeEach(async () => {
+      await prisma.post.createMany({
+        data: [
+          { fbPostId: 'search_tsla_feb', status: PostStatus.delivered, receivedAt: new Date('2025-02-20T12:00:00Z'), tickers: ['TSLA'], tags: ['#discord'] },
+          { fbPostId: 'search_tsla_mar', status: PostStatus.delivered, receivedAt: new Date('2025-03-10T12:00:00Z'), tickers: ['TSLA', 'AAPL'], tags: ['#stockstowatch'] },
+          { fbPostId: 'search_tsla_failed', status: PostStatus.failed, receivedAt: new Date('2025-03-11T12:00:00Z'), tickers: ['TSLA'], tags: ['#discord'] },
+          { fbPostId: 'search_aapl_mar', status: PostStatus.delivered, receivedAt: new Date('2025-03-12T12:00:00Z'), tickers: ['AAPL'], tags: ['#discord'] },
+        ],
+      });
+    });
+
+    const search = async (query: string) => {
+      const response = await app.inject({ method: 'GET', url: `/admin/search?${query}`, headers: auth });
+      expect(response.statusCode).toBe(200);
+      return response.json() as { posts: Array<{ fbPostId: string }>; nextCursor: string | null };
+    };
+
+    it('should filter by ticker and date range, newest first', async () => {
+      const body = await search('ticker=$tsla&from=2025-03-01&to=2025-04-01');
+      expect(body.posts.map((p) => p.fbPostId)).toEqual(['search_tsla_failed', 'search_tsla_mar']);
+    });
+
+    it('should combine ticker, tag and status filters', async () => {
+      expect((await search('ticker=TSLA&status=delivered')).posts.map((p) => p.fbPostId)).toEqual(['search_tsla_mar', 'search_tsla_feb']);
+      expect((await search('tag=stockstowatch')).posts.map((p) => p.fbPostId)).toEqual(['search_tsla_mar']);
+    });
+
+    it('should paginate with a cursor', async () => {
+      const first = await search('ticker=TSLA&limit=2');
+      expect(first.posts).toHaveLength(2);
+      const second = await search(`ticker=TSLA&limit=2&cursor=${first.nextCursor}`);
+      expect(second.posts.map((p) => p.fbPostId)).toEqual(['search_tsla_feb']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should reject invalid dates', async () => {
+      const response = await app.inject({ method: 'GET', url: '/admin/search?from=last-month', headers: auth });
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toContain('Invalid from date');
+    });
+
+    it('should export every match as CSV', async () => {
+      const response = await app.inject({ method: 'GET', url: '/admin/search/export?ticker=AAPL', headers: auth });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['x-export-truncated']).toBe('false');
+      const lines = response.body.trim().split('\r\n');
+      expect(lines[0]).toMatch(/^fb_post_id,received_at,status/);
+      expect(lines.slice(1).map((line) => line.split(',')[0])).toEqual(['search_aapl_mar', 'search_tsla_mar']);
+    });
+
+    it('should export JSON on request', async () => {
+      const response = await app.inject({ method: 'GET', url: '/admin/search/export?ticker=AAPL&format=json', headers: auth });
+      expect(response.json().posts).toHaveLength(2);
+    });
+  });
+
+  describe('GET /admin/posts/:fbPostId', () => {
+    it('should return events and delivery logs', async () => {
+      const post = await prisma.post.create({
+        data: {
+          fbPostId: 'admin_detail',
+          status: PostStatus.delivered,
+          events: { create: { event: 'status_delivered' } },
+        },
+      });
+      const delivery = await prisma.delivery.create({
+        data: { postId: post.id, destination: 'default', status: DeliveryStatus.delivered, messageId: 'msg-1' },
+      });
+      await prisma.deliveryLog.create({
+        data: {
+          fbPostId: 'admin_detail',
+          deliveryId: delivery.id,
+          destination: 'default',
+          success: true,
+          discordMsgId: 'msg-1',
+        },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/admin/posts/admin_detail',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.post.events.map((e: any) => e.event)).toContain('status_delivered');
+      expect(body.post.deliveries).toMatchObject([{ destination: 'default', messageId: 'msg-1' }]);
+      expect(body.deliveries).toHaveLength(1);
+    });
+
+    it('should return 404 for unknown posts', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/admin/posts/does_not_exist',
+        headers: auth,
+      });
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('actions', () => {
+    it('should retry a failed post and enqueue it', async () => {
+      await prisma.post.create({ data: { fbPostId: 'admin_retry', status: PostStatus.failed } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_retry/retry',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const post = await prisma.post.findUnique({
+        where: { fbPostId: 'admin_retry' },
+        include: { events: true },
+      });
+      expect(post?.status).toBe(PostStatus.received);
+      expect(post?.events[0].details).toMatchObject({ source: 'admin', action: 'retry' });
+
+      expect(sentJobs).toHaveLength(1);
+      expect(sentJobs[0].queue).toBe('process-post');
+      // An operator retry is usually past MAX_POST_AGE_MINUTES
+      expect(sentJobs[0].data).toMatchObject({ fbPostId: 'admin_retry', ignoreMaxAge: true });
+    });
+
+    it('should refuse to retry a delivered post', async () => {
+      await prisma.post.create({ data: { fbPostId: 'admin_done', status: PostStatus.delivered } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_done/retry',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(sentJobs).toHaveLength(0);
+    });
+
+    it('should refuse to retry a post that is still being sent', async () => {
+      await prisma.post.create({
+        data: {
+          fbPostId: 'admin_in_flight',
+          status: PostStatus.sending,
+          deliveries: { create: { destination: 'default', status: DeliveryStatus.pending, attempts: 1 } },
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_in_flight/retry',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(sentJobs).toHaveLength(0);
+      const post = await prisma.post.findUnique({ where: { fbPostId: 'admin_in_flight' }, include: { deliveries: true } });
+      expect(post?.status).toBe(PostStatus.sending);
+      expect(post?.deliveries[0]).toMatchObject({ status: DeliveryStatus.pending, attempts: 1 });
+    });
+
+    it('should refuse to mark a post delivered while it is being sent', async () => {
+      await prisma.post.create({ data: { fbPostId: 'admin_racing', status: PostStatus.sending } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_racing/mark-delivered',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect((await prisma.post.findUnique({ where: { fbPostId: 'admin_racing' } }))?.status).toBe(PostStatus.sending);
+    });
+
+    it('should mark a needs_review post as delivered', async () => {
+      await prisma.post.create({
+        data: {
+          fbPostId: 'admin_confirm',
+          status: PostStatus.needs_review,
+          deliveries: { create: { destination: 'default', status: DeliveryStatus.needs_review } },
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_confirm/mark-delivered',
+        headers: { ...auth, 'content-type': 'application/json' },
+        payload: JSON.stringify({ discordMsgId: 'found-in-channel' }),
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const post = await prisma.post.findUnique({
+        where: { fbPostId: 'admin_confirm' },
+        include: { deliveries: true },
+      });
+      expect(post?.status).toBe(PostStatus.delivered);
+      expect(post?.deliveries[0]).toMatchObject({ status: DeliveryStatus.delivered, messageId: 'found-in-channel' });
+    });
+
+    it('should ask which destination a message ID belongs to when several are unresolved', async () => {
+      await prisma.post.create({
+        data: {
+          fbPostId: 'admin_confirm_many',
+          status: PostStatus.needs_review,
+          deliveries: {
+            create: [
+              { destination: 'news', status: DeliveryStatus.needs_review },
+              { destination: 'watch', status: DeliveryStatus.needs_review },
+            ],
+          },
+        },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_confirm_many/mark-delivered',
+        headers: { ...auth, 'content-type': 'application/json' },
+        payload: JSON.stringify({ discordMsgId: 'found-in-channel' }),
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).destinations).toEqual(expect.arrayContaining(['news', 'watch']));
+
+      const post = await prisma.post.findUnique({ where: { fbPostId: 'admin_confirm_many' } });
+      expect(post?.status).toBe(PostStatus.needs_review);
+    });
+
+    it('should ignore a failed post', async () => {
+      await prisma.post.create({ data: { fbPostId: 'admin_dismiss', status: PostStatus.failed } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_dismiss/ignore',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId: 'admin_dismiss' } });
+      expect(post?.status).toBe(PostStatus.ignored);
+    });
+
+    it('should release a held post past its content filters', async () => {
+      await prisma.post.create({ data: { fbPostId: 'admin_held', status: PostStatus.held } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_held/release',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId: 'admin_held' }, include: { events: true } });
+      expect(post?.status).toBe(PostStatus.received);
+      expect(post?.events[0].details).toMatchObject({ source: 'admin', action: 'release' });
+
+      expect(sentJobs).toHaveLength(1);
+      expect(sentJobs[0].data).toMatchObject({ fbPostId: 'admin_held', skipFilters: true, ignoreMaxAge: true });
+    });
+
+    it('should only release held posts', async () => {
+      await prisma.post.create({ data: { fbPostId: 'admin_not_held', status: PostStatus.failed } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/posts/admin_not_held/release',
+        headers: auth,
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(sentJobs).toHaveLength(0);
+    });
+  });
+
+  describe('kill switch', () => {
+    it('should toggle alerts and report held posts', async () => {
+      await prisma.post.create({ data: { fbPostId: 'admin_held', status: PostStatus.paused } });
+
+      const off = await app.inject({
+        method: 'PUT',
+        url: '/admin/alerts',
+        headers: { ...auth, 'content-type': 'application/json' },
+        payload: JSON.stringify({ enabled: false }),
+      });
+      expect(off.statusCode).toBe(200);
+
+      const status = await app.inject({ method: 'GET', url: '/admin/alerts', headers: auth });
+      expect(JSON.parse(status.body)).toMatchObject({ enabled: false, source: 'database', pausedCount: 1 });
+    });
+
+    it('should refuse to release held posts while alerts are disabled', async () => {
+      await prisma.setting.create({ data: { key: 'alerts_enabled', value: false } });
+      await prisma.post.create({ data: { fbPostId: 'admin_held_off', status: PostStatus.paused } });
+
+      const response = await app.inject({ method: 'POST', url: '/admin/alerts/release', headers: auth });
+
+      expect(response.statusCode).toBe(409);
+      expect(sentJobs).toHaveLength(0);
+    });
+
+    it('should release held posts and enqueue them', async () => {
+      await prisma.setting.create({ data: { key: 'alerts_enabled', value: true } });
+      await prisma.post.create({ data: { fbPostId: 'admin_held_on', status: PostStatus.paused } });
+
+      const response = await app.inject({ method: 'POST', url: '/admin/alerts/release', headers: auth });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).released).toBe(1);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId: 'admin_held_on' } });
+      expect(post?.status).toBe(PostStatus.received);
+      // A release can be hundreds of posts: they queue behind live ones
+      expect(sentJobs).toMatchObject([{ queue: 'process-post-bulk', data: { fbPostId: 'admin_held_on', ignoreMaxAge: true } }]);
+    });
+  });
+});
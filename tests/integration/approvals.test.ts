@@ -0,0 +1,353 @@
+/**
+ * Integration tests for approval mode
+ * Posts for an approval route wait in awaiting_approval until a signed link decides them
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PostStatus, ApprovalStatus, DeliveryStatus } from '@prisma/client';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+
+const APPROVAL_WEBHOOK = 'https://discord.com/api/webhooks/8/approvals';
+
+process.env.APPROVAL_WEBHOOK_URL = APPROVAL_WEBHOOK;
+process.env.APPROVAL_SIGNING_KEY = 'test-approval-key-0123456789abcdef';
+process.env.APPROVAL_TIMEOUT_MINUTES = '30';
+process.env.PUBLIC_BASE_URL = 'https://relay.example.com';
+
+// Record jobs sent to pg-boss
+const sentJobs: Array<{ queue: string; data: any; options: any }> = [];
+
+// Mock pg-boss before importing routes
+vi.mock('pg-boss', () => {
+  return {
+    default: class MockPgBoss {
+      constructor() {}
+      async start() {}
+      async stop() {}
+      async createQueue() {}
+      async send(queue: string, data: any, options: any) {
+        sentJobs.push({ queue, data, options });
+        return 'mock-job-id';
+      }
+      on() {}
+    },
+  };
+});
+
+// Mock fetch for external API calls
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Import after setting up mocks
+const { approvalRoutes } = await import('../../src/ingress/routes/approvals.js');
+const { boss } = await import('../../src/ingress/server.js');
+const { processPost } = await import('../../src/worker/handlers/process-post.js');
+const { editPost } = await import('../../src/worker/handlers/edit-post.js');
+const { expireApprovalJob } = await import('../../src/worker/handlers/expire-approval.js');
+const { getOrCreatePost } = await import('../../src/services/post-state.js');
+const { createApprovalToken } = await import('../../src/utils/approval-token.js');
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: () => mockLogger,
+};
+
+const PAGE_ID = '888000111';
+
+describe('Approval mode', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+
+    app = Fastify({ logger: false });
+    await app.register(approvalRoutes, { prefix: '/approvals' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    mockFetch.mockReset();
+    vi.clearAllMocks();
+    sentJobs.length = 0;
+
+    await prisma.page.create({
+      data: {
+        id: PAGE_ID,
+        accessToken: 'approval-page-token',
+        discordWebhookUrl: `https://discord.com/api/webhooks/${PAGE_ID}/alerts`,
+        routing: { default: { approval: true } },
+      },
+    });
+  });
+
+  const mockGraphPost = (fbPostId: string, message: string) => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: fbPostId, message, created_time: new Date().toISOString(), from: { id: PAGE_ID, name: 'Approval Page' } }),
+    });
+  };
+
+  // Run a post up to awaiting_approval and return its approval
+  const requestApproval = async (fbPostId: string, message = 'Buy $AAPL at 150 #discord') => {
+    await getOrCreatePost(fbPostId, PAGE_ID);
+    mockGraphPost(fbPostId, message);
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' });
+
+    await processPost(fbPostId, mockLogger as any, undefined, { boss, correlationId: 'corr-approval' });
+
+    return prisma.approval.findFirstOrThrow({ where: { post: { fbPostId } }, orderBy: { createdAt: 'desc' } });
+  };
+
+  const decide = (approvalId: string, decision: 'approve' | 'reject', method: 'GET' | 'POST' = 'POST') =>
+    app.inject({ method, url: `/approvals/${createApprovalToken(approvalId, decision)}` });
+
+  describe('requesting approval', () => {
+    it('should park the post and send the approvers a preview with signed links', async () => {
+      const fbPostId = `${PAGE_ID}_request`;
+      const approval = await requestApproval(fbPostId);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId }, include: { events: true } });
+      expect(post?.status).toBe(PostStatus.awaiting_approval);
+      expect(post?.events.find((e) => e.event === 'status_awaiting_approval')?.details).toMatchObject({
+        approvalId: approval.id,
+        destinations: ['default'],
+      });
+      expect(approval).toMatchObject({ status: ApprovalStatus.pending, message: 'Buy $AAPL at 150 #discord', destinations: ['default'] });
+      expect(approval.expiresAt.getTime() - approval.createdAt.getTime()).toBeCloseTo(30 * 60 * 1000, -4);
+
+      // Only the approvers channel was posted to
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const [url, init] = mockFetch.mock.calls[1];
+      expect(String(url)).toContain(APPROVAL_WEBHOOK);
+      const payload = JSON.parse(init.body);
+      expect(payload.content).toContain(`https://relay.example.com/approvals/${createApprovalToken(approval.id, 'approve')}`);
+      expect(payload.content).toContain(`https://relay.example.com/approvals/${createApprovalToken(approval.id, 'reject')}`);
+      expect(payload.content).toContain('Buy $AAPL at 150');
+      expect(payload.allowed_mentions).toEqual({ parse: [] });
+
+      expect(sentJobs).toMatchObject([
+        { queue: 'expire-approval', data: { fbPostId, approvalId: approval.id }, options: { singletonKey: approval.id } },
+      ]);
+    });
+
+    it('should leave posts awaiting approval alone when their job runs again', async () => {
+      const fbPostId = `${PAGE_ID}_rerun`;
+      await requestApproval(fbPostId);
+      mockFetch.mockReset();
+
+      await processPost(fbPostId, mockLogger as any);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.awaiting_approval);
+    });
+
+    it('should retry when the approvers channel cannot be reached', async () => {
+      const fbPostId = `${PAGE_ID}_unreachable`;
+      await getOrCreatePost(fbPostId, PAGE_ID);
+      mockGraphPost(fbPostId, 'Buy $AAPL at 150 #discord');
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503, text: async () => 'unavailable' });
+
+      await expect(processPost(fbPostId, mockLogger as any)).rejects.toThrow('Retryable approval request error');
+
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.received);
+      expect((await prisma.approval.findFirst({ where: { post: { fbPostId } } }))?.status).toBe(ApprovalStatus.expired);
+    });
+  });
+
+  describe('approval links', () => {
+    it('should only show a confirmation page on GET', async () => {
+      const fbPostId = `${PAGE_ID}_confirm`;
+      const approval = await requestApproval(fbPostId);
+
+      const response = await decide(approval.id, 'approve', 'GET');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.body).toContain('Buy $AAPL at 150 #discord');
+      // No absolute action: behind a proxy under a subpath it would post outside the relay
+      expect(response.body).toContain('<form method="post">');
+      expect((await prisma.approval.findUnique({ where: { id: approval.id } }))?.status).toBe(ApprovalStatus.pending);
+    });
+
+    it('should queue an approved post and send it on the next run', async () => {
+      const fbPostId = `${PAGE_ID}_approved`;
+      const approval = await requestApproval(fbPostId);
+      sentJobs.length = 0;
+
+      const response = await decide(approval.id, 'approve');
+
+      expect(response.statusCode).toBe(200);
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.received);
+      expect(sentJobs).toMatchObject([{ queue: 'process-post', data: { fbPostId, approvalId: approval.id, ignoreMaxAge: true } }]);
+
+      mockFetch.mockReset();
+      mockGraphPost(fbPostId, 'Buy $AAPL at 150 #discord');
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'discord-msg-approved' }) });
+
+      await processPost(fbPostId, mockLogger as any, undefined, { approvalId: approval.id });
+
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.delivered);
+      expect(String(mockFetch.mock.calls[1][0])).toContain(`/webhooks/${PAGE_ID}/alerts`);
+    });
+
+    it('should send a post approved after MAX_POST_AGE_MINUTES', async () => {
+      const fbPostId = `${PAGE_ID}_slow_approval`;
+      const approval = await requestApproval(fbPostId);
+      sentJobs.length = 0;
+
+      await decide(approval.id, 'approve');
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Buy $AAPL at 150 #discord',
+          created_time: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
+          from: { id: PAGE_ID, name: 'Approval Page' },
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'discord-msg-slow-approval' }) });
+
+      const { approvalId, ignoreMaxAge, skipFilters } = sentJobs[0].data;
+      await processPost(fbPostId, mockLogger as any, undefined, { approvalId, ignoreMaxAge, skipFilters });
+
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.delivered);
+    });
+
+    it('should send an approved post re-enqueued without the approval', async () => {
+      const fbPostId = `${PAGE_ID}_requeued`;
+      const approval = await requestApproval(fbPostId);
+      await decide(approval.id, 'approve');
+      // As stored by the first run of the approved job, before the worker died
+      await prisma.post.update({ where: { fbPostId }, data: { approvalId: approval.id, ignoreMaxAge: true } });
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Buy $AAPL at 150 #discord',
+          created_time: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
+          from: { id: PAGE_ID, name: 'Approval Page' },
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'discord-msg-requeued' }) });
+
+      // The sweeper and resolver enqueue the stored options; a bare job must still not ask again
+      await processPost(fbPostId, mockLogger as any);
+
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.delivered);
+      expect(String(mockFetch.mock.calls[1][0])).toContain(`/webhooks/${PAGE_ID}/alerts`);
+    });
+
+    it('should ask again when the post was edited after it was approved', async () => {
+      const fbPostId = `${PAGE_ID}_edited`;
+      const approval = await requestApproval(fbPostId);
+      await decide(approval.id, 'approve');
+
+      mockFetch.mockReset();
+      mockGraphPost(fbPostId, 'Buy $TSLA at 250 #discord');
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' });
+
+      await processPost(fbPostId, mockLogger as any, undefined, { approvalId: approval.id });
+
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.awaiting_approval);
+      expect(await prisma.approval.count({ where: { post: { fbPostId }, status: ApprovalStatus.pending } })).toBe(1);
+    });
+
+    it('should not apply an edit to an approved copy without a new approval', async () => {
+      const fbPostId = `${PAGE_ID}_edited_after_send`;
+      await prisma.post.create({
+        data: {
+          fbPostId,
+          pageId: PAGE_ID,
+          status: PostStatus.delivered,
+          message: 'Buy $AAPL at 150 #discord',
+          deliveries: {
+            create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg-approved', deliveredAt: new Date() },
+          },
+        },
+      });
+      mockGraphPost(fbPostId, 'Buy $AAPL at 250 #discord');
+
+      await editPost(fbPostId, mockLogger as any);
+
+      // Only the Graph fetch: no PATCH to Discord
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const post = await prisma.post.findUnique({ where: { fbPostId }, include: { events: true } });
+      expect(post?.message).toBe('Buy $AAPL at 150 #discord');
+      expect(post?.events.find((e) => e.event === 'edit_skipped')?.details).toMatchObject({
+        reason: 'Route requires approval',
+        channels: ['default'],
+      });
+    });
+
+    it('should ignore a rejected post and refuse a second decision', async () => {
+      const fbPostId = `${PAGE_ID}_rejected`;
+      const approval = await requestApproval(fbPostId);
+      sentJobs.length = 0;
+
+      expect((await decide(approval.id, 'reject')).statusCode).toBe(200);
+      expect((await decide(approval.id, 'approve')).statusCode).toBe(409);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.ignored);
+      expect(sentJobs).toEqual([]);
+    });
+
+    it('should refuse forged links', async () => {
+      const fbPostId = `${PAGE_ID}_forged`;
+      const approval = await requestApproval(fbPostId);
+      const signature = createApprovalToken(approval.id, 'reject').split('.')[2];
+
+      const response = await app.inject({ method: 'POST', url: `/approvals/${approval.id}.approve.${signature}` });
+
+      expect(response.statusCode).toBe(403);
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.awaiting_approval);
+    });
+  });
+
+  describe('timeout', () => {
+    it('should ignore the post and close its links', async () => {
+      const fbPostId = `${PAGE_ID}_timeout`;
+      const approval = await requestApproval(fbPostId);
+
+      await expireApprovalJob(approval.id, mockLogger as any);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId }, include: { events: true } });
+      expect(post?.status).toBe(PostStatus.ignored);
+      expect(post?.events.find((e) => e.event === 'status_ignored')?.details).toMatchObject({ reason: 'Approval timed out' });
+      expect((await decide(approval.id, 'approve')).statusCode).toBe(410);
+    });
+
+    it('should not touch a post that was already approved', async () => {
+      const fbPostId = `${PAGE_ID}_late`;
+      const approval = await requestApproval(fbPostId);
+      await decide(approval.id, 'approve');
+
+      await expireApprovalJob(approval.id, mockLogger as any);
+
+      expect((await prisma.approval.findUnique({ where: { id: approval.id } }))?.status).toBe(ApprovalStatus.approved);
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.received);
+    });
+
+    it('should refuse links past their expiry before the timeout job runs', async () => {
+      const fbPostId = `${PAGE_ID}_overdue`;
+      const approval = await requestApproval(fbPostId);
+      await prisma.approval.update({ where: { id: approval.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+
+      expect((await decide(approval.id, 'approve')).statusCode).toBe(410);
+      expect((await prisma.post.findUnique({ where: { fbPostId } }))?.status).toBe(PostStatus.awaiting_approval);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Integration tests for backfill and feed reconciliation
+ * Posts in the page feed without a post record are recovered and enqueued like webhooks
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+import { PostStatus } from '@prisma/client';
+
+const OPS_WEBHOOK = 'https://discord.com/api/webhooks/9/ops';
+process.env.OPS_WEBHOOK_URL = OPS_WEBHOOK;
+
+// Mock fetch for external API calls
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Import after setting up mocks
+const { findMissedPosts, enqueueMissedPosts } = await import('../../src/services/backfill.js');
+const { getEnvPage } = await import('../../src/services/pages.js');
+const { getOrCreatePost } = await import('../../src/services/post-state.js');
+const { processPost } = await import('../../src/worker/handlers/process-post.js');
+const { reconcilePage } = await import('../../src/worker/handlers/reconcile-feed.js');
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: () => mockLogger,
+};
+
+const PAGE = { id: '123456789', name: 'Test Page' };
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+const FEED = [
+  { id: '123456789_new', message: 'NVDA breakout #discord', created_time: minutesAgo(5), from: PAGE },
+  { id: '123456789_known', message: 'Already relayed #discord', created_time: minutesAgo(10), from: PAGE },
+  { id: '123456789_visitor', message: 'Visitor post #discord', created_time: minutesAgo(15), from: { id: '42', name: 'Visitor' } },
+  { id: '123456789_chatter', message: 'Good morning everyone', created_time: minutesAgo(20), from: PAGE },
+  { id: '123456789_old', message: 'TSLA earnings #discord', created_time: minutesAgo(120), from: PAGE },
+];
+
+/**
+ * Serve the feed in two Graph pages (Discord webhooks accept everything)
+ */
+function mockFeed(feed = FEED) {
+  mockFetch.mockImplementation(async (url: string) => {
+    if (url.startsWith('https://discord.com')) {
+      return { ok: true, status: 204, text: async () => '' };
+    }
+    const parsed = new URL(url);
+    const second = parsed.searchParams.get('after') === 'page2';
+    return {
+      ok: true,
+      json: async () => ({
+        data: second ? feed.slice(2) : feed.slice(0, 2),
+        paging: second ? {} : { next: `${parsed.origin}${parsed.pathname}?after=page2` },
+      }),
+    };
+  });
+}
+
+describe('Backfill Integration', () => {
+  const boss = { send: vi.fn() };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    mockFetch.mockReset();
+    boss.send.mockReset();
+    boss.send.mockResolvedValue('job-id');
+  });
+
+  it('should list unseen page posts in the window, oldest first', async () => {
+    mockFeed();
+    await getOrCreatePost('123456789_known', PAGE.id);
+
+    const result = await findMissedPosts(getEnvPage()!, new Date(Date.now() - 3 * 60 * 60 * 1000), new Date());
+
+    expect(result.success).toBe(true);
+    expect(result.scanned).toBe(4);
+    expect(result.missed!.map(({ post, tooOld, tracked }) => ({ id: post.id, tooOld, tracked }))).toEqual([
+      { id: '123456789_old', tooOld: true, tracked: true },
+      { id: '123456789_chatter', tooOld: false, tracked: false },
+      { id: '123456789_new', tooOld: false, tracked: true },
+    ]);
+
+    const [firstUrl] = mockFetch.mock.calls[0];
+    expect(firstUrl).toContain('/123456789/feed');
+    expect(new URL(firstUrl).searchParams.get('since')).toMatch(/^\d+$/);
+  });
+
+  it('should report a feed error', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: async () => ({ error: { code: 100, message: 'Invalid parameter' } }),
+    });
+
+    const result = await findMissedPosts(getEnvPage()!, new Date(Date.now() - 60 * 60 * 1000), new Date());
+
+    expect(result).toEqual({ success: false, error: 'Invalid parameter' });
+  });
+
+  it('should enqueue recent posts and skip those past the cutoff', async () => {
+    mockFeed();
+    const page = getEnvPage()!;
+    const { missed } = await findMissedPosts(page, new Date(Date.now() - 3 * 60 * 60 * 1000), new Date());
+
+    const enqueued = await enqueueMissedPosts(boss as any, page, missed!, 'corr-1');
+
+    expect(enqueued).toEqual(['123456789_chatter', '123456789_new']);
+    expect(boss.send).toHaveBeenCalledWith(
+      'process-post',
+      expect.objectContaining({ fbPostId: '123456789_new', correlationId: 'corr-1', ignoreMaxAge: undefined }),
+      { singletonKey: '123456789_new' }
+    );
+    expect(await prisma.post.findUnique({ where: { fbPostId: '123456789_old' } })).toBeNull();
+
+    const post = await prisma.post.findUnique({ where: { fbPostId: '123456789_new' }, include: { events: true } });
+    expect(post?.pageId).toBe(PAGE.id);
+    expect(post?.events.map((event) => event.event)).toContain('backfilled');
+  });
+
+  it('should enqueue old posts with ignoreMaxAge once confirmed', async () => {
+    mockFeed();
+    const page = getEnvPage()!;
+    const { missed } = await findMissedPosts(page, new Date(Date.now() - 3 * 60 * 60 * 1000), new Date());
+
+    const enqueued = await enqueueMissedPosts(boss as any, page, missed!, 'corr-2', { ignoreMaxAge: true });
+
+    expect(enqueued).toEqual(['123456789_old', '123456789_chatter', '123456789_new']);
+    expect(boss.send).toHaveBeenCalledWith(
+      'process-post',
+      expect.objectContaining({ fbPostId: '123456789_old', ignoreMaxAge: true }),
+      { singletonKey: '123456789_old' }
+    );
+  });
+
+  it('should relay an old post when the job bypasses the age check', async () => {
+    const fbPostId = '123456789_old';
+    await getOrCreatePost(fbPostId, PAGE.id);
+
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('discord.com')) {
+        return { ok: true, status: 200, json: async () => ({ id: 'discord-msg-1' }) };
+      }
+      return { ok: true, json: async () => FEED.find((post) => post.id === fbPostId) };
+    });
+
+    await processPost(fbPostId, mockLogger as any, undefined, { ignoreMaxAge: true });
+
+    const post = await prisma.post.findUnique({ where: { fbPostId } });
+    expect(post?.status).toBe(PostStatus.delivered);
+  });
+
+  describe('reconcilePage', () => {
+    it('should relay tracked posts that never arrived and alert ops', async () => {
+      mockFeed();
+      await getOrCreatePost('123456789_known', PAGE.id);
+
+      const missed = await reconcilePage(boss as any, getEnvPage()!, mockLogger as any);
+
+      expect(missed).toHaveLength(3);
+      // Untracked and too-old posts are reported but not relayed
+      expect(boss.send).toHaveBeenCalledTimes(1);
+      expect(boss.send).toHaveBeenCalledWith(
+        'process-post',
+        expect.objectContaining({ fbPostId: '123456789_new' }),
+        { singletonKey: '123456789_new' }
+      );
+
+      const post = await prisma.post.findUnique({ where: { fbPostId: '123456789_new' }, include: { events: true } });
+      expect(post?.events.find((event) => event.event === 'backfilled')?.details).toMatchObject({ source: 'reconciler' });
+
+      const alerts = mockFetch.mock.calls.filter(([url]) => String(url).startsWith(OPS_WEBHOOK));
+      expect(alerts).toHaveLength(1);
+      expect(JSON.parse(alerts[0][1].body).content).toContain('3 post(s) never arrived by webhook');
+    });
+
+    it('should stay quiet when every post arrived', async () => {
+      mockFeed([FEED[1]]);
+      await getOrCreatePost('123456789_known', PAGE.id);
+
+      const missed = await reconcilePage(boss as any, getEnvPage()!, mockLogger as any);
+
+      expect(missed).toEqual([]);
+      expect(boss.send).not.toHaveBeenCalled();
+      expect(mockFetch.mock.calls.filter(([url]) => String(url).startsWith(OPS_WEBHOOK))).toHaveLength(0);
+    });
+  });
+});
@@ -4,10 +4,10 @@
  */
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
-import { PostStatus } from '@prisma/client';
+import { PostStatus, DeliveryStatus } from '@prisma/client';
 
 // Import services
-const { getOrCreatePost, transitionPost, markForRetry, logDelivery, getPendingPosts } = 
+const { getOrCreatePost, getOrCreateDeliveries, transitionPost, markForRetry, logDelivery, getPendingPosts } = 
   await import('../../src/services/post-state.js');
 
 describe('Database Integration', () => {
@@ -122,7 +122,6 @@ describe('Database Integration', () => {
         data: {
           fbPostId: 'no_retry_delivered',
           status: PostStatus.delivered,
-          discordMsgId: 'msg-123',
         },
       });
 
@@ -146,19 +145,44 @@ describe('Database Integration', () => {
   });
 
   describe('logDelivery', () => {
-    it('should create delivery log entry', async () => {
-      await logDelivery('log_test', true, 'msg-123', undefined, 150);
+    it('should create delivery log entry and update the delivery', async () => {
+      const { post } = await getOrCreatePost('log_test');
+      const [delivery] = await getOrCreateDeliveries(post.id, ['default']);
+
+      const updated = await logDelivery(
+        'log_test',
+        delivery,
+        DeliveryStatus.delivered,
+        { webhookId: '111', messageId: 'msg-123' },
+        150
+      );
+
+      expect(updated).toMatchObject({
+        status: DeliveryStatus.delivered,
+        webhookId: '111',
+        messageId: 'msg-123',
+        attempts: 1,
+      });
+      expect(updated.deliveredAt).not.toBeNull();
 
       const logs = await prisma.deliveryLog.findMany({ where: { fbPostId: 'log_test' } });
 
       expect(logs.length).toBe(1);
       expect(logs[0].success).toBe(true);
+      expect(logs[0].deliveryId).toBe(delivery.id);
+      expect(logs[0].destination).toBe('default');
       expect(logs[0].discordMsgId).toBe('msg-123');
       expect(logs[0].latencyMs).toBe(150);
     });
 
     it('should log failed delivery with error', async () => {
-      await logDelivery('log_fail', false, undefined, 'Rate limited', 50);
+      const { post } = await getOrCreatePost('log_fail');
+      const [delivery] = await getOrCreateDeliveries(post.id, ['default']);
+
+      const updated = await logDelivery('log_fail', delivery, DeliveryStatus.pending, { error: 'Rate limited' }, 50);
+
+      expect(updated.status).toBe(DeliveryStatus.pending);
+      expect(updated.lastError).toBe('Rate limited');
 
       const logs = await prisma.deliveryLog.findMany({ where: { fbPostId: 'log_fail' } });
 
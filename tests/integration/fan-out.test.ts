@@ -0,0 +1,201 @@
+/**
+ * Integration tests for fan-out delivery
+ * One post matching several routes gets a delivery row (and retry state) per destination
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+import { PostStatus, DeliveryStatus } from '@prisma/client';
+
+const NEWS_WEBHOOK = 'https://discord.com/api/webhooks/1/news';
+const WATCH_WEBHOOK = 'https://discord.com/api/webhooks/2/watch';
+
+// Routing file must exist before the app modules load it
+const routingDir = mkdtempSync(join(tmpdir(), 'relay-routing-'));
+const routingPath = join(routingDir, 'routing.yaml');
+writeFileSync(routingPath, `
+fanOut: true
+routes:
+  - { name: news, tags: ["#stockmarketnews"], webhookUrl: "${NEWS_WEBHOOK}", priority: 10 }
+  - { name: watch, tags: ["#stockstowatch"], webhookUrl: "${WATCH_WEBHOOK}", priority: 20 }
+`);
+process.env.ROUTING_CONFIG_PATH = routingPath;
+
+// Mock fetch for external API calls
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Import after setting up mocks
+const { processPost } = await import('../../src/worker/handlers/process-post.js');
+const { editPost } = await import('../../src/worker/handlers/edit-post.js');
+const { getOrCreatePost } = await import('../../src/services/post-state.js');
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: () => mockLogger,
+};
+
+const MESSAGE = 'AAPL breaking out #stockstowatch #stockmarketnews';
+
+/**
+ * Answer Graph API calls with the post and each webhook with the given response
+ */
+function mockApis(fbPostId: string, webhooks: Record<string, () => unknown>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const webhook = Object.keys(webhooks).find((prefix) => url.startsWith(prefix));
+    if (webhook) {
+      return webhooks[webhook]();
+    }
+    return {
+      ok: true,
+      json: async () => ({
+        id: fbPostId,
+        message: MESSAGE,
+        created_time: new Date().toISOString(),
+        from: { id: '123456789', name: 'Test Page' },
+      }),
+    };
+  });
+}
+
+const sent = (id: string) => () => ({ ok: true, status: 200, json: async () => ({ id }) });
+const serverError = () => ({ ok: false, status: 500, text: async () => 'Internal Server Error' });
+
+describe('Fan-out Delivery Integration', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    delete process.env.ROUTING_CONFIG_PATH;
+    rmSync(routingDir, { recursive: true, force: true });
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    mockFetch.mockReset();
+    vi.clearAllMocks();
+  });
+
+  it('should deliver a copy to every matching route', async () => {
+    const fbPostId = 'fanout_all';
+    await getOrCreatePost(fbPostId);
+    mockApis(fbPostId, { [NEWS_WEBHOOK]: sent('news-msg'), [WATCH_WEBHOOK]: sent('watch-msg') });
+
+    await processPost(fbPostId, mockLogger as any);
+
+    const post = await prisma.post.findUnique({
+      where: { fbPostId },
+      include: { deliveries: { orderBy: { destination: 'asc' } } },
+    });
+
+    expect(post?.status).toBe(PostStatus.delivered);
+    expect(post?.deliveries.map((d) => [d.destination, d.status, d.messageId, d.webhookId])).toEqual([
+      ['news', DeliveryStatus.delivered, 'news-msg', '1'],
+      ['watch', DeliveryStatus.delivered, 'watch-msg', '2'],
+    ]);
+  });
+
+  it('should edit every copy through the webhook that sent it', async () => {
+    const fbPostId = 'fanout_edit';
+    await prisma.post.create({
+      data: {
+        fbPostId,
+        status: PostStatus.delivered,
+        message: 'AAPL breaking out #stockstowatch',
+        deliveries: {
+          create: [
+            { destination: 'news', webhookId: '1', status: DeliveryStatus.delivered, messageId: 'news-msg' },
+            { destination: 'watch', webhookId: '2', status: DeliveryStatus.delivered, messageId: 'watch-msg' },
+          ],
+        },
+      },
+    });
+    mockApis(fbPostId, { [NEWS_WEBHOOK]: sent('news-msg'), [WATCH_WEBHOOK]: sent('watch-msg') });
+
+    await editPost(fbPostId, mockLogger as any);
+
+    const patched = mockFetch.mock.calls
+      .filter(([, init]) => init?.method === 'PATCH')
+      .map(([url]) => url);
+    expect(patched).toEqual(expect.arrayContaining([
+      `${NEWS_WEBHOOK}/messages/news-msg`,
+      `${WATCH_WEBHOOK}/messages/watch-msg`,
+    ]));
+  });
+
+  it('should not edit a copy whose route now points at a different webhook', async () => {
+    const fbPostId = 'fanout_edit_moved';
+    await prisma.post.create({
+      data: {
+        fbPostId,
+        status: PostStatus.delivered,
+        message: 'AAPL #stockstowatch',
+        deliveries: {
+          create: { destination: 'watch', webhookId: '42', status: DeliveryStatus.delivered, messageId: 'old-msg' },
+        },
+      },
+    });
+    mockApis(fbPostId, {});
+
+    await editPost(fbPostId, mockLogger as any);
+
+    const events = await prisma.postEvent.findMany({ where: { post: { fbPostId } } });
+    expect(events.map((e) => e.event)).toContain('edit_failed');
+    expect(mockFetch.mock.calls.some(([, init]) => init?.method === 'PATCH')).toBe(false);
+  });
+
+  it('should retry only the destination that failed', async () => {
+    const fbPostId = 'fanout_partial';
+    await getOrCreatePost(fbPostId);
+    mockApis(fbPostId, { [NEWS_WEBHOOK]: sent('news-msg'), [WATCH_WEBHOOK]: serverError });
+
+    await expect(processPost(fbPostId, mockLogger as any)).rejects.toThrow('Retryable send error');
+
+    let post = await prisma.post.findUnique({ where: { fbPostId }, include: { deliveries: true } });
+    expect(post?.status).toBe(PostStatus.received);
+    expect(post?.deliveries.find((d) => d.destination === 'news')?.status).toBe(DeliveryStatus.delivered);
+    expect(post?.deliveries.find((d) => d.destination === 'watch')).toMatchObject({
+      status: DeliveryStatus.pending,
+      attempts: 1,
+    });
+
+    // Second attempt: the news channel must not get a duplicate
+    mockFetch.mockClear();
+    mockApis(fbPostId, { [NEWS_WEBHOOK]: sent('duplicate'), [WATCH_WEBHOOK]: sent('watch-msg') });
+
+    await processPost(fbPostId, mockLogger as any);
+
+    post = await prisma.post.findUnique({ where: { fbPostId }, include: { deliveries: true } });
+    expect(post?.status).toBe(PostStatus.delivered);
+    expect(post?.deliveries.find((d) => d.destination === 'news')?.messageId).toBe('news-msg');
+    expect(post?.deliveries.find((d) => d.destination === 'watch')).toMatchObject({
+      status: DeliveryStatus.delivered,
+      messageId: 'watch-msg',
+      attempts: 2,
+    });
+    expect(mockFetch.mock.calls.filter(([url]) => url.startsWith(NEWS_WEBHOOK))).toHaveLength(0);
+  });
+
+  it('should fail the post when any destination fails permanently', async () => {
+    const fbPostId = 'fanout_failed';
+    await getOrCreatePost(fbPostId);
+    mockApis(fbPostId, {
+      [NEWS_WEBHOOK]: sent('news-msg'),
+      [WATCH_WEBHOOK]: () => ({ ok: false, status: 404, text: async () => 'Unknown Webhook' }),
+    });
+
+    await processPost(fbPostId, mockLogger as any);
+
+    const post = await prisma.post.findUnique({ where: { fbPostId }, include: { deliveries: true } });
+    expect(post?.status).toBe(PostStatus.failed);
+    expect(post?.lastError).toContain('watch');
+    expect(post?.deliveries.find((d) => d.destination === 'watch')?.status).toBe(DeliveryStatus.failed);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Integration tests for ops notices
+ * Dedup and the hourly cap are stored in the database so they hold across processes
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+import { PostStatus } from '@prisma/client';
+
+const OPS_WEBHOOK = 'https://discord.com/api/webhooks/9/ops';
+const OPS_SINK = 'https://alerts.example.com/hooks/relay';
+
+process.env.OPS_WEBHOOK_URL = OPS_WEBHOOK;
+process.env.OPS_ALERT_SINK_URL = OPS_SINK;
+process.env.OPS_ALERT_MAX_PER_HOUR = '3';
+process.env.OPS_GRAPH_ERROR_THRESHOLD = '2';
+
+// Mock fetch for external API calls
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Import after setting up mocks
+const { notifyOps, recordFailure } = await import('../../src/services/ops-alerts.js');
+const { processPost } = await import('../../src/worker/handlers/process-post.js');
+const { getOrCreatePost } = await import('../../src/services/post-state.js');
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: () => mockLogger,
+};
+
+const notice = (key: string) => ({
+  kind: 'post_failed' as const,
+  key,
+  severity: 'critical' as const,
+  title: `Post ${key} failed`,
+  details: { post: key, error: 'HTTP 404' },
+});
+
+const callsTo = (prefix: string) => mockFetch.mock.calls.filter(([url]) => String(url).startsWith(prefix));
+
+describe('Ops Alerts Integration', () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true, status: 204, text: async () => '' });
+  });
+
+  it('should send a structured notice to the Discord webhook and the HTTP sink', async () => {
+    const result = await notifyOps(notice('post_a'));
+
+    expect(result).toEqual({ sent: true });
+
+    const [[, discordInit]] = callsTo(OPS_WEBHOOK);
+    const discordBody = JSON.parse(discordInit.body);
+    expect(discordBody.content).toContain('Post post_a failed');
+    expect(discordBody.embeds[0].description).toContain('**error:** HTTP 404');
+    expect(discordBody.allowed_mentions).toEqual({ parse: [] });
+
+    const [[, sinkInit]] = callsTo(OPS_SINK);
+    expect(JSON.parse(sinkInit.body)).toMatchObject({
+      service: 'fb-discord-relay',
+      kind: 'post_failed',
+      key: 'post_a',
+      severity: 'critical',
+      details: { post: 'post_a', error: 'HTTP 404' },
+      suppressed: 0,
+    });
+  });
+
+  it('should suppress repeats of the same key and report them with the next notice', async () => {
+    await notifyOps(notice('post_b'));
+    const repeat = await notifyOps(notice('post_b'));
+
+    expect(repeat).toEqual({ sent: false, reason: 'duplicate' });
+    expect(callsTo(OPS_WEBHOOK)).toHaveLength(1);
+
+    // Once the dedup window has passed the notice goes out again, with the count
+    await prisma.opsAlert.update({
+      where: { key: 'post_b' },
+      data: { lastSentAt: new Date(Date.now() - 2 * 60 * 60 * 1000) },
+    });
+    mockFetch.mockClear();
+
+    expect(await notifyOps(notice('post_b'))).toEqual({ sent: true });
+    const [[, init]] = callsTo(OPS_WEBHOOK);
+    expect(JSON.parse(init.body).embeds[0].description).toContain('Repeated 1 more time(s)');
+  });
+
+  it('should cap notices per hour', async () => {
+    for (const key of ['c1', 'c2', 'c3']) {
+      expect((await notifyOps(notice(key))).sent).toBe(true);
+    }
+
+    expect(await notifyOps(notice('c4'))).toEqual({ sent: false, reason: 'rate_limited' });
+    expect(callsTo(OPS_WEBHOOK)).toHaveLength(3);
+  });
+
+  it('should not record a notice that no sink accepted', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500, text: async () => 'down' });
+
+    expect(await notifyOps(notice('post_d'))).toEqual({ sent: false, reason: 'send_failed' });
+    expect(await prisma.opsAlert.findUnique({ where: { key: 'post_d' } })).toBeNull();
+  });
+
+  it('should raise one notice once the failure threshold is reached', async () => {
+    await recordFailure('graph_errors', { lastStatus: '500' });
+    expect(callsTo(OPS_WEBHOOK)).toHaveLength(0);
+
+    await recordFailure('graph_errors', { lastStatus: '500' });
+    expect(callsTo(OPS_WEBHOOK)).toHaveLength(1);
+
+    const alert = await prisma.opsAlert.findUnique({ where: { key: 'graph_errors' } });
+    expect(alert?.kind).toBe('graph_errors');
+  });
+
+  it('should notify when a post fails', async () => {
+    const fbPostId = '555000999_alert';
+    await prisma.page.create({
+      data: {
+        id: '555000999',
+        accessToken: 'disabled-page-token',
+        discordWebhookUrl: 'https://discord.com/api/webhooks/555/disabled',
+        enabled: false,
+      },
+    });
+    await getOrCreatePost(fbPostId, '555000999');
+
+    await processPost(fbPostId, mockLogger as any);
+
+    const post = await prisma.post.findUnique({ where: { fbPostId } });
+    expect(post?.status).toBe(PostStatus.failed);
+
+    const [[, init]] = callsTo(OPS_WEBHOOK);
+    expect(JSON.parse(init.body).content).toContain(`Post ${fbPostId} failed`);
+    expect(await prisma.opsAlert.findUnique({ where: { key: `failed:${fbPostId}` } })).not.toBeNull();
+  });
+});
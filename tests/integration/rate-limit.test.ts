@@ -0,0 +1,194 @@
+/**
+ * Integration tests for Discord rate limit buckets
+ * Bucket state lives in Postgres so every worker replica holds back when a webhook is exhausted
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+import { PostStatus, DeliveryStatus } from '@prisma/client';
+
+// Mock fetch for external API calls
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Import after setting up mocks
+const { processPost } = await import('../../src/worker/handlers/process-post.js');
+const { editPost } = await import('../../src/worker/handlers/edit-post.js');
+const { getOrCreatePost } = await import('../../src/services/post-state.js');
+const { reserveSendSlot, recordRateLimit } = await import('../../src/services/rate-limit.js');
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: () => mockLogger,
+};
+
+/**
+ * Answer the Graph API with a tracked post and the default webhook with the given response
+ */
+function mockApis(fbPostId: string, discord: () => unknown) {
+  mockFetch.mockImplementation(async (url: string) => {
+    if (url.startsWith('https://discord.com/api/webhooks/test/test')) {
+      return discord();
+    }
+    return {
+      ok: true,
+      json: async () => ({
+        id: fbPostId,
+        message: 'AAPL #discord',
+        created_time: new Date().toISOString(),
+        from: { id: '123456789', name: 'Test Page' },
+      }),
+    };
+  });
+}
+
+const sent = (headers: Record<string, string>) => () => ({
+  ok: true,
+  status: 200,
+  headers: new Headers(headers),
+  json: async () => ({ id: 'discord-msg' }),
+});
+
+describe('Discord Rate Limit Integration', () => {
+  const boss = { send: vi.fn() };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    mockFetch.mockReset();
+    boss.send.mockReset();
+    boss.send.mockResolvedValue('job-id');
+  });
+
+  it('should store the bucket reported by a send', async () => {
+    await getOrCreatePost('rl_headers');
+    mockApis('rl_headers', sent({
+      'x-ratelimit-bucket': 'abc',
+      'x-ratelimit-limit': '5',
+      'x-ratelimit-remaining': '4',
+      'x-ratelimit-reset-after': '2.5',
+    }));
+
+    await processPost('rl_headers', mockLogger as any, undefined, { boss: boss as any });
+
+    const bucket = await prisma.discordRateLimit.findUnique({ where: { key: 'test' } });
+    expect(bucket).toMatchObject({ bucket: 'abc', limit: 5, remaining: 4 });
+    expect(bucket!.resetAt!.getTime() - Date.now()).toBeGreaterThan(2000);
+  });
+
+  it('should reschedule without sending while the bucket is empty', async () => {
+    await getOrCreatePost('rl_empty');
+    await recordRateLimit('test', { limit: 5, remaining: 0, resetAfterMs: 30000 });
+    mockApis('rl_empty', sent({}));
+
+    await processPost('rl_empty', mockLogger as any, undefined, { boss: boss as any, correlationId: 'corr-1' });
+
+    // Only the Graph API was called
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const post = await prisma.post.findUnique({ where: { fbPostId: 'rl_empty' }, include: { deliveries: true } });
+    expect(post?.status).toBe(PostStatus.received);
+    expect(post?.retryCount).toBe(0);
+    expect(post?.deliveries[0].status).toBe(DeliveryStatus.pending);
+
+    const [queue, job, options] = boss.send.mock.calls[0];
+    expect(queue).toBe('process-post');
+    expect(job).toMatchObject({ fbPostId: 'rl_empty', correlationId: 'corr-1' });
+    expect(options.singletonKey).toBe('rl_empty');
+    expect(options.startAfter.getTime() - Date.now()).toBeGreaterThan(25000);
+  });
+
+  it('should reschedule for exactly the Retry-After of a 429', async () => {
+    await getOrCreatePost('rl_429');
+    mockApis('rl_429', () => ({
+      ok: false,
+      status: 429,
+      headers: new Headers({ 'retry-after': '7.5', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset-after': '7.5' }),
+      text: async () => 'You are being rate limited.',
+    }));
+
+    const before = Date.now();
+    await processPost('rl_429', mockLogger as any, undefined, { boss: boss as any });
+
+    expect((await prisma.post.findUnique({ where: { fbPostId: 'rl_429' } }))?.status).toBe(PostStatus.received);
+    const startAfter = boss.send.mock.calls[0][2].startAfter.getTime();
+    expect(startAfter).toBeGreaterThanOrEqual(before + 7500);
+    expect(startAfter).toBeLessThan(Date.now() + 7500 + 1000);
+
+    // Other replicas see the empty bucket too
+    expect(await reserveSendSlot('test')).toBeGreaterThan(6000);
+  });
+
+  it('should hold back edits while the bucket is empty', async () => {
+    await prisma.post.create({
+      data: {
+        fbPostId: 'rl_edit_empty',
+        status: PostStatus.delivered,
+        message: 'AAPL',
+        deliveries: { create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg' } },
+      },
+    });
+    await recordRateLimit('test', { limit: 5, remaining: 0, resetAfterMs: 30000 });
+    mockApis('rl_edit_empty', sent({}));
+
+    await expect(editPost('rl_edit_empty', mockLogger as any)).rejects.toThrow('Rate limit bucket empty');
+    // Only the Graph API was called
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should store the bucket reported by an edit', async () => {
+    await prisma.post.create({
+      data: {
+        fbPostId: 'rl_edit',
+        status: PostStatus.delivered,
+        message: 'AAPL',
+        deliveries: { create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg' } },
+      },
+    });
+    mockApis('rl_edit', sent({ 'x-ratelimit-limit': '5', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset-after': '4' }));
+
+    await editPost('rl_edit', mockLogger as any);
+
+    expect(mockFetch.mock.calls[1][1].method).toBe('PATCH');
+    expect(await prisma.discordRateLimit.findUnique({ where: { key: 'test' } })).toMatchObject({ limit: 5, remaining: 0 });
+    expect(await reserveSendSlot('test')).toBeGreaterThan(3000);
+  });
+
+  it('should hand out each remaining slot once and start over after the reset', async () => {
+    const now = new Date();
+    await recordRateLimit('hook-1', { limit: 2, remaining: 2, resetAfterMs: 1000 }, now);
+
+    expect(await Promise.all([reserveSendSlot('hook-1', now), reserveSendSlot('hook-1', now)])).toEqual([0, 0]);
+    expect(await reserveSendSlot('hook-1', now)).toBe(1000);
+
+    const later = new Date(now.getTime() + 1500);
+    expect(await reserveSendSlot('hook-1', later)).toBe(0);
+    expect(await prisma.discordRateLimit.findUnique({ where: { key: 'hook-1' } })).toMatchObject({ remaining: 1, resetAt: null });
+  });
+
+  it('should not send unthrottled when a restarted window runs dry before any headers arrive', async () => {
+    await prisma.discordRateLimit.create({ data: { key: 'hook-1', limit: 5, remaining: 0, resetAt: null } });
+
+    const waitMs = await reserveSendSlot('hook-1', new Date());
+    expect(waitMs).toBeGreaterThan(0);
+    expect(waitMs).toBeLessThanOrEqual(2000);
+
+    // Without a response the window is restarted once the assumed one is over
+    expect(await reserveSendSlot('hook-1', new Date(Date.now() + 2500))).toBe(0);
+    expect(await prisma.discordRateLimit.findUnique({ where: { key: 'hook-1' } })).toMatchObject({ remaining: 4, resetAt: null });
+  });
+
+  it('should hold back every webhook after a global 429', async () => {
+    await recordRateLimit('hook-1', { retryAfterMs: 3000, global: true });
+
+    expect(await reserveSendSlot('hook-2')).toBeGreaterThan(2000);
+  });
+});
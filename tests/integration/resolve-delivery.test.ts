@@ -0,0 +1,205 @@
+/**
+ * Integration tests for resolving timed-out Discord sends
+ * The message is looked up by its footer marker: found means delivered, missing means resend
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+import { PostStatus, DeliveryStatus } from '@prisma/client';
+
+process.env.DISCORD_BOT_TOKEN = 'test-bot-token';
+
+const WEBHOOK = 'https://discord.com/api/webhooks/test/test';
+const CHANNEL_MESSAGES = 'https://discord.com/api/v10/channels/chan-1/messages';
+
+// Mock fetch for external API calls
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Import after setting up mocks
+const { processPost } = await import('../../src/worker/handlers/process-post.js');
+const { resolveDelivery } = await import('../../src/worker/handlers/resolve-delivery.js');
+const { getOrCreatePost } = await import('../../src/services/post-state.js');
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: () => mockLogger,
+};
+
+/**
+ * A post whose single send to the default route timed out
+ */
+async function createTimedOutPost(fbPostId: string) {
+  const post = await prisma.post.create({
+    data: {
+      fbPostId,
+      status: PostStatus.needs_review,
+      message: 'AAPL #discord',
+      deliveries: { create: { destination: 'default', status: DeliveryStatus.needs_review, webhookId: 'test', attempts: 1 } },
+    },
+    include: { deliveries: true },
+  });
+  return post.deliveries[0];
+}
+
+/**
+ * Answer the webhook lookup, and the channel read with the given messages
+ */
+function mockChannel(messages: unknown[]) {
+  mockFetch.mockImplementation(async (url: string) => {
+    if (url === WEBHOOK) {
+      return { ok: true, status: 200, json: async () => ({ id: 'test', channel_id: 'chan-1' }) };
+    }
+    if (url.startsWith(CHANNEL_MESSAGES)) {
+      return { ok: true, status: 200, json: async () => messages };
+    }
+    throw new Error(`Unexpected request to ${url}`);
+  });
+}
+
+const alert = (id: string, footer: string, webhookId = 'test') => ({ id, webhook_id: webhookId, embeds: [{ footer: { text: footer } }] });
+
+describe('Resolve Delivery Integration', () => {
+  const boss = { send: vi.fn() };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    delete process.env.DISCORD_BOT_TOKEN;
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    mockFetch.mockReset();
+    boss.send.mockReset();
+    boss.send.mockResolvedValue('job-id');
+  });
+
+  it('should mark the send with its delivery and schedule a lookup when it times out', async () => {
+    const fbPostId = 'resolve_timeout';
+    await getOrCreatePost(fbPostId);
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: fbPostId,
+        message: 'Trade alert #discord',
+        created_time: new Date().toISOString(),
+        from: { id: '123456789', name: 'Test Page' },
+      }),
+    });
+    const abortError = new Error('Aborted');
+    abortError.name = 'AbortError';
+    mockFetch.mockRejectedValueOnce(abortError);
+
+    await processPost(fbPostId, mockLogger as any, undefined, { boss: boss as any, correlationId: 'corr-1' });
+
+    const post = await prisma.post.findUnique({ where: { fbPostId }, include: { deliveries: true } });
+    expect(post?.status).toBe(PostStatus.needs_review);
+
+    const payload = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(payload.embeds[0].footer.text).toBe(`ref ${post!.deliveries[0].id}`);
+
+    expect(boss.send).toHaveBeenCalledWith(
+      'resolve-delivery',
+      { fbPostId, correlationId: 'corr-1' },
+      { startAfter: 60, singletonKey: fbPostId }
+    );
+  });
+
+  it('should mark the post delivered when the message is in the channel', async () => {
+    const delivery = await createTimedOutPost('resolve_found');
+    mockChannel([
+      alert('other-msg', 'ref someone-else'),
+      alert('copy-msg', `ref ${delivery.id}`, 'another-webhook'),
+      alert('real-msg', `🔗 Click title to view on Facebook · ref ${delivery.id}`),
+    ]);
+
+    const outcome = await resolveDelivery(boss as any, 'resolve_found', 'corr-1', mockLogger as any);
+
+    expect(outcome).toBe('delivered');
+    const post = await prisma.post.findUnique({ where: { fbPostId: 'resolve_found' }, include: { deliveries: true } });
+    expect(post?.status).toBe(PostStatus.delivered);
+    expect(post?.deliveries[0]).toMatchObject({ status: DeliveryStatus.delivered, messageId: 'real-msg' });
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining(CHANNEL_MESSAGES),
+      expect.objectContaining({ headers: { Authorization: 'Bot test-bot-token' } })
+    );
+    expect(boss.send).not.toHaveBeenCalled();
+  });
+
+  it('should resend when the message never arrived', async () => {
+    const delivery = await createTimedOutPost('resolve_missing');
+    mockChannel([alert('other-msg', 'ref someone-else')]);
+
+    const outcome = await resolveDelivery(boss as any, 'resolve_missing', 'corr-1', mockLogger as any);
+
+    expect(outcome).toBe('resent');
+    expect((await prisma.post.findUnique({ where: { fbPostId: 'resolve_missing' } }))?.status).toBe(PostStatus.received);
+    expect((await prisma.delivery.findUnique({ where: { id: delivery.id } }))?.status).toBe(DeliveryStatus.pending);
+    expect(boss.send).toHaveBeenCalledWith(
+      'process-post',
+      { fbPostId: 'resolve_missing', correlationId: 'corr-1' },
+      { singletonKey: 'resolve_missing' }
+    );
+  });
+
+  it('should resend with the options the post was queued with', async () => {
+    await createTimedOutPost('resolve_approved');
+    await prisma.post.update({
+      where: { fbPostId: 'resolve_approved' },
+      data: { approvalId: 'approval-1', skipFilters: true, ignoreMaxAge: true, bulk: true },
+    });
+    mockChannel([]);
+
+    expect(await resolveDelivery(boss as any, 'resolve_approved', 'corr-1', mockLogger as any)).toBe('resent');
+    expect(boss.send).toHaveBeenCalledWith(
+      'process-post-bulk',
+      { fbPostId: 'resolve_approved', correlationId: 'corr-1', approvalId: 'approval-1', skipFilters: true, ignoreMaxAge: true },
+      { singletonKey: 'resolve_approved' }
+    );
+  });
+
+  it('should leave the post for review after repeated resends', async () => {
+    const delivery = await createTimedOutPost('resolve_flaky');
+    await prisma.postEvent.createMany({
+      data: [1, 2, 3].map(() => ({ postId: delivery.postId, event: 'delivery_resolved', details: { outcome: 'not_found' } })),
+    });
+    mockChannel([]);
+
+    const outcome = await resolveDelivery(boss as any, 'resolve_flaky', 'corr-1', mockLogger as any);
+
+    expect(outcome).toBe('needs_review');
+    const post = await prisma.post.findUnique({ where: { fbPostId: 'resolve_flaky' }, include: { deliveries: true } });
+    expect(post?.status).toBe(PostStatus.needs_review);
+    expect(post?.deliveries[0].status).toBe(DeliveryStatus.needs_review);
+    expect(post?.lastError).toMatch(/3 resends timed out/);
+    expect(boss.send).not.toHaveBeenCalled();
+  });
+
+  it('should throw for a retry when the channel cannot be read', async () => {
+    await createTimedOutPost('resolve_forbidden');
+    mockFetch.mockImplementation(async (url: string) =>
+      url === WEBHOOK
+        ? { ok: true, status: 200, json: async () => ({ id: 'test', channel_id: 'chan-1' }) }
+        : { ok: false, status: 403, text: async () => 'Missing Access' }
+    );
+
+    await expect(resolveDelivery(boss as any, 'resolve_forbidden', 'corr-1', mockLogger as any)).rejects.toThrow(
+      'Reading channel failed: HTTP 403'
+    );
+    expect((await prisma.post.findUnique({ where: { fbPostId: 'resolve_forbidden' } }))?.status).toBe(PostStatus.needs_review);
+  });
+
+  it('should skip posts resolved by hand in the meantime', async () => {
+    await createTimedOutPost('resolve_manual');
+    await prisma.post.update({ where: { fbPostId: 'resolve_manual' }, data: { status: PostStatus.delivered } });
+
+    expect(await resolveDelivery(boss as any, 'resolve_manual', 'corr-1', mockLogger as any)).toBe('skipped');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
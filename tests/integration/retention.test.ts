@@ -0,0 +1,129 @@
+/**
+ * Integration tests for retention
+ * Old rows are written to gzipped NDJSON before they are deleted, and can be restored
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+import { PostStatus, DeliveryStatus } from '@prisma/client';
+
+const { archiveOldRecords, readArchive, restoreArchive } = await import('../../src/services/retention.js');
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY);
+
+const policy = {
+  posts: { delivered: 90, ignored: 14 },
+  postEventsDays: 30,
+  deliveryLogsDays: 30,
+};
+
+/**
+ * A delivered post with one delivery, event and log, received the given number of days ago
+ */
+async function createDeliveredPost(fbPostId: string, ageDays: number) {
+  const receivedAt = daysAgo(ageDays);
+  const post = await prisma.post.create({
+    data: {
+      fbPostId,
+      status: PostStatus.delivered,
+      message: 'AAPL #discord',
+      receivedAt,
+      events: { create: { event: 'delivered', details: { destination: 'default' }, createdAt: receivedAt } },
+      deliveries: { create: { destination: 'default', status: DeliveryStatus.delivered, messageId: `msg_${fbPostId}`, attempts: 1 } },
+    },
+    include: { deliveries: true },
+  });
+  await prisma.deliveryLog.create({
+    data: {
+      fbPostId,
+      deliveryId: post.deliveries[0].id,
+      destination: 'default',
+      success: true,
+      discordMsgId: `msg_${fbPostId}`,
+      createdAt: receivedAt,
+    },
+  });
+  return post;
+}
+
+describe('Retention Integration', () => {
+  let archiveDir: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    archiveDir = mkdtempSync(join(tmpdir(), 'relay-archive-'));
+    return () => rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  it('should archive and delete posts past retention for their status', async () => {
+    await createDeliveredPost('old_delivered', 120);
+    await createDeliveredPost('recent_delivered', 10);
+    await prisma.post.create({ data: { fbPostId: 'old_ignored', status: PostStatus.ignored, receivedAt: daysAgo(20) } });
+    await prisma.post.create({ data: { fbPostId: 'old_failed', status: PostStatus.failed, receivedAt: daysAgo(400) } });
+
+    const result = await archiveOldRecords(policy, archiveDir);
+
+    expect(result.files).toHaveLength(1);
+    expect(result.archived).toEqual({ posts: 2, deliveries: 1, post_events: 1, delivery_logs: 1 });
+
+    const remaining = await prisma.post.findMany({ orderBy: { fbPostId: 'asc' } });
+    // failed has no retention in this policy
+    expect(remaining.map((post) => post.fbPostId)).toEqual(['old_failed', 'recent_delivered']);
+
+    const rows = await readArchive(result.files[0]);
+    expect(rows.posts.map((post) => post.fbPostId).sort()).toEqual(['old_delivered', 'old_ignored']);
+    expect(rows.deliveries[0]).toMatchObject({ destination: 'default', messageId: 'msg_old_delivered' });
+  });
+
+  it('should trim old events and delivery logs of posts that are kept', async () => {
+    const post = await createDeliveredPost('kept', 60);
+    await prisma.post.update({ where: { id: post.id }, data: { receivedAt: daysAgo(10) } });
+
+    const result = await archiveOldRecords(policy, archiveDir);
+
+    expect(result.archived).toEqual({ posts: 0, deliveries: 0, post_events: 1, delivery_logs: 1 });
+    expect(await prisma.post.count()).toBe(1);
+    expect(await prisma.delivery.count()).toBe(1);
+    expect(await prisma.postEvent.count()).toBe(0);
+    expect(await prisma.deliveryLog.count()).toBe(0);
+  });
+
+  it('should write nothing when no records are past retention', async () => {
+    await createDeliveredPost('recent', 1);
+
+    const result = await archiveOldRecords(policy, archiveDir);
+
+    expect(result.files).toEqual([]);
+    expect(await prisma.post.count()).toBe(1);
+  });
+
+  it('should restore an archive and skip rows that exist', async () => {
+    await createDeliveredPost('old_delivered', 120);
+    const { files } = await archiveOldRecords(policy, archiveDir);
+
+    const restored = await restoreArchive(files[0]);
+    expect(restored).toEqual({ posts: 1, deliveries: 1, post_events: 1, delivery_logs: 1 });
+
+    const post = await prisma.post.findUnique({
+      where: { fbPostId: 'old_delivered' },
+      include: { deliveries: true, events: true, deliveryLogs: true },
+    });
+    expect(post?.status).toBe(PostStatus.delivered);
+    expect(post?.deliveries[0].messageId).toBe('msg_old_delivered');
+    expect(post?.events[0].details).toEqual({ destination: 'default' });
+    expect(post?.deliveryLogs).toHaveLength(1);
+
+    expect(await restoreArchive(files[0])).toEqual({ posts: 0, deliveries: 0, post_events: 0, delivery_logs: 0 });
+  });
+});
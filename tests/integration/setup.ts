@@ -18,6 +18,7 @@ process.env.META_PAGE_ACCESS_TOKEN = 'test-page-token';
 process.env.DISCORD_WEBHOOK_URL = 'https://discord.com/api/webhooks/test/test';
 process.env.TRIGGER_TAG = '#discord';
 process.env.ALERTS_ENABLED = 'true';
+process.env.SECRETS_MASTER_KEY = '0'.repeat(64);
 process.env.LOG_LEVEL = 'error'; // Quiet logs during tests
 
 export const prisma = new PrismaClient();
@@ -43,7 +44,15 @@ export async function setupTestDatabase() {
  * Cleanup: clear all data between tests
  */
 export async function cleanupTestData() {
+  await prisma.setting.deleteMany();
+  await prisma.page.deleteMany();
+  await prisma.pageTokenStatus.deleteMany();
+  await prisma.secret.deleteMany();
+  await prisma.opsAlert.deleteMany();
+  await prisma.discordRateLimit.deleteMany();
+  await prisma.approval.deleteMany();
   await prisma.postEvent.deleteMany();
+  await prisma.delivery.deleteMany();
   await prisma.deliveryLog.deleteMany();
   await prisma.post.deleteMany();
 }
@@ -0,0 +1,150 @@
+/**
+ * Integration tests for the stuck-post sweeper
+ * Posts abandoned mid-pipeline are re-enqueued, or parked for review when a send may have happened
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
+import { PostStatus } from '@prisma/client';
+
+// Mock fetch for external API calls (ops notices)
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Import after setting up mocks
+const { sweepStuckPosts } = await import('../../src/worker/handlers/sweep-stuck-posts.js');
+const appState = await import('../../src/services/post-state.js');
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: () => mockLogger,
+};
+
+/**
+ * A post that has been sitting in the given status for the given number of minutes
+ */
+async function createStuckPost(fbPostId: string, status: PostStatus, minutes: number) {
+  await prisma.post.create({ data: { fbPostId, status } });
+  // updatedAt is managed by Prisma, so backdate it with SQL
+  await prisma.$executeRaw`
+    UPDATE posts SET updated_at = NOW() - make_interval(mins => ${minutes}) WHERE fb_post_id = ${fbPostId}
+  `;
+}
+
+async function sweepEvents(fbPostId: string) {
+  const post = await prisma.post.findUnique({ where: { fbPostId }, include: { events: { orderBy: { createdAt: 'asc' } } } });
+  return post!.events.filter((event) => event.event === 'swept').map((event) => event.details);
+}
+
+describe('Stuck-Post Sweeper Integration', () => {
+  const boss = { send: vi.fn() };
+  // The test database has no pgboss schema: answer the live-job lookup here
+  let liveJobs: string[] = [];
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    vi.spyOn(appState.prisma, '$queryRaw').mockImplementation((async (_query: TemplateStringsArray, ...values: unknown[]) =>
+      liveJobs.includes(values[1] as string) ? [{ id: 'job-1' }] : []) as any);
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    liveJobs = [];
+    boss.send.mockReset();
+    boss.send.mockResolvedValue('job-id');
+    mockFetch.mockReset();
+  });
+
+  it('should send fetching posts back to received and re-enqueue them', async () => {
+    await createStuckPost('stuck_fetching', PostStatus.fetching, 30);
+
+    const swept = await sweepStuckPosts(boss as any, mockLogger as any);
+
+    expect(swept).toEqual([{ fbPostId: 'stuck_fetching', status: PostStatus.fetching, action: 'requeued' }]);
+    expect((await prisma.post.findUnique({ where: { fbPostId: 'stuck_fetching' } }))?.status).toBe(PostStatus.received);
+    expect(boss.send).toHaveBeenCalledWith(
+      'process-post',
+      expect.objectContaining({ fbPostId: 'stuck_fetching' }),
+      { singletonKey: 'stuck_fetching' }
+    );
+    expect(await sweepEvents('stuck_fetching')).toEqual([
+      expect.objectContaining({ status: 'fetching', action: 'requeued' }),
+    ]);
+  });
+
+  it('should re-enqueue with the options the post was queued with', async () => {
+    await createStuckPost('stuck_approved', PostStatus.eligible, 30);
+    await prisma.post.update({
+      where: { fbPostId: 'stuck_approved' },
+      data: { approvalId: 'approval-1', skipFilters: true, ignoreMaxAge: true, bulk: true },
+    });
+    await prisma.$executeRaw`UPDATE posts SET updated_at = NOW() - interval '30 minutes' WHERE fb_post_id = 'stuck_approved'`;
+
+    await sweepStuckPosts(boss as any, mockLogger as any);
+
+    expect(boss.send).toHaveBeenCalledWith(
+      'process-post-bulk',
+      expect.objectContaining({ fbPostId: 'stuck_approved', approvalId: 'approval-1', skipFilters: true, ignoreMaxAge: true }),
+      { singletonKey: 'stuck_approved' }
+    );
+  });
+
+  it('should move sending posts to needs_review without resending', async () => {
+    await createStuckPost('stuck_sending', PostStatus.sending, 30);
+
+    const swept = await sweepStuckPosts(boss as any, mockLogger as any);
+
+    expect(swept[0].action).toBe('needs_review');
+    const post = await prisma.post.findUnique({ where: { fbPostId: 'stuck_sending' } });
+    expect(post?.status).toBe(PostStatus.needs_review);
+    expect(post?.lastError).toMatch(/Stuck in sending for \d+ min/);
+    expect(boss.send).not.toHaveBeenCalled();
+    expect(await sweepEvents('stuck_sending')).toEqual([
+      expect.objectContaining({ status: 'sending', action: 'needs_review' }),
+    ]);
+  });
+
+  it('should leave recent and paused posts alone', async () => {
+    await createStuckPost('recent_fetching', PostStatus.fetching, 2);
+    await createStuckPost('long_paused', PostStatus.paused, 600);
+
+    expect(await sweepStuckPosts(boss as any, mockLogger as any)).toEqual([]);
+    expect(boss.send).not.toHaveBeenCalled();
+  });
+
+  it('should skip received posts whose job is still queued, recording it once', async () => {
+    await createStuckPost('queued_received', PostStatus.received, 30);
+    liveJobs = ['queued_received'];
+
+    await sweepStuckPosts(boss as any, mockLogger as any);
+    const swept = await sweepStuckPosts(boss as any, mockLogger as any);
+
+    expect(swept[0].action).toBe('skipped');
+    expect(boss.send).not.toHaveBeenCalled();
+    expect(await sweepEvents('queued_received')).toEqual([
+      expect.objectContaining({ action: 'skipped' }),
+    ]);
+  });
+
+  it('should fail a post that keeps getting stuck', async () => {
+    await createStuckPost('poison', PostStatus.fetching, 30);
+    const { id } = (await prisma.post.findUnique({ where: { fbPostId: 'poison' } }))!;
+    await prisma.postEvent.createMany({
+      data: [1, 2, 3].map(() => ({ postId: id, event: 'swept', details: { action: 'requeued' } })),
+    });
+
+    const swept = await sweepStuckPosts(boss as any, mockLogger as any);
+
+    expect(swept[0].action).toBe('failed');
+    const post = await prisma.post.findUnique({ where: { fbPostId: 'poison' } });
+    expect(post?.status).toBe(PostStatus.failed);
+    expect(boss.send).not.toHaveBeenCalled();
+  });
+});
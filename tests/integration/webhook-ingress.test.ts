@@ -25,6 +25,8 @@ vi.mock('pg-boss', () => {
 // Now import the routes
 const { metaWebhookRoutes } = await import('../../src/ingress/routes/meta-webhook.js');
 const { healthRoutes } = await import('../../src/ingress/routes/health.js');
+const { metricsRoutes } = await import('../../src/metrics.js');
+const { boss } = await import('../../src/ingress/server.js');
 
 describe('Webhook Ingress Integration', () => {
   let app: FastifyInstance;
@@ -59,6 +61,7 @@ describe('Webhook Ingress Integration', () => {
     );
 
     await app.register(healthRoutes);
+    await app.register(metricsRoutes);
     await app.register(metaWebhookRoutes, { prefix: '/meta' });
     await app.ready();
   });
@@ -195,6 +198,163 @@ describe('Webhook Ingress Integration', () => {
 
       expect(post).not.toBeNull();
       expect(post?.status).toBe('received');
+      expect(post?.pageId).toBe('123456789');
+    });
+
+    it('should accept events for pages in the pages table', async () => {
+      await prisma.page.create({
+        data: {
+          id: '555000111',
+          accessToken: 'second-page-token',
+          discordWebhookUrl: 'https://discord.com/api/webhooks/555/second',
+        },
+      });
+
+      const body = JSON.stringify({
+        object: 'page',
+        entry: [
+          {
+            id: '555000111',
+            time: Date.now(),
+            changes: [{ field: 'feed', value: { post_id: '555000111_42', verb: 'add', item: 'post' } }],
+          },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/meta/webhook',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createSignature(body),
+        },
+        payload: body,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId: '555000111_42' } });
+      expect(post?.pageId).toBe('555000111');
+    });
+
+    it('should queue posts for bulk-only routes on the bulk lane', async () => {
+      await prisma.page.create({
+        data: {
+          id: '555000222',
+          accessToken: 'news-page-token',
+          discordWebhookUrl: 'https://discord.com/api/webhooks/9/default',
+          routing: {
+            routes: [
+              { name: 'news', tags: ['#stockmarketnews'], webhookUrl: 'https://discord.com/api/webhooks/9/news', bulk: true },
+            ],
+          },
+        },
+      });
+      const send = vi.spyOn(boss, 'send');
+
+      for (const [postId, message] of [
+        ['555000222_1', 'Markets open higher #stockmarketnews'],
+        ['555000222_2', 'Buying AAPL #discord'],
+      ]) {
+        const body = JSON.stringify({
+          object: 'page',
+          entry: [
+            {
+              id: '555000222',
+              time: Date.now(),
+              changes: [{ field: 'feed', value: { post_id: postId, verb: 'add', item: 'post', message } }],
+            },
+          ],
+        });
+        await app.inject({
+          method: 'POST',
+          url: '/meta/webhook',
+          headers: {
+            'content-type': 'application/json',
+            'x-hub-signature-256': createSignature(body),
+          },
+          payload: body,
+        });
+      }
+
+      expect(send.mock.calls.map(([queue, job]) => [queue, (job as { fbPostId: string }).fbPostId])).toEqual([
+        ['process-post-bulk', '555000222_1'],
+        ['process-post', '555000222_2'],
+      ]);
+      send.mockRestore();
+    });
+
+    it('should skip a page with invalid routing rules without failing the rest of the batch', async () => {
+      // Written behind the validation in the subscribe script, e.g. by hand in SQL
+      await prisma.page.create({
+        data: {
+          id: '555000333',
+          accessToken: 'broken-page-token',
+          discordWebhookUrl: 'https://discord.com/api/webhooks/555/broken',
+          routing: { routes: [{ name: 'broken', tags: ['not-a-tag'] }] },
+        },
+      });
+
+      const body = JSON.stringify({
+        object: 'page',
+        entry: [
+          {
+            id: '555000333',
+            time: Date.now(),
+            changes: [{ field: 'feed', value: { post_id: '555000333_1', verb: 'add', item: 'post' } }],
+          },
+          {
+            id: '123456789',
+            time: Date.now(),
+            changes: [{ field: 'feed', value: { post_id: '123456789_after_broken', verb: 'add', item: 'post' } }],
+          },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/meta/webhook',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createSignature(body),
+        },
+        payload: body,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(await prisma.post.findUnique({ where: { fbPostId: '555000333_1' } })).toBeNull();
+      expect(await prisma.post.findUnique({ where: { fbPostId: '123456789_after_broken' } })).not.toBeNull();
+
+      const metrics = await app.inject({ method: 'GET', url: '/metrics' });
+      expect(metrics.body).toMatch(/relay_webhook_events_total\{outcome="page_error"\} [1-9]/);
+    });
+
+    it('should ignore events for unknown pages', async () => {
+      const body = JSON.stringify({
+        object: 'page',
+        entry: [
+          {
+            id: '999999999',
+            time: Date.now(),
+            changes: [{ field: 'feed', value: { post_id: '999999999_1', verb: 'add', item: 'post' } }],
+          },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/meta/webhook',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createSignature(body),
+        },
+        payload: body,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId: '999999999_1' } });
+      expect(post).toBeNull();
     });
 
     it('should ignore non-add verbs', async () => {
@@ -238,6 +398,114 @@ describe('Webhook Ingress Integration', () => {
       expect(post).toBeNull();
     });
 
+    it('should not create a post record for edits of untracked posts', async () => {
+      const body = JSON.stringify({
+        object: 'page',
+        entry: [
+          {
+            id: '123456789',
+            time: Date.now(),
+            changes: [
+              {
+                field: 'feed',
+                value: {
+                  post_id: '123456789_untracked_edit',
+                  verb: 'edited',
+                  item: 'status',
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/meta/webhook',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createSignature(body),
+        },
+        payload: body,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const post = await prisma.post.findUnique({
+        where: { fbPostId: '123456789_untracked_edit' },
+      });
+
+      expect(post).toBeNull();
+    });
+
+    it('should ignore comment edits on a tracked post', async () => {
+      await prisma.post.create({ data: { fbPostId: '123456789_commented', status: 'delivered' } });
+      const send = vi.spyOn(boss, 'send');
+
+      const body = JSON.stringify({
+        object: 'page',
+        entry: [
+          {
+            id: '123456789',
+            time: Date.now(),
+            changes: [
+              {
+                field: 'feed',
+                value: { post_id: '123456789_commented', comment_id: '123456789_commented_42', verb: 'edited', item: 'comment' },
+              },
+            ],
+          },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/meta/webhook',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createSignature(body),
+        },
+        payload: body,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(send).not.toHaveBeenCalled();
+      send.mockRestore();
+    });
+
+    it('should not retract a post when a comment or reaction on it is removed', async () => {
+      await prisma.post.create({ data: { fbPostId: '123456789_liked', status: 'delivered' } });
+      const send = vi.spyOn(boss, 'send');
+
+      const body = JSON.stringify({
+        object: 'page',
+        entry: [
+          {
+            id: '123456789',
+            time: Date.now(),
+            changes: [
+              { field: 'feed', value: { post_id: '123456789_liked', comment_id: '123456789_liked_7', verb: 'remove', item: 'comment' } },
+              { field: 'feed', value: { post_id: '123456789_liked', verb: 'remove', item: 'reaction', reaction_type: 'like' } },
+            ],
+          },
+        ],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/meta/webhook',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': createSignature(body),
+        },
+        payload: body,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(send).not.toHaveBeenCalled();
+      send.mockRestore();
+    });
+
     it('should deduplicate repeated webhooks', async () => {
       const body = JSON.stringify({
         object: 'page',
@@ -301,4 +569,25 @@ describe('Webhook Ingress Integration', () => {
       expect(body.status).toBe('healthy');
     });
   });
+
+  describe('GET /metrics', () => {
+    it('should count webhook outcomes in Prometheus format', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/meta/webhook',
+        headers: {
+          'content-type': 'application/json',
+          'x-hub-signature-256': 'sha256=invalid',
+        },
+        payload: JSON.stringify({ object: 'page', entry: [] }),
+      });
+
+      const response = await app.inject({ method: 'GET', url: '/metrics' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.body).toMatch(/relay_webhook_events_total\{outcome="bad_signature"\} [1-9]/);
+      expect(response.body).toContain('# TYPE relay_delivery_latency_seconds histogram');
+    });
+  });
 });
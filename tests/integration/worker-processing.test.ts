@@ -4,7 +4,7 @@
  */
 import { describe, it, expect, beforeAll, afterAll, beforeEach, vi, type Mock } from 'vitest';
 import { prisma, setupTestDatabase, cleanupTestData, teardownTestDatabase } from './setup.js';
-import { PostStatus } from '@prisma/client';
+import { PostStatus, DeliveryStatus } from '@prisma/client';
 
 // Mock fetch for external API calls
 const mockFetch = vi.fn();
@@ -12,7 +12,10 @@ global.fetch = mockFetch;
 
 // Import after setting up mocks
 const { processPost } = await import('../../src/worker/handlers/process-post.js');
-const { getOrCreatePost } = await import('../../src/services/post-state.js');
+const { editPost } = await import('../../src/worker/handlers/edit-post.js');
+const { retractPost } = await import('../../src/worker/handlers/retract-post.js');
+const { getOrCreatePost, releasePausedPosts } = await import('../../src/services/post-state.js');
+const { setSecret } = await import('../../src/services/secrets.js');
 
 // Create a mock logger
 const mockLogger = {
@@ -68,12 +71,24 @@ describe('Worker Processing Integration', () => {
       // Verify final state
       const post = await prisma.post.findUnique({
         where: { fbPostId },
-        include: { events: true },
+        include: { events: true, deliveries: true },
       });
 
       expect(post?.status).toBe(PostStatus.delivered);
-      expect(post?.discordMsgId).toBe('discord-msg-123');
+      expect(post?.deliveries).toMatchObject([
+        { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg-123', attempts: 1 },
+      ]);
       expect(post?.message).toBe('Buy AAPL at $150 #discord');
+      expect(post?.signals).toEqual({ tickers: ['AAPL'], direction: 'buy', entry: 150, targets: [], options: [] });
+
+      // The text stays in content; the signals are shown as embed fields
+      const payload = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(payload.content).toContain('Buy AAPL at $150');
+      expect(payload.embeds[0].fields).toEqual([
+        { name: 'Ticker', value: '$AAPL', inline: true },
+        { name: 'Direction', value: '🟢 Buy', inline: true },
+        { name: 'Entry', value: '$150', inline: true },
+      ]);
     });
 
     it('should ignore post without trigger tag', async () => {
@@ -206,8 +221,9 @@ describe('Worker Processing Integration', () => {
         data: {
           fbPostId,
           status: PostStatus.delivered,
-          discordMsgId: 'already-sent',
-          deliveredAt: new Date(),
+          deliveries: {
+            create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'already-sent', deliveredAt: new Date() },
+          },
         },
       });
 
@@ -217,6 +233,181 @@ describe('Worker Processing Integration', () => {
       expect(mockFetch).not.toHaveBeenCalled();
     });
 
+    it('should park posts as paused while alerts are disabled', async () => {
+      const fbPostId = '123_paused';
+      await getOrCreatePost(fbPostId);
+      await prisma.setting.create({ data: { key: 'alerts_enabled', value: false } });
+
+      await processPost(fbPostId, mockLogger as any);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+
+      expect(post?.status).toBe(PostStatus.paused);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should deliver released posts once alerts are re-enabled', async () => {
+      const fbPostId = '123_released';
+      await getOrCreatePost(fbPostId);
+      await prisma.setting.create({ data: { key: 'alerts_enabled', value: false } });
+      await processPost(fbPostId, mockLogger as any);
+
+      await prisma.setting.update({ where: { key: 'alerts_enabled' }, data: { value: true } });
+      const released = await releasePausedPosts('test');
+      expect(released.map((p) => p.fbPostId)).toEqual([fbPostId]);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Held alert #discord',
+          created_time: new Date().toISOString(),
+          from: { id: '123456789', name: 'Test Page' },
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'discord-msg-released' }),
+      });
+
+      await processPost(fbPostId, mockLogger as any);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.delivered);
+    });
+
+    it('should deliver released posts paused for longer than the age limit', async () => {
+      const fbPostId = '123_long_pause';
+      await getOrCreatePost(fbPostId);
+      await prisma.setting.create({ data: { key: 'alerts_enabled', value: false } });
+      await processPost(fbPostId, mockLogger as any);
+
+      await prisma.setting.update({ where: { key: 'alerts_enabled' }, data: { value: true } });
+      await releasePausedPosts('test');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Paused for hours #discord',
+          created_time: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
+          from: { id: '123456789', name: 'Test Page' },
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'discord-msg-long-pause' }),
+      });
+
+      // Released posts are enqueued with ignoreMaxAge (admin API and `npm run alerts -- release`)
+      await processPost(fbPostId, mockLogger as any, undefined, { ignoreMaxAge: true });
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.delivered);
+    });
+
+    it('should use the token, trigger tag and webhook of the post page', async () => {
+      const fbPostId = '555000111_alert';
+      await prisma.page.create({
+        data: {
+          id: '555000111',
+          accessToken: 'second-page-token',
+          triggerTag: '#alerts',
+          discordWebhookUrl: 'https://discord.com/api/webhooks/555/second',
+        },
+      });
+      await getOrCreatePost(fbPostId, '555000111');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Second page alert #alerts',
+          created_time: new Date().toISOString(),
+          from: { id: '555000111', name: 'Second Page' },
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'discord-msg-second' }),
+      });
+
+      await processPost(fbPostId, mockLogger as any);
+
+      const [graphUrl] = mockFetch.mock.calls[0];
+      expect(new URL(graphUrl).searchParams.get('access_token')).toBe('second-page-token');
+      const [discordUrl] = mockFetch.mock.calls[1];
+      expect(discordUrl).toContain('/webhooks/555/second');
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.delivered);
+    });
+
+    it('should decrypt page credentials stored as secrets', async () => {
+      const fbPostId = '555000333_alert';
+      await setSecret('page/555000333/access-token', 'encrypted-page-token');
+      await setSecret('page/555000333/webhook', 'https://discord.com/api/webhooks/555/encrypted');
+      await prisma.page.create({
+        data: {
+          id: '555000333',
+          accessToken: 'secret:page/555000333/access-token',
+          discordWebhookUrl: 'secret:page/555000333/webhook',
+        },
+      });
+      await getOrCreatePost(fbPostId, '555000333');
+
+      const stored = await prisma.secret.findUnique({ where: { name: 'page/555000333/webhook' } });
+      expect(stored?.ciphertext).not.toContain('discord.com');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Encrypted page alert #discord',
+          created_time: new Date().toISOString(),
+          from: { id: '555000333', name: 'Encrypted Page' },
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'discord-msg-encrypted' }),
+      });
+
+      await processPost(fbPostId, mockLogger as any);
+
+      const [graphUrl] = mockFetch.mock.calls[0];
+      expect(new URL(graphUrl).searchParams.get('access_token')).toBe('encrypted-page-token');
+      const [discordUrl] = mockFetch.mock.calls[1];
+      expect(discordUrl).toContain('/webhooks/555/encrypted');
+
+      const delivery = await prisma.delivery.findFirst({ where: { post: { fbPostId } } });
+      expect(delivery?.webhookId).toBe('555');
+    });
+
+    it('should fail posts whose page was disabled', async () => {
+      const fbPostId = '555000222_alert';
+      await prisma.page.create({
+        data: {
+          id: '555000222',
+          accessToken: 'disabled-page-token',
+          discordWebhookUrl: 'https://discord.com/api/webhooks/555/disabled',
+          enabled: false,
+        },
+      });
+      await getOrCreatePost(fbPostId, '555000222');
+
+      await processPost(fbPostId, mockLogger as any);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.failed);
+      expect(post?.lastError).toContain('555000222');
+    });
+
     it('should reject posts not from configured page', async () => {
       const fbPostId = '123_wrong_page';
       await getOrCreatePost(fbPostId);
@@ -240,6 +431,330 @@ describe('Worker Processing Integration', () => {
     });
   });
 
+  describe('content filters', () => {
+    const filterPage = async (id: string) => {
+      await prisma.page.create({
+        data: {
+          id,
+          accessToken: 'filter-page-token',
+          discordWebhookUrl: `https://discord.com/api/webhooks/${id}/filtered`,
+          routing: {
+            filters: [
+              { name: 'phone', type: 'redact', pattern: '\\d{3}-\\d{3}-\\d{4}', replacement: '[phone removed]' },
+              { name: 'personal', type: 'deny', keywords: ['#personal'], action: 'ignore' },
+              { name: 'ticker', type: 'requireTicker' },
+            ],
+          },
+        },
+      });
+    };
+
+    const mockGraphPost = (fbPostId: string, message: string) => {
+      const pageId = fbPostId.split('_')[0];
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: fbPostId, message, created_time: new Date().toISOString(), from: { id: pageId, name: 'Filtered Page' } }),
+      });
+    };
+
+    it('should hold a post and record the rule that fired', async () => {
+      const fbPostId = '777000111_held';
+      await filterPage('777000111');
+      await getOrCreatePost(fbPostId, '777000111');
+      mockGraphPost(fbPostId, 'Good morning everyone #discord');
+
+      await processPost(fbPostId, mockLogger as any);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const post = await prisma.post.findUnique({ where: { fbPostId }, include: { events: true } });
+      expect(post?.status).toBe(PostStatus.held);
+      expect(post?.events.find((e) => e.event === 'status_held')?.details).toMatchObject({
+        reason: 'No ticker found',
+        rule: { name: 'ticker', type: 'requireTicker' },
+      });
+    });
+
+    it('should send a released post without the hold rules', async () => {
+      const fbPostId = '777000222_released';
+      await filterPage('777000222');
+      await getOrCreatePost(fbPostId, '777000222');
+      mockGraphPost(fbPostId, 'Good morning everyone #discord');
+      await processPost(fbPostId, mockLogger as any);
+
+      await prisma.post.update({ where: { fbPostId }, data: { status: PostStatus.received } });
+      mockGraphPost(fbPostId, 'Good morning everyone #discord');
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'discord-msg-filtered' }) });
+
+      await processPost(fbPostId, mockLogger as any, undefined, { skipFilters: true });
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.delivered);
+    });
+
+    it('should send a held post released after the age limit', async () => {
+      const fbPostId = '777000444_late_release';
+      await filterPage('777000444');
+      await getOrCreatePost(fbPostId, '777000444');
+      mockGraphPost(fbPostId, 'Good morning everyone #discord');
+      await processPost(fbPostId, mockLogger as any);
+
+      await prisma.post.update({ where: { fbPostId }, data: { status: PostStatus.received } });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Good morning everyone #discord',
+          created_time: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+          from: { id: '777000444', name: 'Filtered Page' },
+        }),
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'discord-msg-late-release' }) });
+
+      // As enqueued by POST /admin/posts/:fbPostId/release
+      await processPost(fbPostId, mockLogger as any, undefined, { skipFilters: true, ignoreMaxAge: true });
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.delivered);
+    });
+
+    it('should ignore posts matched by an ignore rule', async () => {
+      const fbPostId = '777000333_personal';
+      await filterPage('777000333');
+      await getOrCreatePost(fbPostId, '777000333');
+      mockGraphPost(fbPostId, 'Buy $AAPL before the #personal trip #discord');
+
+      await processPost(fbPostId, mockLogger as any);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.ignored);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should redact the Discord copy but store the message as written', async () => {
+      const fbPostId = '777000444_redacted';
+      await filterPage('777000444');
+      await getOrCreatePost(fbPostId, '777000444');
+      mockGraphPost(fbPostId, 'Buy $AAPL, questions to 555-123-4567 #discord');
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'discord-msg-redacted' }) });
+
+      await processPost(fbPostId, mockLogger as any);
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.content).toContain('[phone removed]');
+      expect(JSON.stringify(body)).not.toContain('555-123-4567');
+
+      const post = await prisma.post.findUnique({ where: { fbPostId }, include: { events: true } });
+      expect(post?.status).toBe(PostStatus.delivered);
+      expect(post?.message).toContain('555-123-4567');
+      expect(post?.events.find((e) => e.event === 'status_sending')?.details).toMatchObject({
+        redactions: [{ rule: 'phone', count: 1 }],
+      });
+    });
+  });
+
+  describe('editPost', () => {
+    it('should PATCH the delivered Discord message and record a diff', async () => {
+      const fbPostId = '123_edited';
+      await prisma.post.create({
+        data: {
+          fbPostId,
+          status: PostStatus.delivered,
+          message: 'Buy AAPL target $150 #discord',
+          deliveries: {
+            create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg-edit', deliveredAt: new Date() },
+          },
+        },
+      });
+
+      // Mock Facebook Graph API response with the new revision
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Buy AAPL target $155 #discord',
+          from: { id: '123456789', name: 'Test Page' },
+        }),
+      });
+
+      // Mock Discord PATCH response
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'discord-msg-edit' }),
+      });
+
+      await editPost(fbPostId, mockLogger as any);
+
+      const [patchUrl, patchInit] = mockFetch.mock.calls[1];
+      expect(patchUrl).toBe('https://discord.com/api/webhooks/test/test/messages/discord-msg-edit');
+      expect(patchInit.method).toBe('PATCH');
+
+      const post = await prisma.post.findUnique({
+        where: { fbPostId },
+        include: { events: true },
+      });
+
+      expect(post?.message).toBe('Buy AAPL target $155 #discord');
+      const edited = post?.events.find((e) => e.event === 'post_edited');
+      expect(edited?.details).toMatchObject({
+        previousMessage: 'Buy AAPL target $150 #discord',
+        message: 'Buy AAPL target $155 #discord',
+        diff: 'Buy AAPL target [-$150-]{+$155+} #discord',
+      });
+    });
+
+    it('should skip edits for posts that were never delivered', async () => {
+      const fbPostId = '123_edit_ignored';
+      await prisma.post.create({
+        data: { fbPostId, status: PostStatus.ignored, message: 'No tag here' },
+      });
+
+      await editPost(fbPostId, mockLogger as any);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      const events = await prisma.postEvent.findMany({ where: { post: { fbPostId } } });
+      expect(events.map((e) => e.event)).toContain('edit_skipped');
+    });
+
+    it('should not PATCH when the message is unchanged', async () => {
+      const fbPostId = '123_edit_same';
+      await prisma.post.create({
+        data: {
+          fbPostId,
+          status: PostStatus.delivered,
+          message: 'Alert #discord',
+          deliveries: {
+            create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg-same', deliveredAt: new Date() },
+          },
+        },
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: fbPostId,
+          message: 'Alert #discord',
+          from: { id: '123456789', name: 'Test Page' },
+        }),
+      });
+
+      await editPost(fbPostId, mockLogger as any);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1); // Only Facebook
+    });
+  });
+
+  describe('retractPost', () => {
+    // Graph API answer for a deleted post
+    const mockPostGone = () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: async () => ({ error: { message: 'Unsupported get request', code: 100, error_subcode: 33 } }),
+      });
+    };
+
+    it('should delete the Discord message and mark the post retracted', async () => {
+      const fbPostId = '123_removed';
+      await prisma.post.create({
+        data: {
+          fbPostId,
+          status: PostStatus.delivered,
+          message: 'Buy AAPL #discord',
+          deliveries: {
+            create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg-removed', deliveredAt: new Date() },
+          },
+        },
+      });
+
+      mockPostGone();
+      // Mock Discord DELETE response
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await retractPost(fbPostId, mockLogger as any);
+
+      const [deleteUrl, deleteInit] = mockFetch.mock.calls[1];
+      expect(deleteUrl).toBe('https://discord.com/api/webhooks/test/test/messages/discord-msg-removed');
+      expect(deleteInit.method).toBe('DELETE');
+
+      const post = await prisma.post.findUnique({ where: { fbPostId }, include: { deliveries: true } });
+      expect(post?.status).toBe(PostStatus.retracted);
+      expect(post?.deliveries[0].status).toBe(DeliveryStatus.retracted);
+    });
+
+    it('should treat an already-deleted Discord message as retracted', async () => {
+      const fbPostId = '123_removed_twice';
+      await prisma.post.create({
+        data: {
+          fbPostId,
+          status: PostStatus.delivered,
+          message: 'Buy AAPL #discord',
+          deliveries: {
+            create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg-gone', deliveredAt: new Date() },
+          },
+        },
+      });
+
+      mockPostGone();
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => 'Unknown Message',
+      });
+
+      await retractPost(fbPostId, mockLogger as any);
+
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.retracted);
+    });
+
+    it('should keep the Discord message while the post still exists on Facebook', async () => {
+      const fbPostId = '123_not_removed';
+      await prisma.post.create({
+        data: {
+          fbPostId,
+          status: PostStatus.delivered,
+          message: 'Buy AAPL #discord',
+          deliveries: {
+            create: { destination: 'default', status: DeliveryStatus.delivered, messageId: 'discord-msg-kept', deliveredAt: new Date() },
+          },
+        },
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: fbPostId, message: 'Buy AAPL #discord', from: { id: '123456789', name: 'Test Page' } }),
+      });
+
+      await retractPost(fbPostId, mockLogger as any);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1); // Only Facebook
+      const post = await prisma.post.findUnique({ where: { fbPostId }, include: { events: true } });
+      expect(post?.status).toBe(PostStatus.delivered);
+      expect(post?.events.find((e) => e.event === 'retract_skipped')?.details).toMatchObject({ reason: 'Post still on Facebook' });
+    });
+
+    it('should retract unprocessed posts without calling Discord', async () => {
+      const fbPostId = '123_removed_early';
+      await getOrCreatePost(fbPostId);
+
+      await retractPost(fbPostId, mockLogger as any);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      const post = await prisma.post.findUnique({ where: { fbPostId } });
+      expect(post?.status).toBe(PostStatus.retracted);
+    });
+
+    it('should throw while the post is still in flight (triggers pg-boss retry)', async () => {
+      const fbPostId = '123_removed_in_flight';
+      await prisma.post.create({
+        data: { fbPostId, status: PostStatus.sending },
+      });
+
+      await expect(retractPost(fbPostId, mockLogger as any)).rejects.toThrow('retrying');
+    });
+  });
+
   describe('State machine integrity', () => {
     it('should record events for each state transition', async () => {
       const fbPostId = '123_events';
@@ -301,6 +816,7 @@ describe('Worker Processing Integration', () => {
 
       expect(logs.length).toBe(1);
       expect(logs[0].success).toBe(true);
+      expect(logs[0].destination).toBe('default');
       expect(logs[0].discordMsgId).toBe('msg-456');
       expect(logs[0].latencyMs).toBeGreaterThan(0);
     });
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Post } from '@prisma/client';
+
+// Mock config before importing
+vi.mock('../src/config.js', () => ({
+  config: {
+    DATABASE_URL: 'postgresql://localhost/test',
+    LOG_LEVEL: 'silent',
+  },
+}));
+
+// Import after mocking
+const { messageIndexFields, normalizeTicker, postsToCsv } = await import('../src/services/post-search.js');
+
+function post(overrides: Partial<Post> = {}): Post {
+  return {
+    id: 'p1',
+    fbPostId: '123_456',
+    pageId: '123',
+    status: 'delivered',
+    authorId: null,
+    authorName: null,
+    message: 'Buy $AAPL at 150 #discord',
+    signals: { tickers: ['AAPL'], direction: 'buy', entry: 150, targets: [155, 160], options: [] },
+    tickers: ['AAPL'],
+    tags: ['#discord'],
+    permalink: 'https://facebook.com/123/posts/456',
+    createdAt: null,
+    lastError: null,
+    retryCount: 0,
+    receivedAt: new Date('2025-03-01T12:00:00Z'),
+    updatedAt: new Date('2025-03-01T12:00:00Z'),
+    ...overrides,
+  } as Post;
+}
+
+describe('messageIndexFields', () => {
+  it('should index tickers and each hashtag once', () => {
+    const fields = messageIndexFields('Buy $TSLA #discord, PT 300 #Discord #stockstowatch');
+    expect(fields.tickers).toEqual(['TSLA']);
+    expect(fields.tags).toEqual(['#discord', '#stockstowatch']);
+    expect(fields.signals).toMatchObject({ direction: 'buy', targets: [300] });
+  });
+
+  it('should index nothing for a post without text', () => {
+    expect(messageIndexFields(null)).toEqual({ signals: { tickers: [], targets: [], options: [] }, tickers: [], tags: [] });
+  });
+});
+
+describe('normalizeTicker', () => {
+  it('should drop the dollar sign and uppercase', () => {
+    expect(normalizeTicker(' $tsla ')).toBe('TSLA');
+    expect(normalizeTicker('brk.b')).toBe('BRK.B');
+  });
+});
+
+describe('postsToCsv', () => {
+  it('should write a header and one row per post', () => {
+    expect(postsToCsv([post()]).split('\r\n')).toEqual([
+      'fb_post_id,received_at,status,page_id,tickers,tags,direction,entry,targets,stop,permalink,message',
+      '123_456,2025-03-01T12:00:00.000Z,delivered,123,AAPL,#discord,buy,150,155 160,,https://facebook.com/123/posts/456,Buy $AAPL at 150 #discord',
+      '',
+    ]);
+  });
+
+  it('should quote commas, quotes and line breaks', () => {
+    const [, row] = postsToCsv([post({ message: 'He said "buy", then\nsold' })]).split('\r\n');
+    expect(row.endsWith('"He said ""buy"", then\nsold"')).toBe(true);
+  });
+
+  it('should defuse text a spreadsheet would run as a formula', () => {
+    const [, row] = postsToCsv([post({ message: '=HYPERLINK("http://evil.example")' })]).split('\r\n');
+    expect(row.endsWith(`"'=HYPERLINK(""http://evil.example"")"`)).toBe(true);
+  });
+
+  it('should leave signal columns empty for posts without signals', () => {
+    const [, row] = postsToCsv([post({ signals: null, tickers: [], tags: [] })]).split('\r\n');
+    expect(row).toContain('delivered,123,,,,,,,');
+  });
+});
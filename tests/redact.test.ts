@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import pino from 'pino';
+import { redactWebhookUrl, redactSecrets, redactLogObject, redactingLogOptions } from '../src/utils/redact.js';
+
+describe('redactWebhookUrl', () => {
+  it('should keep the webhook ID and hide the token', () => {
+    expect(redactWebhookUrl('https://discord.com/api/webhooks/123456/abc-DEF_token')).toBe(
+      'https://discord.com/api/webhooks/123456/***'
+    );
+  });
+
+  it('should redact message URLs and keep query strings', () => {
+    expect(redactWebhookUrl('https://discord.com/api/webhooks/123/tok/messages/999?wait=true')).toBe(
+      'https://discord.com/api/webhooks/123/***/messages/999?wait=true'
+    );
+  });
+});
+
+describe('redactSecrets', () => {
+  it('should hide Graph API tokens in query strings', () => {
+    expect(redactSecrets('https://graph.facebook.com/v24.0/1_2?fields=id&access_token=EAAB123&appsecret_proof=x')).toBe(
+      'https://graph.facebook.com/v24.0/1_2?fields=id&access_token=***&appsecret_proof=x'
+    );
+  });
+
+  it('should leave other text alone', () => {
+    expect(redactSecrets('Routing to channel-specific webhook')).toBe('Routing to channel-specific webhook');
+  });
+});
+
+describe('redactLogObject', () => {
+  it('should redact nested strings', () => {
+    const redacted = redactLogObject({
+      route: { webhookUrl: 'https://discord.com/api/webhooks/1/secret' },
+      urls: ['https://discord.com/api/webhooks/2/secret'],
+      attempts: 3,
+    });
+
+    expect(redacted).toEqual({
+      route: { webhookUrl: 'https://discord.com/api/webhooks/1/***' },
+      urls: ['https://discord.com/api/webhooks/2/***'],
+      attempts: 3,
+    });
+  });
+
+  it('should redact error messages and stacks, keeping the error type', () => {
+    const error = new TypeError('GET https://graph.facebook.com/v24.0/1_2?access_token=EAAB123 failed');
+    const redacted = redactLogObject({ error }).error;
+
+    expect(redacted).toBeInstanceOf(TypeError);
+    expect(redacted.message).toBe('GET https://graph.facebook.com/v24.0/1_2?access_token=*** failed');
+    expect(redacted.stack).not.toContain('EAAB123');
+    expect(error.message).toContain('EAAB123');
+  });
+
+  it('should pass other objects through', () => {
+    const date = new Date();
+    expect(redactLogObject({ date }).date).toBe(date);
+  });
+});
+
+describe('redactingLogOptions', () => {
+  const capture = () => {
+    const lines: string[] = [];
+    const log = pino({ ...redactingLogOptions }, { write: (line: string) => lines.push(line) });
+    return { log, lines };
+  };
+
+  it('should keep tokens in logged errors out of the output', () => {
+    const { log, lines } = capture();
+    const err = new Error('Graph request https://graph.facebook.com/v24.0/me?access_token=EAAB123 failed');
+
+    log.error({ err, error: err }, 'Fetch failed');
+
+    expect(lines[0]).not.toContain('EAAB123');
+    const entry = JSON.parse(lines[0]);
+    expect(entry.err).toMatchObject({ type: 'Error', message: expect.stringContaining('access_token=***') });
+    expect(entry.err.stack).toContain('access_token=***');
+  });
+
+  it('should redact the message and its format arguments', () => {
+    const { log, lines } = capture();
+
+    log.warn('Posting to https://discord.com/api/webhooks/1/secret via %s', 'https://discord.com/api/webhooks/2/secret');
+
+    expect(JSON.parse(lines[0]).msg).toBe('Posting to https://discord.com/api/webhooks/1/*** via https://discord.com/api/webhooks/2/***');
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock config before importing
+vi.mock('../src/config.js', () => ({
+  config: {
+    DISCORD_WEBHOOK_URL: 'https://discord.com/api/webhooks/1/default',
+    DISCORD_DISCLAIMER: 'Not financial advice.',
+    DISCORD_MENTION_ROLE_ID: '999',
+  },
+}));
+
+// Import after mocking
+const { parseRoutingConfig, RoutingConfigError } = await import('../src/routing.js');
+const { isBulkMessage } = await import('../src/utils/tag-parser.js');
+
+describe('parseRoutingConfig', () => {
+  it('should apply built-in and env defaults to an empty file', () => {
+    const routing = parseRoutingConfig('');
+
+    expect(routing.routes).toEqual([]);
+    expect(routing.fanOut).toBe(false);
+    expect(routing.defaultRoute).toMatchObject({
+      name: 'default',
+      webhookUrl: 'https://discord.com/api/webhooks/1/default',
+      title: '📈 TRADE ALERT',
+      color: 0x1877f2,
+      mentionRoleId: '999',
+      disclaimer: 'Not financial advice.',
+    });
+  });
+
+  it('should parse YAML rules and inherit defaults', () => {
+    const routing = parseRoutingConfig(`
+default:
+  color: "#00ff00"
+routes:
+  - name: news
+    tags: ["#StockMarketNews"]
+    webhookUrl: https://discord.com/api/webhooks/2/news
+    title: "📰 STOCK MARKET NEWS"
+    mentionRoleId: null
+`);
+
+    expect(routing.routes).toHaveLength(1);
+    expect(routing.routes[0]).toMatchObject({
+      name: 'news',
+      tags: ['#stockmarketnews'],
+      title: '📰 STOCK MARKET NEWS',
+      color: 0x00ff00,
+      mentionRoleId: null,
+      disclaimer: 'Not financial advice.',
+      priority: 100,
+      bulk: false,
+      approval: false,
+    });
+  });
+
+  it('should accept JSON', () => {
+    const routing = parseRoutingConfig(JSON.stringify({
+      routes: [{ name: 'watch', tags: ['#stockstowatch'], webhookUrl: 'https://discord.com/api/webhooks/3/w', color: 16711680 }],
+    }));
+
+    expect(routing.routes[0].color).toBe(0xff0000);
+  });
+
+  it('should order rules by priority, keeping file order for ties', () => {
+    const routing = parseRoutingConfig(`
+routes:
+  - { name: c, tags: ["#c"], webhookUrl: "https://example.com/c", priority: 20 }
+  - { name: a, tags: ["#a"], webhookUrl: "https://example.com/a", priority: 10 }
+  - { name: b, tags: ["#b"], webhookUrl: "https://example.com/b", priority: 20 }
+`);
+
+    expect(routing.routes.map((r) => r.name)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('should read the fan-out flag', () => {
+    expect(parseRoutingConfig('fanOut: true').fanOut).toBe(true);
+    expect(() => parseRoutingConfig('fanOut: yes please')).toThrow(RoutingConfigError);
+  });
+
+  it('should reject invalid rules with readable issues', () => {
+    try {
+      parseRoutingConfig(`
+routes:
+  - name: bad
+    tags: ["nohash"]
+    webhookUrl: not-a-url
+    color: "blue"
+`);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(RoutingConfigError);
+      const issues = (err as InstanceType<typeof RoutingConfigError>).issues.join('\n');
+      expect(issues).toContain('routes.0.tags.0');
+      expect(issues).toContain('routes.0.webhookUrl');
+      expect(issues).toContain('routes.0.color');
+    }
+  });
+
+  it('should reject tags that can never match a post', () => {
+    for (const tag of ['#stocks.to.watch', '#123', '#a #b']) {
+      expect(() => parseRoutingConfig(JSON.stringify({
+        routes: [{ name: 'bad', tags: [tag], webhookUrl: 'https://discord.com/api/webhooks/2/bad' }],
+      }))).toThrow(RoutingConfigError);
+    }
+  });
+
+  it('should reject unknown keys and duplicate names', () => {
+    expect(() => parseRoutingConfig('channels: []')).toThrow(RoutingConfigError);
+    expect(() => parseRoutingConfig(`
+routes:
+  - { name: x, tags: ["#a"], webhookUrl: "https://example.com/a" }
+  - { name: x, tags: ["#b"], webhookUrl: "https://example.com/b" }
+`)).toThrow(RoutingConfigError);
+  });
+
+  it('should reject malformed YAML', () => {
+    expect(() => parseRoutingConfig('routes: [')).toThrow(RoutingConfigError);
+  });
+
+  it('should read approval flags for rules and the default route', () => {
+    const routing = parseRoutingConfig(`
+default:
+  approval: true
+routes:
+  - { name: watch, tags: ["#stockstowatch"], webhookUrl: "https://example.com/w", approval: true }
+  - { name: news, tags: ["#stockmarketnews"], webhookUrl: "https://example.com/n" }
+`);
+
+    expect(routing.defaultRoute.approval).toBe(true);
+    expect(routing.routes.map((r) => [r.name, r.approval])).toEqual([['watch', true], ['news', false]]);
+    expect(() => parseRoutingConfig('default: { approval: maybe }')).toThrow(RoutingConfigError);
+  });
+
+  it('should parse content filters with their defaults', () => {
+    const routing = parseRoutingConfig(`
+filters:
+  - { name: phone, type: redact, pattern: '\\d{3}-\\d{4}' }
+  - { name: personal, type: deny, keywords: ["#personal"], action: ignore }
+  - { name: ticker, type: requireTicker }
+`);
+
+    expect(routing.filters).toEqual([
+      { name: 'phone', type: 'redact', pattern: '\\d{3}-\\d{4}', replacement: '[redacted]' },
+      { name: 'personal', type: 'deny', keywords: ['#personal'], action: 'ignore' },
+      { name: 'ticker', type: 'requireTicker', action: 'hold' },
+    ]);
+    expect(parseRoutingConfig('').filters).toEqual([]);
+  });
+
+  it('should reject invalid content filters', () => {
+    for (const filter of [
+      { name: 'bad', type: 'redact', pattern: '([a-z' },
+      { name: 'bad', type: 'deny', keywords: [] },
+      { name: 'bad', type: 'maxLength', maxLength: 0 },
+      { name: 'bad', type: 'requireTicker', action: 'delete' },
+      { name: 'bad', type: 'unknown' },
+    ]) {
+      expect(() => parseRoutingConfig(JSON.stringify({ filters: [filter] }))).toThrow(RoutingConfigError);
+    }
+    expect(() => parseRoutingConfig(JSON.stringify({
+      filters: [{ name: 'x', type: 'requireTicker' }, { name: 'x', type: 'maxLength', maxLength: 10 }],
+    }))).toThrow(RoutingConfigError);
+  });
+});
+
+describe('isBulkMessage', () => {
+  const rules = `
+routes:
+  - { name: news, tags: ["#stockmarketnews"], webhookUrl: "https://example.com/news", priority: 10, bulk: true }
+  - { name: watch, tags: ["#stockstowatch"], webhookUrl: "https://example.com/watch", priority: 20 }
+`;
+
+  it('should put posts for bulk routes only on the bulk queue', () => {
+    const routing = parseRoutingConfig(rules);
+
+    expect(isBulkMessage('Fed minutes out #stockmarketnews', routing)).toBe(true);
+    expect(isBulkMessage('AAPL breaking out #stockstowatch', routing)).toBe(false);
+  });
+
+  it('should treat trade alerts and unknown messages as urgent', () => {
+    const routing = parseRoutingConfig(rules);
+
+    expect(isBulkMessage('Buy AAPL #discord', routing)).toBe(false);
+    expect(isBulkMessage(undefined, routing)).toBe(false);
+  });
+
+  it('should only use the bulk queue when every fan-out destination is bulk', () => {
+    const routing = parseRoutingConfig(`fanOut: true\n${rules}`);
+    const both = 'AAPL #stockmarketnews #stockstowatch';
+
+    expect(isBulkMessage(both, routing)).toBe(false);
+    // Without fan-out only the first matching rule (news) gets the post
+    expect(isBulkMessage(both, parseRoutingConfig(rules))).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { randomBytes } from 'crypto';
+
+const MASTER_KEY = randomBytes(32);
+
+// Mock config and the database before importing
+vi.mock('../src/config.js', () => ({
+  config: {
+    LOG_LEVEL: 'silent',
+    SECRETS_MASTER_KEY: MASTER_KEY.toString('base64'),
+  },
+}));
+
+const findUnique = vi.fn();
+vi.mock('../src/services/post-state.js', () => ({
+  prisma: { secret: { findUnique } },
+}));
+
+// Import after mocking
+const {
+  encryptSecret,
+  decryptSecret,
+  parseMasterKey,
+  resolveSecret,
+  SecretError,
+} = await import('../src/services/secrets.js');
+
+describe('encryptSecret / decryptSecret', () => {
+  it('should round-trip a value', () => {
+    const url = 'https://discord.com/api/webhooks/123/token';
+    const encrypted = encryptSecret(url, MASTER_KEY);
+
+    expect(encrypted.ciphertext).not.toContain('discord');
+    expect(decryptSecret(encrypted, MASTER_KEY)).toBe(url);
+  });
+
+  it('should use a fresh IV for every write', () => {
+    const a = encryptSecret('same value', MASTER_KEY);
+    const b = encryptSecret('same value', MASTER_KEY);
+
+    expect(a.iv).not.toBe(b.iv);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  });
+
+  it('should reject the wrong key', () => {
+    const encrypted = encryptSecret('page-token', MASTER_KEY);
+
+    expect(() => decryptSecret(encrypted, randomBytes(32))).toThrow(SecretError);
+  });
+
+  it('should reject a tampered ciphertext', () => {
+    const encrypted = encryptSecret('page-token', MASTER_KEY);
+    const bytes = Buffer.from(encrypted.ciphertext, 'base64');
+    bytes[0] ^= 0xff;
+
+    expect(() => decryptSecret({ ...encrypted, ciphertext: bytes.toString('base64') }, MASTER_KEY)).toThrow(SecretError);
+  });
+});
+
+describe('parseMasterKey', () => {
+  it('should accept hex and base64 keys', () => {
+    expect(parseMasterKey(MASTER_KEY.toString('hex'))).toEqual(MASTER_KEY);
+    expect(parseMasterKey(MASTER_KEY.toString('base64'))).toEqual(MASTER_KEY);
+  });
+
+  it('should reject keys of the wrong length', () => {
+    expect(() => parseMasterKey(randomBytes(16).toString('base64'))).toThrow(SecretError);
+  });
+});
+
+describe('resolveSecret', () => {
+  beforeEach(() => {
+    findUnique.mockReset();
+  });
+
+  it('should return plain values unchanged', async () => {
+    expect(await resolveSecret('https://discord.com/api/webhooks/1/plain')).toBe('https://discord.com/api/webhooks/1/plain');
+    expect(findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should decrypt referenced secrets and cache them', async () => {
+    findUnique.mockResolvedValue({ name: 'news-webhook', ...encryptSecret('https://discord.com/api/webhooks/2/news', MASTER_KEY) });
+
+    expect(await resolveSecret('secret:news-webhook')).toBe('https://discord.com/api/webhooks/2/news');
+    expect(await resolveSecret('secret:news-webhook')).toBe('https://discord.com/api/webhooks/2/news');
+    expect(findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail for a missing secret', async () => {
+    findUnique.mockResolvedValue(null);
+
+    await expect(resolveSecret('secret:missing')).rejects.toThrow('Secret "missing" does not exist');
+  });
+});
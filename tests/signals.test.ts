@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock config before importing
+vi.mock('../src/config.js', () => ({
+  config: {
+    TRIGGER_TAG: '#discord',
+    DATABASE_URL: 'postgresql://localhost/test',
+    LOG_LEVEL: 'silent',
+  },
+}));
+
+// Import after mocking
+const { parseSignals, hasSignals } = await import('../src/utils/signals.js');
+const { buildSignalFields, buildEmbeds } = await import('../src/services/discord.js');
+
+describe('parseSignals', () => {
+  it('should find nothing in an empty or plain message', () => {
+    const empty = { tickers: [], targets: [], options: [] };
+    expect(parseSignals(undefined)).toEqual(empty);
+    expect(parseSignals('Markets were quiet today #discord')).toEqual(empty);
+    expect(hasSignals(parseSignals('Markets were quiet today'))).toBe(false);
+  });
+
+  it('should parse a full trade alert', () => {
+    expect(parseSignals('Buy $AAPL entry 150.25, PT 155/160, stop 145 #discord')).toEqual({
+      tickers: ['AAPL'],
+      direction: 'buy',
+      entry: 150.25,
+      targets: [155, 160],
+      stop: 145,
+      options: [],
+    });
+  });
+
+  it('should collect cashtags once each, in order', () => {
+    expect(parseSignals('$tsla and $AAPL, then $TSLA again').tickers).toEqual(['TSLA', 'AAPL']);
+  });
+
+  it('should accept class-share cashtags and ignore dollar amounts', () => {
+    expect(parseSignals('$BRK.B at $350').tickers).toEqual(['BRK.B']);
+    expect(parseSignals('Up $150 today').tickers).toEqual([]);
+  });
+
+  it('should take the symbol after a direction word', () => {
+    expect(parseSignals('Buy AAPL at $150').tickers).toEqual(['AAPL']);
+    expect(parseSignals('SHORT TSLA here').tickers).toEqual(['TSLA']);
+    expect(parseSignals('Buy NOW before it runs').tickers).toEqual([]);
+    expect(parseSignals('buy the dip').tickers).toEqual([]);
+  });
+
+  it.each([
+    ['Bought AAPL', 'buy'],
+    ['BTO SPY 500C 3/21', 'buy'],
+    ['Going long NVDA', 'long'],
+    ['Sold half', 'sell'],
+    ['STC SPY 500C 3/21', 'sell'],
+    ['Shorting TSLA', 'short'],
+  ])('should read the direction of "%s"', (message, direction) => {
+    expect(parseSignals(message).direction).toBe(direction);
+  });
+
+  it('should parse option contracts', () => {
+    expect(parseSignals('AAPL 150C 3/21 and $TSLA 200 puts 12/20/2025').options).toEqual([
+      { ticker: 'AAPL', strike: 150, type: 'call', expiry: '3/21' },
+      { ticker: 'TSLA', strike: 200, type: 'put', expiry: '12/20/2025' },
+    ]);
+    expect(parseSignals('SPY 502.5p 4/5').options).toEqual([{ ticker: 'SPY', strike: 502.5, type: 'put', expiry: '4/5' }]);
+  });
+
+  it('should add the underlying of option contracts to the tickers', () => {
+    expect(parseSignals('BTO AAPL 150C 3/21 @ 2.35').tickers).toEqual(['AAPL']);
+    expect(parseSignals('BTO AAPL 150C 3/21 @ 2.35').entry).toBe(2.35);
+  });
+
+  it('should read price keywords in their common spellings', () => {
+    expect(parseSignals('Entry: $12.50').entry).toBe(12.5);
+    expect(parseSignals('in @ 88').entry).toBe(88);
+    expect(parseSignals('Target $30').targets).toEqual([30]);
+    expect(parseSignals('targets 30, 32 and 35').targets).toEqual([30, 32, 35]);
+    expect(parseSignals('TP: 1.5 - 2').targets).toEqual([1.5, 2]);
+    expect(parseSignals('Stop loss 9.80').stop).toBe(9.8);
+    expect(parseSignals('SL at 41').stop).toBe(41);
+  });
+
+  it('should not mistake times, percentages or dates for prices', () => {
+    const signals = parseSignals('Live at 3pm, target 10% gain, stop 3/21');
+    expect(signals.entry).toBeUndefined();
+    expect(signals.targets).toEqual([]);
+    expect(signals.stop).toBeUndefined();
+  });
+});
+
+describe('buildSignalFields', () => {
+  it('should show each signal as an embed field', () => {
+    const fields = buildSignalFields(parseSignals('Buy $AAPL entry 150, PT 155/160, stop 145, AAPL 160C 3/21'));
+    expect(fields).toEqual([
+      { name: 'Ticker', value: '$AAPL', inline: true },
+      { name: 'Direction', value: '🟢 Buy', inline: true },
+      { name: 'Entry', value: '$150', inline: true },
+      { name: 'Targets', value: '$155 / $160', inline: true },
+      { name: 'Stop', value: '$145', inline: true },
+      { name: 'Options', value: 'AAPL 160C 3/21', inline: false },
+    ]);
+  });
+
+  it('should leave out signals that were not found', () => {
+    expect(buildSignalFields(parseSignals('Sell $TSLA'))).toEqual([
+      { name: 'Ticker', value: '$TSLA', inline: true },
+      { name: 'Direction', value: '🔴 Sell', inline: true },
+    ]);
+  });
+
+  it('should add the fields to the main embed only when there are signals', () => {
+    expect(buildEmbeds({ id: '1', message: 'Short $SPY #discord' })[0].fields).toHaveLength(2);
+    expect(buildEmbeds({ id: '1', message: 'Good morning #discord' })[0].fields).toBeUndefined();
+  });
+});
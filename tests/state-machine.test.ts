@@ -7,14 +7,18 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 // Valid state transitions (copied from post-state.ts for testing)
 const VALID_TRANSITIONS: Record<string, string[]> = {
-  received: ['fetching'],
+  received: ['fetching', 'paused', 'retracted', 'failed'],
   fetching: ['eligible', 'ignored', 'failed', 'received'],
-  eligible: ['sending'],
-  sending: ['delivered', 'failed', 'needs_review'],
-  delivered: [],
+  eligible: ['sending', 'held', 'ignored', 'awaiting_approval', 'received', 'failed'],
+  sending: ['delivered', 'failed', 'needs_review', 'received'], // received when rescheduled after a Discord rate limit
+  delivered: ['retracted'],
   ignored: [],
-  failed: ['received'],
-  needs_review: ['received'],
+  failed: ['received', 'ignored', 'retracted'],
+  needs_review: ['received', 'delivered', 'ignored', 'retracted'],
+  retracted: [],
+  paused: ['received', 'ignored', 'retracted'],
+  held: ['received', 'ignored', 'retracted'],
+  awaiting_approval: ['received', 'ignored', 'retracted'],
 };
 
 function isValidTransition(from: string, to: string): boolean {
@@ -60,11 +64,82 @@ describe('State Machine Transitions', () => {
       expect(isValidTransition('sending', 'needs_review')).toBe(true);
     });
 
+    it('should allow sending → received (rescheduled after a rate limit, nothing was sent)', () => {
+      expect(isValidTransition('sending', 'received')).toBe(true);
+    });
+
     it('should allow fetching → received (retry)', () => {
       expect(isValidTransition('fetching', 'received')).toBe(true);
     });
   });
 
+  describe('Kill switch', () => {
+    it('should allow received → paused (alerts disabled)', () => {
+      expect(isValidTransition('received', 'paused')).toBe(true);
+    });
+
+    it('should allow paused → received (release)', () => {
+      expect(isValidTransition('paused', 'received')).toBe(true);
+    });
+
+    it('should not allow paused posts to skip the pipeline', () => {
+      expect(isValidTransition('paused', 'sending')).toBe(false);
+      expect(isValidTransition('paused', 'delivered')).toBe(false);
+    });
+  });
+
+  describe('Content filters', () => {
+    it('should allow eligible → held and eligible → ignored', () => {
+      expect(isValidTransition('eligible', 'held')).toBe(true);
+      expect(isValidTransition('eligible', 'ignored')).toBe(true);
+    });
+
+    it('should allow held → received (release) and held → ignored (dismiss)', () => {
+      expect(isValidTransition('held', 'received')).toBe(true);
+      expect(isValidTransition('held', 'ignored')).toBe(true);
+    });
+
+    it('should not allow held posts to skip the pipeline', () => {
+      expect(isValidTransition('held', 'sending')).toBe(false);
+      expect(isValidTransition('held', 'delivered')).toBe(false);
+    });
+  });
+
+  describe('Approval', () => {
+    it('should allow eligible → awaiting_approval', () => {
+      expect(isValidTransition('eligible', 'awaiting_approval')).toBe(true);
+    });
+
+    it('should allow awaiting_approval → received (approved) and → ignored (rejected or timed out)', () => {
+      expect(isValidTransition('awaiting_approval', 'received')).toBe(true);
+      expect(isValidTransition('awaiting_approval', 'ignored')).toBe(true);
+    });
+
+    it('should not allow posts awaiting approval to be sent directly', () => {
+      expect(isValidTransition('awaiting_approval', 'sending')).toBe(false);
+    });
+  });
+
+  describe('Retraction', () => {
+    it('should allow delivered → retracted (post removed)', () => {
+      expect(isValidTransition('delivered', 'retracted')).toBe(true);
+    });
+
+    it('should allow received → retracted (removed before processing)', () => {
+      expect(isValidTransition('received', 'retracted')).toBe(true);
+    });
+
+    it('should not allow retracting in-flight posts', () => {
+      expect(isValidTransition('fetching', 'retracted')).toBe(false);
+      expect(isValidTransition('sending', 'retracted')).toBe(false);
+    });
+
+    it('should not allow transitions from retracted', () => {
+      expect(isValidTransition('retracted', 'received')).toBe(false);
+      expect(isValidTransition('retracted', 'delivered')).toBe(false);
+    });
+  });
+
   describe('Terminal states', () => {
     it('should not allow transitions from delivered', () => {
       expect(isValidTransition('delivered', 'received')).toBe(false);
@@ -85,6 +160,35 @@ describe('State Machine Transitions', () => {
     it('should allow needs_review → received (manual retry)', () => {
       expect(isValidTransition('needs_review', 'received')).toBe(true);
     });
+
+    it('should allow needs_review → delivered (confirmed in Discord)', () => {
+      expect(isValidTransition('needs_review', 'delivered')).toBe(true);
+    });
+
+    it('should allow failed/needs_review → ignored (manual dismissal)', () => {
+      expect(isValidTransition('failed', 'ignored')).toBe(true);
+      expect(isValidTransition('needs_review', 'ignored')).toBe(true);
+    });
+
+    it('should not allow failed → delivered (nothing was sent)', () => {
+      expect(isValidTransition('failed', 'delivered')).toBe(false);
+    });
+  });
+
+  describe('Stuck-post sweeper', () => {
+    it('should allow fetching/eligible → received (re-enqueue)', () => {
+      expect(isValidTransition('fetching', 'received')).toBe(true);
+      expect(isValidTransition('eligible', 'received')).toBe(true);
+    });
+
+    it('should allow sending → needs_review (send may have happened)', () => {
+      expect(isValidTransition('sending', 'needs_review')).toBe(true);
+    });
+
+    it('should allow giving up on posts that keep getting stuck', () => {
+      expect(isValidTransition('received', 'failed')).toBe(true);
+      expect(isValidTransition('eligible', 'failed')).toBe(true);
+    });
   });
 
   describe('Invalid transitions', () => {
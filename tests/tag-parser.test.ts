@@ -4,11 +4,15 @@ import { describe, it, expect, vi } from 'vitest';
 vi.mock('../src/config.js', () => ({
   config: {
     TRIGGER_TAG: '#discord',
+    DISCORD_WEBHOOK_URL: 'https://discord.com/api/webhooks/1/default',
   },
 }));
 
 // Import after mocking
-const { hasTag, stripTag, sanitizeForDiscord } = await import('../src/utils/tag-parser.js');
+const { hasTag, hasAnyTrackedTag, findRoutedChannels, stripTag, stripAllHashtags, sanitizeForDiscord } = await import(
+  '../src/utils/tag-parser.js'
+);
+const { parseRoutingConfig } = await import('../src/routing.js');
 
 describe('hasTag', () => {
   it('should return true when tag is present', () => {
@@ -23,7 +27,7 @@ describe('hasTag', () => {
 
   it('should return false when tag is absent', () => {
     expect(hasTag('Check out this trade')).toBe(false);
-    expect(hasTag('Check out this #discord-like')).toBe(false); // This actually matches, hmm
+    expect(hasTag('Check out this #discord-like')).toBe(false);
   });
 
   it('should return false for empty/null messages', () => {
@@ -37,6 +41,45 @@ describe('hasTag', () => {
     expect(hasTag('at the end #discord')).toBe(true);
     expect(hasTag('in the #discord middle')).toBe(true);
   });
+
+  it('should check a page-specific trigger tag when given', () => {
+    expect(hasTag('Second page alert #alerts', '#alerts')).toBe(true);
+    expect(hasTag('Second page alert #discord', '#alerts')).toBe(false);
+  });
+
+  it('should not match longer tags, URLs or code', () => {
+    expect(hasTag('Join #discordapp')).toBe(false);
+    expect(hasTag('Docs at https://example.com/help#discord')).toBe(false);
+    expect(hasTag('Type `#discord` to subscribe')).toBe(false);
+  });
+});
+
+describe('routing matches', () => {
+  const routing = parseRoutingConfig(`
+routes:
+  - name: watch
+    tags: ["#stockstowatch"]
+    webhookUrl: https://discord.com/api/webhooks/2/watch
+  - name: news
+    tags: ["#Börse"]
+    webhookUrl: https://discord.com/api/webhooks/3/news
+`);
+  const tracked = { triggerTag: '#discord', routing };
+
+  it('should route on whole hashtags only', () => {
+    expect(findRoutedChannels('Watch AAPL #stockstowatch', routing).map((r) => r.name)).toEqual(['watch']);
+    expect(findRoutedChannels('My #stockstowatchlist for today', routing)).toEqual([]);
+  });
+
+  it('should ignore tags inside URLs', () => {
+    expect(findRoutedChannels('See https://example.com/list#stockstowatch', routing)).toEqual([]);
+    expect(hasAnyTrackedTag('See https://example.com/list#stockstowatch', tracked)).toBe(false);
+  });
+
+  it('should match non-ASCII tags regardless of case', () => {
+    expect(findRoutedChannels('Neue #BÖRSE Nachrichten', routing).map((r) => r.name)).toEqual(['news']);
+    expect(hasAnyTrackedTag('Neue #börse Nachrichten', tracked)).toBe(true);
+  });
 });
 
 describe('stripTag', () => {
@@ -62,6 +105,18 @@ describe('stripTag', () => {
   });
 });
 
+describe('stripAllHashtags', () => {
+  it('should remove non-ASCII tags completely', () => {
+    expect(stripAllHashtags('Neue #Börse Nachrichten #discord')).toBe('Neue Nachrichten');
+  });
+
+  it('should leave C#, URLs and numbers alone', () => {
+    expect(stripAllHashtags('C# job at https://example.com/#jobs, the #1 pick #hiring')).toBe(
+      'C# job at https://example.com/#jobs, the #1 pick'
+    );
+  });
+});
+
 describe('sanitizeForDiscord', () => {
   it('should strip tag and return clean message', () => {
     expect(sanitizeForDiscord('Buy AAPL #discord at $150')).toBe('Buy AAPL at $150');
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, formatDiff } from '../src/utils/text-diff.js';
+
+describe('diffWords', () => {
+  it('should return a single equal op for identical text', () => {
+    expect(diffWords('Buy AAPL at $150', 'Buy AAPL at $150')).toEqual([
+      { op: 'equal', text: 'Buy AAPL at $150' },
+    ]);
+  });
+
+  it('should detect a replaced word', () => {
+    const ops = diffWords('Target $150 #discord', 'Target $155 #discord');
+    expect(ops).toEqual([
+      { op: 'equal', text: 'Target ' },
+      { op: 'delete', text: '$150' },
+      { op: 'insert', text: '$155' },
+      { op: 'equal', text: ' #discord' },
+    ]);
+  });
+
+  it('should detect appended text', () => {
+    const ops = diffWords('Buy AAPL', 'Buy AAPL now');
+    expect(ops).toEqual([
+      { op: 'equal', text: 'Buy AAPL' },
+      { op: 'insert', text: ' now' },
+    ]);
+  });
+
+  it('should treat null/undefined as empty text', () => {
+    expect(diffWords(null, 'New text')).toEqual([{ op: 'insert', text: 'New text' }]);
+    expect(diffWords('Old text', undefined)).toEqual([{ op: 'delete', text: 'Old text' }]);
+    expect(diffWords(null, null)).toEqual([]);
+  });
+
+  it('should report the changed part of a very long post as replaced', () => {
+    const words = (prefix: string) => Array.from({ length: 20000 }, (_, i) => `${prefix}${i}`).join(' ');
+    const ops = diffWords(`Intro ${words('a')} #discord`, `Intro ${words('b')} #discord`);
+
+    expect(ops.map((op) => op.op)).toEqual(['equal', 'delete', 'insert', 'equal']);
+    expect(ops[0].text).toBe('Intro ');
+    expect(ops[1].text).toBe(words('a'));
+    expect(ops[2].text).toBe(words('b'));
+    expect(ops[3].text).toBe(' #discord');
+  });
+
+  it('should keep the common start and end of a long post when one word changes', () => {
+    const words = Array.from({ length: 20000 }, (_, i) => `w${i}`);
+    const edited = [...words];
+    edited[10000] = 'changed';
+
+    expect(diffWords(words.join(' '), edited.join(' '))).toEqual([
+      { op: 'equal', text: `${words.slice(0, 10000).join(' ')} ` },
+      { op: 'delete', text: 'w10000' },
+      { op: 'insert', text: 'changed' },
+      { op: 'equal', text: ` ${words.slice(10001).join(' ')}` },
+    ]);
+  });
+});
+
+describe('formatDiff', () => {
+  it('should mark insertions and deletions', () => {
+    const ops = diffWords('Target $150', 'Target $155');
+    expect(formatDiff(ops)).toBe('Target [-$150-]{+$155+}');
+  });
+});
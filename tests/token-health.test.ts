@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { assessToken, REQUIRED_PAGE_SCOPES } from '../src/utils/token-health.js';
+import type { TokenDebugInfo } from '../src/services/facebook.js';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function token(overrides: Partial<TokenDebugInfo> = {}): TokenDebugInfo {
+  return {
+    valid: true,
+    expiresAt: null,
+    dataAccessExpiresAt: new Date(NOW.getTime() + 60 * DAY_MS),
+    scopes: [...REQUIRED_PAGE_SCOPES],
+    ...overrides,
+  };
+}
+
+describe('assessToken', () => {
+  it('should report no problems for a healthy non-expiring token', () => {
+    expect(assessToken(token(), NOW, 7)).toEqual({ missingScopes: [], problems: [] });
+  });
+
+  it('should report an invalid token with its error', () => {
+    const { problems } = assessToken(token({ valid: false, error: 'Session has expired' }), NOW, 7);
+    expect(problems).toContain('Token is invalid: Session has expired');
+  });
+
+  it('should warn when expiry is within the warning window', () => {
+    const { problems } = assessToken(token({ expiresAt: new Date(NOW.getTime() + 3 * DAY_MS) }), NOW, 7);
+    expect(problems).toEqual(['Token expires in 3 days (2025-03-04)']);
+  });
+
+  it('should not warn when expiry is beyond the warning window', () => {
+    const { problems } = assessToken(token({ expiresAt: new Date(NOW.getTime() + 30 * DAY_MS) }), NOW, 7);
+    expect(problems).toEqual([]);
+  });
+
+  it('should report an expiry in the past', () => {
+    const { problems } = assessToken(token({ dataAccessExpiresAt: new Date(NOW.getTime() - DAY_MS) }), NOW, 7);
+    expect(problems).toEqual(['Data access expired on 2025-02-28']);
+  });
+
+  it('should list missing permissions', () => {
+    const result = assessToken(token({ scopes: ['pages_manage_metadata'] }), NOW, 7);
+    expect(result.missingScopes).toEqual(['pages_read_engagement']);
+    expect(result.problems).toEqual(['Missing permissions: pages_read_engagement']);
+  });
+});